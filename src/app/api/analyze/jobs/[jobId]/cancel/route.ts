@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { cancelAnalysisJob, isValidAnalysisJobId, summarizeAnalysisJob } from '../../../../../../lib/analysisJobs';
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+
+    if (!isValidAnalysisJobId(jobId)) {
+      return NextResponse.json({
+        error: 'Invalid analysis job id'
+      }, { status: 400 });
+    }
+
+    const job = await cancelAnalysisJob(jobId);
+    if (!job) {
+      return NextResponse.json({
+        error: `Analysis job ${jobId} not found`
+      }, { status: 404 });
+    }
+
+    console.log(`Cancelling analysis job ${jobId}`);
+
+    return NextResponse.json({
+      success: true,
+      ...summarizeAnalysisJob(job)
+    });
+  } catch (error) {
+    console.error('Cancel analysis job error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to cancel analysis job'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import {
+  isAnalysisJobActive,
+  isValidAnalysisJobId,
+  loadAnalysisJob,
+  retryAnalysisJob,
+  summarizeAnalysisJob
+} from '../../../../../../lib/analysisJobs';
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+
+    if (!isValidAnalysisJobId(jobId)) {
+      return NextResponse.json({
+        error: 'Invalid analysis job id'
+      }, { status: 400 });
+    }
+
+    // The body is optional; without chunkIds every failed or cancelled chunk is retried
+    const body = await request.json().catch(() => ({}));
+    const chunkIds = body?.chunkIds;
+    if (chunkIds !== undefined && (!Array.isArray(chunkIds) || chunkIds.some(id => typeof id !== 'string'))) {
+      return NextResponse.json({
+        error: 'chunkIds must be an array of chunk ids'
+      }, { status: 400 });
+    }
+
+    const existing = await loadAnalysisJob(jobId);
+    if (!existing) {
+      return NextResponse.json({
+        error: `Analysis job ${jobId} not found`
+      }, { status: 404 });
+    }
+    // Also refuses a retry another request has just started
+    if (existing.status === 'running' || isAnalysisJobActive(jobId)) {
+      return NextResponse.json({
+        error: `Analysis job ${jobId} is still running`
+      }, { status: 409 });
+    }
+
+    const retried = await retryAnalysisJob(jobId, chunkIds);
+    if (!retried) {
+      return NextResponse.json({
+        error: `Analysis job ${jobId} not found`
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...summarizeAnalysisJob(retried.job)
+    }, { status: 202 });
+  } catch (error) {
+    console.error('Retry analysis job error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to retry analysis job'
+    }, { status: 500 });
+  }
+}
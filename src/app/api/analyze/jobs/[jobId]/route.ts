@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { isValidAnalysisJobId, loadAnalysisJob, summarizeAnalysisJob } from '../../../../../lib/analysisJobs';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+
+    if (!isValidAnalysisJobId(jobId)) {
+      return NextResponse.json({
+        error: 'Invalid analysis job id'
+      }, { status: 400 });
+    }
+
+    const job = await loadAnalysisJob(jobId);
+    if (!job) {
+      return NextResponse.json({
+        error: `Analysis job ${jobId} not found`
+      }, { status: 404 });
+    }
+
+    // Chunk contents are left out; the caller sent them
+    return NextResponse.json({
+      ...summarizeAnalysisJob(job),
+      concurrency: job.concurrency,
+      items: job.items
+    });
+  } catch (error) {
+    console.error('Analysis job error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to read analysis job'
+    }, { status: 500 });
+  }
+}
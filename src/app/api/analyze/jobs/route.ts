@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import {
+  DEFAULT_ANALYSIS_CONCURRENCY,
+  MAX_ANALYSIS_CONCURRENCY,
+  MAX_CHUNK_TOKENS,
+  MIN_CHUNK_TOKENS,
+  listAnalysisJobs,
+  startAnalysisJob,
+  summarizeAnalysisJob,
+  validateAnalysisRequest
+} from '../../../../lib/analysisJobs';
+import { DEFAULT_CHUNKING_OPTIONS } from '../../../../lib/chunking';
+
+export async function POST(request: Request) {
+  try {
+    const { chunks, concurrency, errors } = validateAnalysisRequest(await request.json());
+    if (errors.length > 0) {
+      return NextResponse.json({
+        error: 'Invalid analysis request',
+        details: errors
+      }, { status: 400 });
+    }
+
+    // The job keeps running after the response; poll /api/analyze/jobs/<jobId> for progress
+    const { job } = await startAnalysisJob(chunks, { concurrency });
+
+    return NextResponse.json({
+      success: true,
+      ...summarizeAnalysisJob(job)
+    }, { status: 202 });
+  } catch (error) {
+    console.error('Analysis job error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to start analysis job'
+    }, { status: 500 });
+  }
+}
+
+export async function GET() {
+  try {
+    const jobs = await listAnalysisJobs();
+
+    return NextResponse.json({
+      message: 'Analysis Jobs API',
+      description: 'Analyse every content chunk in the background against the configured LLM provider',
+      usage: {
+        start: {
+          method: 'POST',
+          body: {
+            chunks: 'ContentChunk[] (as returned by the crawler), or instead:',
+            pages: 'ExtractedPageContent[] (as returned by /api/crawl-enhanced, chunked along their sections)',
+            maxTokens: `number (default: ${DEFAULT_CHUNKING_OPTIONS.maxTokens}, ${MIN_CHUNK_TOKENS}-${MAX_CHUNK_TOKENS}, estimated tokens per chunk when sending pages)`,
+            concurrency: `number (default: ${DEFAULT_ANALYSIS_CONCURRENCY}, at most ${MAX_ANALYSIS_CONCURRENCY} chunks analysed at once)`
+          }
+        },
+        progress: 'GET /api/analyze/jobs/<jobId> (per-chunk status and the components analysed so far)',
+        cancel: 'POST /api/analyze/jobs/<jobId>/cancel',
+        retry: 'POST /api/analyze/jobs/<jobId>/retry with { chunkIds?: string[] } (default: every failed or cancelled chunk)'
+      },
+      jobs
+    });
+  } catch (error) {
+    console.error('Analysis job listing error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to list analysis jobs'
+    }, { status: 500 });
+  }
+}
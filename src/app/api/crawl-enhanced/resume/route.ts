@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { resumeCrawl, summarizeCrawl } from '../../../../lib/crawler';
+import { isValidCrawlId, listCheckpoints, loadCheckpoint } from '../../../../lib/crawlCheckpoint';
+import { loadDesignTokens } from '../../../../lib/designTokens';
+import { AuthFailedError } from '../../../../lib/crawlAuth';
+
+export async function POST(request: Request) {
+  try {
+    const { crawlId } = await request.json();
+
+    if (!isValidCrawlId(crawlId)) {
+      return NextResponse.json({ 
+        error: 'A valid crawlId is required' 
+      }, { status: 400 });
+    }
+
+    const checkpoint = await loadCheckpoint(crawlId);
+    if (!checkpoint) {
+      return NextResponse.json({ 
+        error: `No checkpoint found for crawl ${crawlId}` 
+      }, { status: 404 });
+    }
+
+    console.log(`Resuming crawl ${crawlId} of: ${checkpoint.url}`);
+
+    const pages = await resumeCrawl(
+      crawlId,
+      (progress) => {
+        console.log(`Progress: ${progress.pagesProcessed}/${progress.totalPages} - ${progress.currentPage}`);
+      },
+      request.signal
+    );
+
+    console.log(`Resumed crawl finished. Extracted ${pages.length} pages.`);
+
+    return NextResponse.json({
+      success: true,
+      crawlId,
+      pages,
+      options: checkpoint.options,
+      summary: summarizeCrawl(pages),
+      designTokens: pages.some(page => page.styles) ? await loadDesignTokens(checkpoint.url) : null
+    });
+  } catch (error) {
+    console.error('Resume crawl error:', error);
+
+    if (error instanceof AuthFailedError) {
+      return NextResponse.json({ 
+        error: error.message,
+        code: error.code
+      }, { status: 401 });
+    }
+
+    return NextResponse.json({ 
+      error: error instanceof Error ? error.message : 'Resuming crawl failed',
+      details: error instanceof Error ? error.stack : undefined
+    }, { status: 500 });
+  }
+}
+
+export async function GET() {
+  try {
+    const checkpoints = await listCheckpoints();
+
+    return NextResponse.json({
+      message: 'Resume Crawl API',
+      description: 'Continue an aborted or failed crawl from its last checkpoint',
+      usage: {
+        method: 'POST',
+        body: {
+          crawlId: 'string (returned by /api/crawl-enhanced)'
+        }
+      },
+      checkpoints
+    });
+  } catch (error) {
+    console.error('Checkpoint listing error:', error);
+    return NextResponse.json({ 
+      error: error instanceof Error ? error.message : 'Failed to list checkpoints' 
+    }, { status: 500 });
+  }
+}
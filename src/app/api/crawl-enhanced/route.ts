@@ -1,18 +1,32 @@
 import { NextResponse } from 'next/server';
-import { crawlDesignSystem } from '../../../lib/crawler';
+import { crawlDesignSystem, summarizeCrawl } from '../../../lib/crawler';
+import { validateCrawlOptions } from '../../../lib/crawlOptions';
+import { createCrawlId } from '../../../lib/crawlCheckpoint';
+import { loadDesignTokens } from '../../../lib/designTokens';
+import { AuthFailedError } from '../../../lib/crawlAuth';
 import { ExtractedPageContent } from '../../../types/types';
 
 export async function POST(request: Request) {
+  const crawlId = createCrawlId();
+
   try {
-    const { url } = await request.json();
+    const { url, options: rawOptions } = await request.json();
     
     if (!url) {
       return NextResponse.json({ 
         error: 'URL is required' 
       }, { status: 400 });
     }
+
+    const { options, errors: optionErrors } = validateCrawlOptions(rawOptions);
+    if (optionErrors.length > 0) {
+      return NextResponse.json({ 
+        error: 'Invalid crawl options',
+        details: optionErrors
+      }, { status: 400 });
+    }
     
-    console.log(`Starting enhanced crawl of: ${url}`);
+    console.log(`Starting enhanced crawl ${crawlId} of: ${url}`);
     
     const pages: ExtractedPageContent[] = [];
     
@@ -21,7 +35,10 @@ export async function POST(request: Request) {
       url,
       (progress) => {
         console.log(`Progress: ${progress.pagesProcessed}/${progress.totalPages} - ${progress.currentPage}`);
-      }
+      },
+      request.signal,
+      options,
+      crawlId
     );
     
     pages.push(...extractedPages);
@@ -31,29 +48,26 @@ export async function POST(request: Request) {
     // Return comprehensive data in unified format
     return NextResponse.json({ 
       success: true, 
+      crawlId,
       pages,
-      summary: {
-        totalPages: pages.length,
-        totalCodeSamples: pages.reduce((sum, page) => sum + page.codeSamples.length, 0),
-        totalTextContent: pages.reduce((sum, page) => sum + page.textContent.length, 0),
-        languagesDetected: [...new Set(
-          pages.flatMap(page => 
-            page.codeSamples
-              .map(sample => sample.language || sample.detectedLanguage)
-              .filter(Boolean)
-          )
-        )],
-        crawledUrls: pages.map(page => page.url),
-        errors: pages.filter(page => page.errors && page.errors.length > 0).map(page => ({
-          url: page.url,
-          errors: page.errors
-        }))
-      }
+      options,
+      summary: summarizeCrawl(pages),
+      designTokens: pages.some(page => page.styles) ? await loadDesignTokens(url) : null
     });
   } catch (error) {
     console.error('Enhanced crawl error:', error);
+
+    if (error instanceof AuthFailedError) {
+      return NextResponse.json({ 
+        error: error.message,
+        code: error.code,
+        crawlId
+      }, { status: 401 });
+    }
+
     return NextResponse.json({ 
       error: error instanceof Error ? error.message : 'Enhanced crawl failed',
+      crawlId,
       details: error instanceof Error ? error.stack : undefined
     }, { status: 500 });
   }
@@ -65,7 +79,23 @@ export async function GET() {
     description: 'Renders pages in headless browser and extracts semantic content, metadata, and code samples',
     features: [
       'Headless browser rendering with Puppeteer',
+      'Concurrent rendering with a page pool and per-host rate limiting',
+      'Breadth-first link discovery with depth limits',
+      'robots.txt compliance and sitemap.xml seeding',
+      'Checkpointed progress, resumable via /api/crawl-enhanced/resume',
+      'Incremental re-crawls that skip unchanged pages',
+      'SPA mode for client-side routed sites (hash and History API routes, click-driven navigation)',
+      'Authenticated crawling with per-source credentials stored via /api/credentials',
+      'Design token harvesting (colours, type scale, spacing, radii, shadows), see /api/design-tokens',
+      'Page and example screenshots, served from /api/screenshots',
+      'Storybook extraction from index.json/stories.json with argTypes and story sources',
+      'Local source repositories (file:// URLs): TSX/JSX, Vue SFC and .d.ts components parsed with the TypeScript compiler API',
+      'Markdown/MDX docs from local directories or zip/tar archives: frontmatter, fenced code, JSX blocks and prop tables without a browser',
+      'Offline crawls replayed from a recorded crawl, a WARC file or a directory of saved HTML, with WARC recording of live crawls',
       'Semantic content extraction (headings, paragraphs, lists, etc.)',
+      'Shadow DOM aware extraction, recording custom element attributes, properties and slots',
+      'Iframe traversal for embedded examples, with merged items tagged by frame URL',
+      'Prop table extraction into typed prop candidates with their table location',
       'Metadata extraction (title, description, Open Graph, JSON-LD)',
       'Code sample detection with language identification',
       'ARIA labels and accessibility content',
@@ -75,7 +105,29 @@ export async function GET() {
       method: 'POST',
       body: {
         sourceId: 'string',
-        url: 'string (URL to crawl)'
+        url: 'string (URL to crawl, or a file:// URL of a local checkout or docs archive; only under SOURCE_REPO_ROOTS)',
+        options: {
+          rateLimitMs: 'number (default: 1000, minimum delay between requests to one host)',
+          maxRetries: 'number (default: 3)',
+          maxPages: 'number (default: 50)',
+          maxDepth: 'number (default: 3, link depth from the entry page)',
+          concurrency: 'number (default: 3, pages rendered in parallel)',
+          viewport: '{ width: number, height: number } (default: 1200x800)',
+          timeoutMs: 'number (default: 30000, navigation timeout)',
+          waitUntil: 'load | domcontentloaded | networkidle0 | networkidle2 (default: networkidle0)',
+          urlRules: '{ include: UrlRule[], exclude: UrlRule[] } (glob or regex, preview with /api/crawl-preview)',
+          userAgent: 'string (default: DesignSystemAnalyzer/1.0, used for robots.txt matching and requests)',
+          respectRobotsTxt: 'boolean (default: true, honours Disallow and Crawl-delay)',
+          useSitemap: 'boolean (default: true, seeds the frontier from sitemap.xml)',
+          extractionMode: 'auto | dom | storybook (default: auto, uses the Storybook adapter when a story index is found)',
+          collectDesignTokens: 'boolean (default: true, samples CSS custom properties and computed styles)',
+          captureScreenshots: 'boolean (default: false, screenshots each page and its example regions)',
+          incremental: 'boolean (default: true, reuses pages unchanged since the last crawl via ETag, Last-Modified or content hash)',
+          allowedFrameOrigins: 'string[] (default: [], cross-origin iframe origins to extract; same-origin iframes always are)',
+          spaMode: 'boolean (default: false, follows hash/History API routes, waits for the DOM to settle instead of waitUntil, drops routes rendering duplicate content)',
+          recordArchive: 'boolean (default: false, saves every response to .crawl-data/archives/<crawlId>.warc)',
+          replayArchive: 'string | null (default: null, crawl id of a recorded crawl, or a local .warc/.warc.gz file or saved HTML directory, only under SOURCE_REPO_ROOTS; disables robots.txt, sitemaps, Storybook detection and incremental re-crawls)'
+        }
       }
     }
   });
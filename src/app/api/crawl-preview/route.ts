@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { previewCrawl } from '../../../lib/crawler';
+import { validateCrawlOptions } from '../../../lib/crawlOptions';
+import { AuthFailedError } from '../../../lib/crawlAuth';
+
+export async function POST(request: Request) {
+  try {
+    const { url, options: rawOptions } = await request.json();
+
+    if (!url) {
+      return NextResponse.json({ 
+        error: 'URL is required' 
+      }, { status: 400 });
+    }
+
+    const { options, errors: optionErrors } = validateCrawlOptions(rawOptions);
+    if (optionErrors.length > 0) {
+      return NextResponse.json({ 
+        error: 'Invalid crawl options',
+        details: optionErrors
+      }, { status: 400 });
+    }
+
+    console.log(`Previewing crawl rules for: ${url}`);
+
+    const preview = await previewCrawl(url, options);
+
+    return NextResponse.json({
+      success: true,
+      preview,
+      summary: {
+        discovered: preview.included.length + preview.excluded.length,
+        included: preview.included.length,
+        excluded: preview.excluded.length
+      }
+    });
+  } catch (error) {
+    console.error('Crawl preview error:', error);
+
+    if (error instanceof AuthFailedError) {
+      return NextResponse.json({ 
+        error: error.message,
+        code: error.code
+      }, { status: 401 });
+    }
+
+    return NextResponse.json({ 
+      error: error instanceof Error ? error.message : 'Crawl preview failed',
+      details: error instanceof Error ? error.stack : undefined
+    }, { status: 500 });
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Crawl Rules Preview API',
+    description: 'Dry run: renders the entry page and reports which discovered links the include/exclude rules would crawl',
+    usage: {
+      method: 'POST',
+      body: {
+        url: 'string (entry URL)',
+        options: {
+          urlRules: {
+            include: '{ pattern: string, kind: "glob" | "regex" }[] (empty = include everything)',
+            exclude: '{ pattern: string, kind: "glob" | "regex" }[]'
+          }
+        }
+      }
+    },
+    examples: {
+      storybook: {
+        url: 'https://storybook.example.com/',
+        options: {
+          urlRules: {
+            include: [{ pattern: '/?path=/story/**', kind: 'glob' }],
+            exclude: [{ pattern: '--playground', kind: 'regex' }]
+          }
+        }
+      }
+    }
+  });
+}
@@ -0,0 +1,100 @@
+import { NextResponse } from 'next/server';
+import {
+  deleteCredentials,
+  listCredentials,
+  saveCredentials,
+  validateCredentials
+} from '../../../lib/crawlAuth';
+
+export async function POST(request: Request) {
+  try {
+    const { urlPrefix, credentials: rawCredentials } = await request.json();
+
+    try {
+      const parsed = new URL(urlPrefix);
+      if (!['http:', 'https:'].includes(parsed.protocol)) throw new Error('Unsupported protocol');
+    } catch {
+      return NextResponse.json({
+        error: 'urlPrefix must be an http(s) URL'
+      }, { status: 400 });
+    }
+
+    const { credentials, errors } = validateCredentials(rawCredentials);
+    if (errors.length > 0) {
+      return NextResponse.json({
+        error: 'Invalid credentials',
+        details: errors
+      }, { status: 400 });
+    }
+
+    // Only the summary goes back; secrets never leave the server
+    const summary = await saveCredentials(urlPrefix, credentials);
+    return NextResponse.json({ success: true, credentials: summary });
+  } catch (error) {
+    console.error('Credentials save error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to save credentials'
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request) {
+  try {
+    const id = new URL(request.url).searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({
+        error: 'id is required'
+      }, { status: 400 });
+    }
+
+    if (!await deleteCredentials(id)) {
+      return NextResponse.json({
+        error: `No credentials with id ${id}`
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Credentials delete error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to delete credentials'
+    }, { status: 500 });
+  }
+}
+
+export async function GET() {
+  try {
+    const credentials = await listCredentials();
+
+    return NextResponse.json({
+      message: 'Crawl Credentials API',
+      description: 'Server-side credentials for crawling private documentation sites, matched to crawls by URL prefix. Secrets are never returned.',
+      usage: {
+        save: {
+          method: 'POST',
+          body: {
+            urlPrefix: 'string (credentials apply to every crawled URL starting with it)',
+            credentials: {
+              cookies: '{ name, value, domain?, path?, secure?, httpOnly? }[]',
+              headers: 'Record<string, string> (only sent to the site\'s own origin)',
+              basicAuth: '{ username, password }',
+              login: '{ url, steps: { action: goto | type | click | waitForSelector | waitForNavigation, selector?, value?, url? }[], successSelector? }',
+              loginWallSelector: 'string (CSS selector present on the site\'s login page)'
+            }
+          }
+        },
+        delete: {
+          method: 'DELETE',
+          query: { id: 'string (from the list below)' }
+        }
+      },
+      encrypted: Boolean(process.env.CRAWL_CREDENTIALS_KEY),
+      credentials
+    });
+  } catch (error) {
+    console.error('Credentials listing error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to list credentials'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import {
+  TOKEN_CATEGORIES,
+  compareDesignTokens,
+  listDesignTokenSets,
+  loadDesignTokens
+} from '../../../lib/designTokens';
+import { DesignTokenSet } from '../../../types/types';
+
+/**
+ * Without `url`: lists every source with stored tokens.
+ * With one `url`: returns that source's token set.
+ * With several `url` parameters: returns their sets and a comparison.
+ */
+export async function GET(request: Request) {
+  try {
+    const urls = new URL(request.url).searchParams.getAll('url');
+
+    if (urls.length === 0) {
+      const sets = await listDesignTokenSets();
+
+      return NextResponse.json({
+        message: 'Design Tokens API',
+        description: 'Design tokens harvested from crawled pages, one set per source',
+        usage: {
+          method: 'GET',
+          query: {
+            url: 'source URL; repeat to compare several sources'
+          }
+        },
+        sources: sets.map(set => ({
+          sourceUrl: set.sourceUrl,
+          generatedAt: set.generatedAt,
+          pageCount: set.pageCount,
+          tokenCounts: Object.fromEntries(TOKEN_CATEGORIES.map(category => [category, set.tokens[category].length])),
+          variableCount: set.variables.length
+        }))
+      });
+    }
+
+    const invalidUrls = urls.filter(url => {
+      try {
+        new URL(url);
+        return false;
+      } catch {
+        return true;
+      }
+    });
+    if (invalidUrls.length > 0) {
+      return NextResponse.json({
+        error: 'Invalid source URL',
+        details: invalidUrls
+      }, { status: 400 });
+    }
+
+    const sets = await Promise.all(urls.map(url => loadDesignTokens(url)));
+    const missing = urls.filter((_, index) => !sets[index]);
+    if (missing.length > 0) {
+      return NextResponse.json({
+        error: 'No design tokens stored for some sources; crawl them with collectDesignTokens enabled',
+        details: missing
+      }, { status: 404 });
+    }
+
+    const found = sets as DesignTokenSet[];
+
+    if (found.length === 1) {
+      return NextResponse.json({ success: true, tokens: found[0] });
+    }
+
+    return NextResponse.json({
+      success: true,
+      sets: found,
+      comparison: compareDesignTokens(found)
+    });
+  } catch (error) {
+    console.error('Design tokens error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to load design tokens'
+    }, { status: 500 });
+  }
+}
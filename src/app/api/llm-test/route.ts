@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { LlmProviderError, createLlmProvider } from '../../../lib/llmProviders';
+
+/**
+ * Check that the configured LLM provider is reachable and can generate text
+ */
+export async function GET() {
+  try {
+    const provider = createLlmProvider();
+    console.log(`Testing ${provider.name} connection at ${provider.baseUrl}...`);
+    
+    // First, test if the server is accessible
+    let models: string[];
+    try {
+      models = await provider.listModels();
+    } catch (error) {
+      return NextResponse.json({ 
+        error: `${provider.name} not accessible`,
+        provider: provider.name,
+        baseUrl: provider.baseUrl,
+        status: error instanceof LlmProviderError ? error.status : undefined,
+        details: error instanceof Error ? error.message : String(error)
+      }, { status: 500 });
+    }
+    console.log('Available models:', models);
+    
+    // Test a simple generation
+    let testResponse: string;
+    try {
+      testResponse = await provider.generate('Say hello in exactly 3 words.', { timeoutMs: 10000 });
+    } catch (error) {
+      return NextResponse.json({ 
+        error: 'Generate request failed',
+        provider: provider.name,
+        model: provider.model,
+        status: error instanceof LlmProviderError ? error.status : undefined,
+        details: error instanceof Error ? error.message : String(error),
+        models
+      }, { status: 500 });
+    }
+    console.log('Generation result:', testResponse);
+    
+    return NextResponse.json({ 
+      success: true, 
+      provider: provider.name,
+      baseUrl: provider.baseUrl,
+      model: provider.model,
+      models,
+      testResponse,
+      message: `${provider.name} is working correctly`
+    });
+    
+  } catch (error) {
+    console.error('LLM provider test error:', error);
+    return NextResponse.json({ 
+      error: error instanceof Error ? error.message : 'Unknown error',
+      type: error instanceof Error ? error.constructor.name : 'Unknown'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { isValidScreenshotName, readScreenshot } from '../../../../lib/screenshots';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const { name } = await params;
+
+    if (!isValidScreenshotName(name)) {
+      return NextResponse.json({ 
+        error: 'Invalid screenshot name' 
+      }, { status: 400 });
+    }
+
+    const image = await readScreenshot(name);
+    if (!image) {
+      return NextResponse.json({ 
+        error: `Screenshot ${name} not found` 
+      }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(image), {
+      headers: {
+        'Content-Type': 'image/png',
+        // File names are unique per capture, so the content never changes
+        'Cache-Control': 'public, max-age=31536000, immutable'
+      }
+    });
+  } catch (error) {
+    console.error('Screenshot error:', error);
+    return NextResponse.json({ 
+      error: error instanceof Error ? error.message : 'Failed to read screenshot' 
+    }, { status: 500 });
+  }
+}
@@ -1,31 +1,24 @@
 import { NextResponse } from 'next/server';
+import { createLlmProvider, getLlmProviderConfig } from '../../../lib/llmProviders';
 
 export async function GET() {
   return NextResponse.json({ 
     status: 'ok', 
     timestamp: new Date().toISOString(),
-    ollama: 'connected'
+    llmProvider: getLlmProviderConfig().provider
   });
 }
 
 export async function POST() {
   try {
-    // Quick test of Ollama
-    const response = await fetch('http://localhost:11434/api/generate', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        model: 'llama3:latest',
-        prompt: 'Say "test successful"',
-        stream: false
-      })
-    });
-    
-    const result = await response.json();
+    // Quick test of the configured model
+    const provider = createLlmProvider();
+    const result = await provider.generate('Say "test successful"');
     
     return NextResponse.json({ 
       status: 'success',
-      ollama_response: result.response,
+      provider: provider.name,
+      llm_response: result,
       timestamp: new Date().toISOString()
     });
   } catch (error) {
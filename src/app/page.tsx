@@ -6,7 +6,7 @@ import { ComponentViewer } from "../components/ComponentViewer";
 import DataManager from "../components/DataManager";
 import ExportManager from "../components/ExportManager";
 import { useState, useEffect } from "react";
-import { ExtractedPageContent } from "../types/types";
+import { ExtractedPageContent, UrlRuleSet } from "../types/types";
 import { autoSaveManager } from "../lib/dataIntegration";
 import { useAppDispatch } from "../store/hooks";
 import { addSource } from "../store/designSystemSlice";
@@ -34,8 +34,8 @@ export default function Home() {
   }, [extractedPages]);
 
   // Handle new URL addition to Redux store
-  const handleNewUrl = (url: string, name: string) => {
-    dispatch(addSource({ url, name }));
+  const handleNewUrl = (url: string, name: string, urlRules?: UrlRuleSet, failure?: { status: 'auth-failed'; error: string }) => {
+    dispatch(addSource({ url, name, urlRules, ...failure }));
   };
 
   return (
@@ -2,6 +2,7 @@ import { FC, memo } from 'react';
 import {
   TableCellsIcon,
   CodeBracketIcon,
+  PhotoIcon,
   LinkIcon,
   InformationCircleIcon
 } from '@heroicons/react/24/outline';
@@ -33,6 +34,24 @@ const ComponentViewerComponent: FC = () => {
           </p>
         </div>
         
+        {/* Screenshot Section */}
+        {typeof selectedComponent.metadata.screenshot === 'string' && (
+          <div className="mb-8">
+            <div className="flex items-center mb-4">
+              <PhotoIcon className="w-5 h-5 text-indigo-500 mr-2" />
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Preview</h3>
+            </div>
+            <a href={selectedComponent.metadata.screenshot} target="_blank" rel="noreferrer">
+              {/* eslint-disable-next-line @next/next/no-img-element -- screenshots are served as-is by our API */}
+              <img
+                src={selectedComponent.metadata.screenshot}
+                alt={`${selectedComponent.name} preview`}
+                className="max-w-full h-auto border border-gray-200 dark:border-gray-700 rounded-lg bg-white"
+              />
+            </a>
+          </div>
+        )}
+        
         {/* Props Section */}
         <div className="mb-8">
           <div className="flex items-center mb-4">
@@ -7,17 +7,21 @@
 
 import React, { useState } from 'react';
 import { ExtractedPageContent } from '../types/types';
+import { CrawlOptionsInput } from '../lib/crawlOptions';
+import { ApiError } from '../lib/api';
 
 interface CrawlerButtonProps {
   url: string;
+  options?: CrawlOptionsInput;
   onPagesExtracted: (pages: ExtractedPageContent[]) => void;
-  onError?: (error: string) => void;
+  onError?: (error: string, code?: string) => void; // code is e.g. 'auth-failed'
   disabled?: boolean;
   className?: string;
 }
 
 export const CrawlerButton: React.FC<CrawlerButtonProps> = ({
   url,
+  options,
   onPagesExtracted,
   onError,
   disabled = false,
@@ -25,29 +29,35 @@ export const CrawlerButton: React.FC<CrawlerButtonProps> = ({
 }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [progress, setProgress] = useState<string>('');
+  // Set when a crawl fails part-way, so it can be continued from its checkpoint
+  const [resumableCrawlId, setResumableCrawlId] = useState<string | null>(null);
 
-  const handleCrawl = async () => {
-    if (!url || isLoading) return;
-
+  const runCrawl = async (endpoint: string, body: Record<string, unknown>, startMessage: string) => {
     setIsLoading(true);
-    setProgress('Starting crawl...');
+    setProgress(startMessage);
 
     try {
-      const response = await fetch('/api/crawl-enhanced', {
+      const response = await fetch(endpoint, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ url })
+        body: JSON.stringify(body)
       });
 
+      const data = await response.json();
+
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        setResumableCrawlId(typeof data.crawlId === 'string' ? data.crawlId : null);
+        const details = Array.isArray(data.details) ? `: ${data.details.join('; ')}` : '';
+        if (data.code === 'auth-failed') {
+          throw new ApiError(`${data.error} (update the site's credentials via /api/credentials, then resume)`, response.status, data.code);
+        }
+        throw new ApiError(data.error ? `${data.error}${details}` : `HTTP error! status: ${response.status}`, response.status, data.code);
       }
 
-      const data = await response.json();
-
       if (data.success && data.pages) {
+        setResumableCrawlId(null);
         setProgress(`Extracted ${data.pages.length} pages`);
         onPagesExtracted(data.pages);
         
@@ -62,7 +72,7 @@ export const CrawlerButton: React.FC<CrawlerButtonProps> = ({
       setProgress(`Error: ${errorMessage}`);
       
       if (onError) {
-        onError(errorMessage);
+        onError(errorMessage, error instanceof ApiError ? error.code : undefined);
       }
       
       setTimeout(() => {
@@ -73,6 +83,16 @@ export const CrawlerButton: React.FC<CrawlerButtonProps> = ({
     }
   };
 
+  const handleCrawl = async () => {
+    if (!url || isLoading) return;
+    await runCrawl('/api/crawl-enhanced', { url, options }, 'Starting crawl...');
+  };
+
+  const handleResume = async () => {
+    if (!resumableCrawlId || isLoading) return;
+    await runCrawl('/api/crawl-enhanced/resume', { crawlId: resumableCrawlId }, 'Resuming crawl...');
+  };
+
   return (
     <div className="space-y-2">
       <button
@@ -82,6 +102,15 @@ export const CrawlerButton: React.FC<CrawlerButtonProps> = ({
       >
         {isLoading ? 'Crawling...' : 'Extract Data'}
       </button>
+
+      {resumableCrawlId && !isLoading && (
+        <button
+          onClick={handleResume}
+          className="w-full px-4 py-2 text-sm font-medium text-green-700 bg-white border border-green-600 rounded-md hover:bg-green-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+        >
+          Resume crawl from checkpoint
+        </button>
+      )}
       
       {progress && (
         <div className="text-xs text-gray-600 p-2 bg-gray-50 rounded border">
@@ -5,12 +5,18 @@
  */
 
 import React, { FC, useState } from 'react';
-import { ExtractedPageContent } from '../types/types';
+import { CrawlExtractionMode, CrawlOptions, CrawlWaitStrategy, ExtractedPageContent, UrlRuleSet } from '../types/types';
+import { DEFAULT_CRAWL_OPTIONS, EXTRACTION_MODES, WAIT_STRATEGIES } from '../lib/crawlOptions';
+import { parseUrlRuleLines } from '../lib/urlRules';
+import type { CrawlPreview } from '../lib/crawler';
 import { CrawlerButton } from './CrawlerButton';
 
+type NumericOptionKey = 'maxPages' | 'maxDepth' | 'concurrency' | 'rateLimitMs' | 'maxRetries' | 'timeoutMs';
+
 interface EnhancedURLInputProps {
   onPagesExtracted?: (pages: ExtractedPageContent[]) => void;
-  onNewUrl?: (url: string, name: string) => void;
+  // Called after a crawl, with the failure when the crawl hit a login wall
+  onNewUrl?: (url: string, name: string, urlRules?: UrlRuleSet, failure?: { status: 'auth-failed'; error: string }) => void;
 }
 
 export const EnhancedURLInput: FC<EnhancedURLInputProps> = ({
@@ -21,6 +27,18 @@ export const EnhancedURLInput: FC<EnhancedURLInputProps> = ({
   const [inputName, setInputName] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [recentlyExtracted, setRecentlyExtracted] = useState<number>(0);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [crawlOptions, setCrawlOptions] = useState<CrawlOptions>(DEFAULT_CRAWL_OPTIONS);
+  const [includeRules, setIncludeRules] = useState('');
+  const [excludeRules, setExcludeRules] = useState('');
+  const [frameOrigins, setFrameOrigins] = useState('');
+  const [preview, setPreview] = useState<CrawlPreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  const urlRules: UrlRuleSet = {
+    include: parseUrlRuleLines(includeRules),
+    exclude: parseUrlRuleLines(excludeRules)
+  };
 
   const isValidUrl = (url: string) => {
     try {
@@ -39,7 +57,8 @@ export const EnhancedURLInput: FC<EnhancedURLInputProps> = ({
     if (value && !inputName) {
       try {
         const url = new URL(value);
-        setInputName(url.hostname);
+        // Local checkouts are named after their directory
+        setInputName(url.protocol === 'file:' ? url.pathname.split('/').filter(Boolean).pop() || '' : url.hostname);
       } catch {
         // Invalid URL, ignore
       }
@@ -51,7 +70,7 @@ export const EnhancedURLInput: FC<EnhancedURLInputProps> = ({
     
     // Also add to sources if callback provided
     if (onNewUrl && inputUrl && inputName) {
-      onNewUrl(inputUrl, inputName);
+      onNewUrl(inputUrl, inputName, urlRules);
     }
     
     // Pass pages to parent
@@ -67,10 +86,61 @@ export const EnhancedURLInput: FC<EnhancedURLInputProps> = ({
     }, 3000);
   };
 
-  const handleCrawlError = (errorMessage: string) => {
+  const handleCrawlError = (errorMessage: string, code?: string) => {
     setError(errorMessage);
+
+    // The source is kept, marked as needing credentials
+    if (code === 'auth-failed' && onNewUrl && inputUrl && inputName) {
+      onNewUrl(inputUrl, inputName, urlRules, { status: 'auth-failed', error: errorMessage });
+    }
+  };
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    setError(null);
+    setPreview(null);
+
+    try {
+      const response = await fetch('/api/crawl-preview', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ url: inputUrl, options: { urlRules } })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        const details = Array.isArray(data.details) ? `: ${data.details.join('; ')}` : '';
+        throw new Error(`${data.error || 'Preview failed'}${details}`);
+      }
+
+      setPreview(data.preview);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Preview failed');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const updateNumericOption = (key: NumericOptionKey, value: string) => {
+    setCrawlOptions(prev => ({ ...prev, [key]: Number(value) }));
+  };
+
+  const updateViewport = (key: 'width' | 'height', value: string) => {
+    setCrawlOptions(prev => ({ ...prev, viewport: { ...prev.viewport, [key]: Number(value) } }));
   };
 
+  const numericFields: Array<{ key: NumericOptionKey; label: string }> = [
+    { key: 'maxPages', label: 'Max pages' },
+    { key: 'maxDepth', label: 'Max link depth' },
+    { key: 'concurrency', label: 'Parallel pages' },
+    { key: 'rateLimitMs', label: 'Delay per host (ms)' },
+    { key: 'maxRetries', label: 'Max retries' },
+    { key: 'timeoutMs', label: 'Page timeout (ms)' }
+  ];
+
   return (
     <div className="flex flex-col space-y-4 p-4 bg-white dark:bg-gray-800 rounded-lg shadow">
       <div className="border-b pb-3">
@@ -78,7 +148,7 @@ export const EnhancedURLInput: FC<EnhancedURLInputProps> = ({
           Add Design System
         </h2>
         <p className="text-sm text-gray-600 dark:text-gray-400">
-          Enter a URL to crawl and extract component data
+          Enter a URL to crawl and extract component data, or a file:// URL of a local source checkout or docs archive
         </p>
       </div>
 
@@ -110,6 +180,225 @@ export const EnhancedURLInput: FC<EnhancedURLInputProps> = ({
         />
       </div>
 
+      <div className="flex flex-col space-y-2">
+        <button
+          type="button"
+          onClick={() => setShowAdvanced(!showAdvanced)}
+          className="self-start text-sm text-blue-600 hover:text-blue-800"
+        >
+          {showAdvanced ? 'Hide crawl options' : 'Show crawl options'}
+        </button>
+
+        {showAdvanced && (
+          <div className="grid grid-cols-2 gap-3 p-3 border rounded-md">
+            {numericFields.map(field => (
+              <label key={field.key} className="flex flex-col text-xs text-gray-600 dark:text-gray-300">
+                {field.label}
+                <input
+                  type="number"
+                  min={0}
+                  value={crawlOptions[field.key]}
+                  onChange={(e) => updateNumericOption(field.key, e.target.value)}
+                  className="mt-1 px-2 py-1 border rounded-md text-sm"
+                />
+              </label>
+            ))}
+            <label className="flex flex-col text-xs text-gray-600 dark:text-gray-300">
+              Viewport width
+              <input
+                type="number"
+                value={crawlOptions.viewport.width}
+                onChange={(e) => updateViewport('width', e.target.value)}
+                className="mt-1 px-2 py-1 border rounded-md text-sm"
+              />
+            </label>
+            <label className="flex flex-col text-xs text-gray-600 dark:text-gray-300">
+              Viewport height
+              <input
+                type="number"
+                value={crawlOptions.viewport.height}
+                onChange={(e) => updateViewport('height', e.target.value)}
+                className="mt-1 px-2 py-1 border rounded-md text-sm"
+              />
+            </label>
+            <label className="col-span-2 flex flex-col text-xs text-gray-600 dark:text-gray-300">
+              Wait strategy
+              <select
+                value={crawlOptions.waitUntil}
+                onChange={(e) => setCrawlOptions(prev => ({ ...prev, waitUntil: e.target.value as CrawlWaitStrategy }))}
+                className="mt-1 px-2 py-1 border rounded-md text-sm"
+              >
+                {WAIT_STRATEGIES.map(strategy => (
+                  <option key={strategy} value={strategy}>{strategy}</option>
+                ))}
+              </select>
+            </label>
+            <label className="col-span-2 flex flex-col text-xs text-gray-600 dark:text-gray-300">
+              Extraction mode
+              <select
+                value={crawlOptions.extractionMode}
+                onChange={(e) => setCrawlOptions(prev => ({ ...prev, extractionMode: e.target.value as CrawlExtractionMode }))}
+                className="mt-1 px-2 py-1 border rounded-md text-sm"
+              >
+                {EXTRACTION_MODES.map(mode => (
+                  <option key={mode} value={mode}>
+                    {mode === 'auto' ? 'auto (detect Storybook)' : mode}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="col-span-2 flex flex-col text-xs text-gray-600 dark:text-gray-300">
+              User agent
+              <input
+                type="text"
+                value={crawlOptions.userAgent}
+                onChange={(e) => setCrawlOptions(prev => ({ ...prev, userAgent: e.target.value }))}
+                className="mt-1 px-2 py-1 border rounded-md text-sm"
+              />
+            </label>
+            <label className="flex items-center text-xs text-gray-600 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={crawlOptions.respectRobotsTxt}
+                onChange={(e) => setCrawlOptions(prev => ({ ...prev, respectRobotsTxt: e.target.checked }))}
+                className="mr-2"
+              />
+              Respect robots.txt
+            </label>
+            <label className="flex items-center text-xs text-gray-600 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={crawlOptions.useSitemap}
+                onChange={(e) => setCrawlOptions(prev => ({ ...prev, useSitemap: e.target.checked }))}
+                className="mr-2"
+              />
+              Seed from sitemap.xml
+            </label>
+            <label className="flex items-center text-xs text-gray-600 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={crawlOptions.incremental}
+                onChange={(e) => setCrawlOptions(prev => ({ ...prev, incremental: e.target.checked }))}
+                className="mr-2"
+              />
+              Skip unchanged pages
+            </label>
+            <label className="flex items-center text-xs text-gray-600 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={crawlOptions.captureScreenshots}
+                onChange={(e) => setCrawlOptions(prev => ({ ...prev, captureScreenshots: e.target.checked }))}
+                className="mr-2"
+              />
+              Capture screenshots
+            </label>
+            <label className="flex items-center text-xs text-gray-600 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={crawlOptions.collectDesignTokens}
+                onChange={(e) => setCrawlOptions(prev => ({ ...prev, collectDesignTokens: e.target.checked }))}
+                className="mr-2"
+              />
+              Collect design tokens
+            </label>
+            <label className="flex items-center text-xs text-gray-600 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={crawlOptions.spaMode}
+                onChange={(e) => setCrawlOptions(prev => ({ ...prev, spaMode: e.target.checked }))}
+                className="mr-2"
+              />
+              Single-page app (client-side routes)
+            </label>
+            <label className="flex items-center text-xs text-gray-600 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={crawlOptions.recordArchive}
+                disabled={Boolean(crawlOptions.replayArchive)}
+                onChange={(e) => setCrawlOptions(prev => ({ ...prev, recordArchive: e.target.checked }))}
+                className="mr-2"
+              />
+              Record a WARC archive
+            </label>
+            <label className="col-span-2 flex flex-col text-xs text-gray-600 dark:text-gray-300">
+              Replay from archive (crawl id, .warc file or saved HTML directory)
+              <input
+                type="text"
+                value={crawlOptions.replayArchive ?? ''}
+                onChange={(e) => setCrawlOptions(prev => ({
+                  ...prev,
+                  replayArchive: e.target.value.trim() || null,
+                  recordArchive: e.target.value.trim() ? false : prev.recordArchive
+                }))}
+                placeholder="crawl-1700000000000-abc123"
+                className="mt-1 px-2 py-1 border rounded-md text-sm font-mono"
+              />
+            </label>
+            <label className="flex flex-col text-xs text-gray-600 dark:text-gray-300">
+              Include URLs (one per line)
+              <textarea
+                value={includeRules}
+                onChange={(e) => setIncludeRules(e.target.value)}
+                placeholder={'/docs/**\n/?path=/story/**'}
+                rows={3}
+                className="mt-1 px-2 py-1 border rounded-md text-sm font-mono"
+              />
+            </label>
+            <label className="flex flex-col text-xs text-gray-600 dark:text-gray-300">
+              Exclude URLs (one per line)
+              <textarea
+                value={excludeRules}
+                onChange={(e) => setExcludeRules(e.target.value)}
+                placeholder={'/blog/**\nre:/v\\d+/'}
+                rows={3}
+                className="mt-1 px-2 py-1 border rounded-md text-sm font-mono"
+              />
+            </label>
+            <p className="col-span-2 text-xs text-gray-500">
+              Globs match the path and query: * stays within a segment, ** spans segments. Prefix a line with re: for a regular expression.
+            </p>
+            <label className="col-span-2 flex flex-col text-xs text-gray-600 dark:text-gray-300">
+              Cross-origin iframes to extract (one origin per line)
+              <textarea
+                value={frameOrigins}
+                onChange={(e) => setFrameOrigins(e.target.value)}
+                placeholder={'https://codesandbox.io'}
+                rows={2}
+                className="mt-1 px-2 py-1 border rounded-md text-sm font-mono"
+              />
+            </label>
+            <button
+              type="button"
+              onClick={handlePreview}
+              disabled={!isValidUrl(inputUrl) || isPreviewing}
+              className="col-span-2 justify-self-start px-3 py-1 text-xs border rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              {isPreviewing ? 'Previewing...' : 'Preview matching URLs'}
+            </button>
+            {preview && (
+              <div className="col-span-2 max-h-48 overflow-auto text-xs border rounded-md p-2 space-y-1">
+                <p className="font-medium text-gray-700 dark:text-gray-200">
+                  {preview.included.length} included, {preview.excluded.length} excluded
+                </p>
+                {preview.included.map(link => (
+                  <p key={link} className="text-green-700 truncate">✓ {link}</p>
+                ))}
+                {preview.excluded.map(({ url, reason }) => (
+                  <p key={url} className="text-gray-500 truncate" title={reason}>✗ {url} ({reason})</p>
+                ))}
+              </div>
+            )}
+            <button
+              type="button"
+              onClick={() => setCrawlOptions(DEFAULT_CRAWL_OPTIONS)}
+              className="col-span-2 justify-self-start text-xs text-gray-500 hover:text-gray-700"
+            >
+              Reset to defaults
+            </button>
+          </div>
+        )}
+      </div>
+
       {error && (
         <div className="p-3 bg-red-50 border border-red-200 rounded-md">
           <p className="text-red-600 text-sm">{error}</p>
@@ -126,6 +415,11 @@ export const EnhancedURLInput: FC<EnhancedURLInputProps> = ({
 
       <CrawlerButton
         url={inputUrl}
+        options={{
+          ...crawlOptions,
+          urlRules,
+          allowedFrameOrigins: frameOrigins.split('\n').map(line => line.trim()).filter(Boolean)
+        }}
         onPagesExtracted={handlePagesExtracted}
         onError={handleCrawlError}
         disabled={!isValidUrl(inputUrl)}
@@ -15,6 +15,7 @@ export default function ExportManager({ pages, onLoadPages }: ExportManagerProps
     includeCodeSamples: true,
     includeMetadata: true,
     includeSemanticContent: true,
+    includeScreenshots: true,
     minifyJson: false,
     separateCodeFiles: false,
     filename: ''
@@ -40,7 +41,7 @@ export default function ExportManager({ pages, onLoadPages }: ExportManagerProps
     setExportStatus('Preparing export...');
 
     try {
-      const result = exportPages(pages, exportOptions);
+      const result = exportPages(pages, { ...exportOptions, assetBaseUrl: window.location.origin });
       downloadExport(result);
       
       setExportStatus(
@@ -200,6 +201,21 @@ export default function ExportManager({ pages, onLoadPages }: ExportManagerProps
               />
               <span className="text-sm text-gray-700">Include Semantic Content</span>
             </label>
+
+            {exportOptions.format === 'html' && (
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={exportOptions.includeScreenshots}
+                  onChange={(e) => setExportOptions(prev => ({ 
+                    ...prev, 
+                    includeScreenshots: e.target.checked 
+                  }))}
+                  className="mr-2 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <span className="text-sm text-gray-700">Include Screenshots</span>
+              </label>
+            )}
           </div>
 
           <div className="space-y-2">
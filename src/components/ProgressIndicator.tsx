@@ -27,9 +27,22 @@ export const ProgressIndicator: FC<ProgressIndicatorProps> = ({ progress }) => {
       </div>
       
       <div className="mt-2 flex justify-between text-xs text-gray-500 dark:text-gray-400">
-        <span>{progress.pagesProcessed} pages processed</span>
+        <span>
+          {progress.pagesProcessed} pages processed
+          {progress.pagesSkipped ? ` (${progress.pagesSkipped} unchanged)` : ''}
+        </span>
         <span>{progress.componentsFound} components found</span>
       </div>
+
+      {progress.depthStats && progress.depthStats.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-3 text-xs text-gray-500 dark:text-gray-400">
+          {progress.depthStats.map(stats => (
+            <span key={stats.depth}>
+              Depth {stats.depth}: {stats.processed}/{stats.discovered}
+            </span>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
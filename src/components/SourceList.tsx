@@ -1,4 +1,4 @@
-import { FC, memo, useRef, useCallback } from 'react';
+import { FC, memo, useRef, useCallback, useState } from 'react';
 import { List, AutoSizer } from 'react-virtualized';
 import { 
   TrashIcon, 
@@ -7,7 +7,9 @@ import {
   ExclamationCircleIcon,
   ClockIcon,
   ArrowDownTrayIcon,
-  ArrowUpTrayIcon
+  ArrowUpTrayIcon,
+  LockClosedIcon,
+  FunnelIcon
 } from '@heroicons/react/24/outline';
 import { useAppDispatch, useAppSelector } from '../store/hooks';
 import { 
@@ -18,9 +20,11 @@ import {
   setSelectedSource,
   updateSourceStatus,
   updateCrawlProgress, 
+  updateSourceUrlRules,
   importSources
 } from '../store/designSystemSlice';
 import { processDesignSystem } from '../lib/api';
+import { formatUrlRuleLines, parseUrlRuleLines } from '../lib/urlRules';
 import { CrawlProgress, Component, DesignSystemSource } from '../types/types';
 
 const SourceListComponent: FC = () => {
@@ -29,6 +33,8 @@ const SourceListComponent: FC = () => {
   const selectedSourceId = useAppSelector(selectSelectedSourceId);
   const crawlProgress = useAppSelector(selectCrawlProgress);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // URL rules of one source being edited, one rule per line as in EnhancedURLInput
+  const [editingRules, setEditingRules] = useState<{ sourceId: string; include: string; exclude: string } | null>(null);
   
   const handleExport = useCallback(() => {
     const dataStr = JSON.stringify(sources, null, 2);
@@ -96,6 +102,26 @@ const SourceListComponent: FC = () => {
     }
   }, [dispatch, sources]);
   
+  const handleEditRules = useCallback((source: DesignSystemSource) => {
+    setEditingRules({
+      sourceId: source.id,
+      include: formatUrlRuleLines(source.urlRules?.include ?? []),
+      exclude: formatUrlRuleLines(source.urlRules?.exclude ?? [])
+    });
+  }, []);
+
+  const handleSaveRules = useCallback(() => {
+    if (!editingRules) return;
+    dispatch(updateSourceUrlRules({
+      id: editingRules.sourceId,
+      urlRules: {
+        include: parseUrlRuleLines(editingRules.include),
+        exclude: parseUrlRuleLines(editingRules.exclude)
+      }
+    }));
+    setEditingRules(null);
+  }, [dispatch, editingRules]);
+
   const handleRemoveSource = useCallback((id: string) => {
     dispatch(removeSource(id));
   }, [dispatch]);
@@ -110,6 +136,8 @@ const SourceListComponent: FC = () => {
         return <CheckCircleIcon className="w-5 h-5 text-green-500" />;
       case 'error':
         return <ExclamationCircleIcon className="w-5 h-5 text-red-500" />;
+      case 'auth-failed':
+        return <LockClosedIcon className="w-5 h-5 text-amber-500" />;
       case 'crawling':
       case 'analyzing':
         return <RefreshIcon className="w-5 h-5 text-blue-500 animate-spin" />;
@@ -170,6 +198,17 @@ const SourceListComponent: FC = () => {
             <RefreshIcon className="w-5 h-5 text-gray-500 dark:text-gray-400" />
           </button>
           
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              handleEditRules(source);
+            }}
+            title="Edit URL rules"
+            className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700"
+          >
+            <FunnelIcon className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+          </button>
+
           <button
             onClick={(e) => {
               e.stopPropagation();
@@ -182,10 +221,10 @@ const SourceListComponent: FC = () => {
         </div>
       </div>
     );
-  }, [sources, selectedSourceId, crawlProgress, handleSelectSource, handleRemoveSource, handleRefresh, getStatusIcon]);
+  }, [sources, selectedSourceId, crawlProgress, handleSelectSource, handleRemoveSource, handleRefresh, handleEditRules, getStatusIcon]);
 
   return (
-    <div className="h-full bg-white dark:bg-gray-800 rounded-lg shadow-sm overflow-hidden border border-gray-200 dark:border-gray-700">
+    <div className="h-full flex flex-col bg-white dark:bg-gray-800 rounded-lg shadow-sm overflow-hidden border border-gray-200 dark:border-gray-700">
       <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-end space-x-2">
         <input
           type="file"
@@ -209,7 +248,48 @@ const SourceListComponent: FC = () => {
           Export
         </button>
       </div>
-      <div className="h-[calc(100%-60px)]">
+      {editingRules && (
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 space-y-2">
+          <p className="text-xs font-medium text-gray-700 dark:text-gray-300">
+            URL rules for {sources.find(source => source.id === editingRules.sourceId)?.name}, used on the next refresh
+          </p>
+          <label className="flex flex-col text-xs text-gray-600 dark:text-gray-300">
+            Include URLs (one per line)
+            <textarea
+              value={editingRules.include}
+              onChange={(e) => setEditingRules({ ...editingRules, include: e.target.value })}
+              placeholder={'/docs/**\n/?path=/story/**'}
+              rows={3}
+              className="mt-1 px-2 py-1 border rounded-md text-sm font-mono"
+            />
+          </label>
+          <label className="flex flex-col text-xs text-gray-600 dark:text-gray-300">
+            Exclude URLs (one per line)
+            <textarea
+              value={editingRules.exclude}
+              onChange={(e) => setEditingRules({ ...editingRules, exclude: e.target.value })}
+              placeholder={'/blog/**\nre:/v\\d+/'}
+              rows={3}
+              className="mt-1 px-2 py-1 border rounded-md text-sm font-mono"
+            />
+          </label>
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => setEditingRules(null)}
+              className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800 dark:text-gray-300"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSaveRules}
+              className="px-3 py-1 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700"
+            >
+              Save rules
+            </button>
+          </div>
+        </div>
+      )}
+      <div className="flex-1 min-h-0">
         <AutoSizer>
           {({ height, width }) => (
             <List
@@ -0,0 +1,128 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { AnalysisJob } from '../analysisJobs';
+import type { LlmGenerateOptions } from '../llmProviders';
+import { ContentChunk } from '../../types/types';
+
+type AnalysisJobs = typeof import('../analysisJobs');
+
+// Replies of the mock provider are held until the test releases them or the job is cancelled
+const gate = vi.hoisted(() => {
+  const waiting: Array<() => void> = [];
+  return {
+    waiting,
+    hold: (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+      waiting.push(resolve);
+      signal?.addEventListener('abort', () => {
+        waiting.splice(waiting.indexOf(resolve), 1);
+        reject(signal.reason);
+      }, { once: true });
+    }),
+    release: () => waiting.splice(0).forEach(resolve => resolve())
+  };
+});
+
+vi.mock('../llmProviders', async importOriginal => {
+  const actual = await importOriginal<typeof import('../llmProviders')>();
+  return {
+    ...actual,
+    createLlmProvider: (...args: Parameters<typeof actual.createLlmProvider>) => {
+      const provider = actual.createLlmProvider(...args);
+      return {
+        ...provider,
+        generate: async (prompt: string, options: LlmGenerateOptions = {}) => {
+          await gate.hold(options.signal);
+          return provider.generate(prompt, options);
+        }
+      };
+    }
+  };
+});
+
+function chunk(id: string, name: string): ContentChunk {
+  return { id, content: `# ${name}\n\nlabel: string`, type: 'markdown', metadata: { title: name } };
+}
+
+describe('analysis jobs', () => {
+  const chunks = [chunk('chunk-1', 'Button'), chunk('chunk-2', 'Input'), chunk('chunk-3', 'Select')];
+  let dataDir: string;
+  let analysisJobs: AnalysisJobs;
+
+  beforeAll(async () => {
+    // The data directory is read once, when storage is first imported
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'analysis-jobs-'));
+    process.env.CRAWL_DATA_DIR = dataDir;
+    process.env.LLM_PROVIDER = 'mock';
+    analysisJobs = await import('../analysisJobs');
+  });
+
+  afterAll(async () => {
+    delete process.env.CRAWL_DATA_DIR;
+    delete process.env.LLM_PROVIDER;
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('cancels a running job, refuses retries while it runs and retries it once stopped', async () => {
+    const { job, finished } = await analysisJobs.startAnalysisJob(chunks, { concurrency: 1 });
+    await vi.waitFor(() => expect(gate.waiting).toHaveLength(1));
+
+    expect(analysisJobs.isAnalysisJobActive(job.jobId)).toBe(true);
+    expect((await analysisJobs.loadAnalysisJob(job.jobId))?.status).toBe('running');
+    await expect(analysisJobs.retryAnalysisJob(job.jobId)).rejects.toThrow(`Analysis job ${job.jobId} is still running`);
+
+    const cancelled = await analysisJobs.cancelAnalysisJob(job.jobId);
+    expect(cancelled?.status).toBe('cancelled');
+    expect(cancelled?.items.map(item => [item.status, item.runs])).toEqual([['cancelled', 1], ['cancelled', 0], ['cancelled', 0]]);
+    expect(await finished).toBe(cancelled);
+    expect(analysisJobs.isAnalysisJobActive(job.jobId)).toBe(false);
+    expect((await analysisJobs.loadAnalysisJob(job.jobId))?.status).toBe('cancelled');
+
+    const retry = await analysisJobs.retryAnalysisJob(job.jobId);
+    expect(retry?.job.items.map(item => item.status)).toEqual(['running', 'pending', 'pending']);
+    // A second retry while the first is running is refused as well
+    await expect(analysisJobs.retryAnalysisJob(job.jobId)).rejects.toThrow('is still running');
+
+    for (let released = 0; released < chunks.length; released++) {
+      await vi.waitFor(() => expect(gate.waiting).toHaveLength(1));
+      gate.release();
+    }
+    const completed = await retry!.finished;
+
+    expect(completed.status).toBe('complete');
+    expect(completed.items.map(item => [item.status, item.runs])).toEqual([['done', 2], ['done', 1], ['done', 1]]);
+    expect(analysisJobs.getAnalysisResults(completed).map(component => component.name)).toEqual(['Button', 'Input', 'Select']);
+  });
+
+  it('reports a job saved as running but not running in this process as interrupted', async () => {
+    const now = new Date().toISOString();
+    const saved: AnalysisJob = {
+      jobId: 'analysis-1-restarted',
+      status: 'running',
+      concurrency: 1,
+      provider: 'mock',
+      model: 'mock',
+      chunks: chunks.slice(0, 2),
+      items: [
+        { chunkId: 'chunk-1', status: 'done', runs: 1 },
+        { chunkId: 'chunk-2', status: 'running', runs: 1 }
+      ],
+      createdAt: now,
+      updatedAt: now
+    };
+    await fs.mkdir(path.join(dataDir, 'analysis-jobs'), { recursive: true });
+    await fs.writeFile(path.join(dataDir, 'analysis-jobs', `${saved.jobId}.json`), JSON.stringify(saved));
+
+    expect((await analysisJobs.loadAnalysisJob(saved.jobId))?.status).toBe('interrupted');
+    expect((await analysisJobs.listAnalysisJobs()).find(summary => summary.jobId === saved.jobId)).toMatchObject({
+      status: 'interrupted',
+      progress: { total: 2, done: 1, running: 1 }
+    });
+
+    const cancelled = await analysisJobs.cancelAnalysisJob(saved.jobId);
+    expect(cancelled?.status).toBe('cancelled');
+    expect(cancelled?.items.map(item => item.status)).toEqual(['done', 'cancelled']);
+    expect((await analysisJobs.loadAnalysisJob(saved.jobId))?.status).toBe('cancelled');
+  });
+});
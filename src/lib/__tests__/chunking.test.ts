@@ -0,0 +1,230 @@
+import { describe, expect, it } from 'vitest';
+import { chunkPage, chunkPages } from '../chunking';
+import { CodeSample, ContentSection, ExtractedPageContent, PropCandidate, PropTable } from '../../types/types';
+
+const MAX_TOKENS = 200; // 500 characters of section text per chunk
+
+function page(overrides: Partial<ExtractedPageContent> = {}, sections?: ContentSection[]): ExtractedPageContent {
+  return {
+    id: 'page-button',
+    url: 'https://example.com/docs/button',
+    textContent: '',
+    semanticContent: {
+      headings: [],
+      paragraphs: [],
+      lists: [],
+      altTexts: [],
+      ariaLabels: [],
+      landmarks: [],
+      ...(sections ? { sections } : {})
+    },
+    metadata: { title: 'Button' },
+    codeSamples: [],
+    timestamp: '2024-01-01T00:00:00.000Z',
+    ...overrides
+  };
+}
+
+function section(heading: string, level: number, blocks: ContentSection['blocks'], children: ContentSection[] = []): ContentSection {
+  return { heading, level, id: heading.toLowerCase(), blocks, children };
+}
+
+function sample(id: string, code: string): CodeSample {
+  return { id, code, language: 'tsx' };
+}
+
+function prop(name: string, parent?: string): PropCandidate {
+  return {
+    name,
+    type: 'string',
+    required: false,
+    description: `Sets ${name}`,
+    ...(parent ? { parent } : {}),
+    location: { tableIndex: 0, selector: 'table' }
+  };
+}
+
+function propTable(props: PropCandidate[]): PropTable {
+  return { location: { tableIndex: 0, selector: 'table' }, columns: { name: 'Prop', type: 'Type' }, props };
+}
+
+describe('chunkPage', () => {
+  it('keeps a page that fits the budget in one chunk', () => {
+    const chunks = chunkPage(page({ codeSamples: [sample('code-1', '<Button />')] }, [
+      section('Button', 1, [{ kind: 'paragraph', text: 'Buttons trigger actions.' }], [
+        section('Usage', 2, [{ kind: 'code', codeSampleIndex: 0 }])
+      ])
+    ]), { maxTokens: MAX_TOKENS });
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].id).toBe('page-button');
+    expect(chunks[0].content).toBe('# Button\n\nButtons trigger actions.\n\n## Usage\n\n```tsx\n<Button />\n```');
+    expect(chunks[0].metadata).toMatchObject({
+      sourceUrl: 'https://example.com/docs/button',
+      headingPath: ['Button'],
+      chunkIndex: 0,
+      chunkCount: 1,
+      codeSampleIds: ['code-1']
+    });
+  });
+
+  it('splits sections over budget into chunks within it', () => {
+    const paragraphs = Array.from({ length: 12 }, (_, index) => ({
+      kind: 'paragraph' as const,
+      text: `Paragraph ${index + 1}. ${'Guidance on using buttons. '.repeat(3)}`
+    }));
+    const chunks = chunkPage(page({}, [
+      section('Button', 1, paragraphs.slice(0, 6), [section('Usage', 2, paragraphs.slice(6))])
+    ]), { maxTokens: MAX_TOKENS });
+
+    expect(chunks.length).toBeGreaterThan(2);
+    chunks.forEach((chunk, index) => {
+      expect(chunk.id).toBe(`page-button-chunk-${index + 1}`);
+      expect(chunk.content.length).toBeLessThanOrEqual(MAX_TOKENS * 4);
+      expect(chunk.metadata.tokenEstimate).toBeLessThanOrEqual(MAX_TOKENS);
+    });
+
+    // Every paragraph lands in exactly one chunk, under its own section
+    paragraphs.forEach(paragraph => {
+      expect(chunks.filter(chunk => chunk.content.includes(paragraph.text.trim()))).toHaveLength(1);
+    });
+    const last = chunks[chunks.length - 1];
+    expect(last.content.startsWith('Page: Button\nSection: Button > Usage\n\n## Usage')).toBe(true);
+    expect(last.metadata.headingPath).toEqual(['Button', 'Usage']);
+  });
+
+  it('keeps a code sample with the paragraph introducing it', () => {
+    // The introduction alone would still fit the first chunk; with its code it does not
+    const filler = 'Buttons come in several variants for different emphasis. '.repeat(7);
+    const chunks = chunkPage(page({ codeSamples: [sample('code-1', '<Button variant="primary">Save</Button>')] }, [
+      section('Button', 1, [
+        { kind: 'paragraph', text: filler.trim() },
+        { kind: 'paragraph', text: 'Use the primary variant for the main action:' },
+        { kind: 'code', codeSampleIndex: 0 }
+      ])
+    ]), { maxTokens: MAX_TOKENS });
+
+    expect(chunks).toHaveLength(2);
+    const withCode = chunks.filter(chunk => chunk.content.includes('<Button variant="primary">'));
+    expect(withCode).toHaveLength(1);
+    expect(withCode[0].content).toContain('Use the primary variant for the main action:\n\n```tsx');
+    expect(withCode[0].metadata.codeSampleIds).toEqual(['code-1']);
+  });
+
+  it('splits oversized code samples between lines into fenced parts', () => {
+    const lines = Array.from({ length: 60 }, (_, index) => `  <Button key={${index}}>Item ${index}</Button>`);
+    const minified = `const a=${'1+'.repeat(400)}1;`;
+    const code = ['<Stack>', ...lines, '</Stack>', minified].join('\n');
+    const chunks = chunkPage(page({ codeSamples: [sample('code-1', code)] }, [
+      section('Examples', 2, [{ kind: 'paragraph', text: 'A long list:' }, { kind: 'code', codeSampleIndex: 0 }])
+    ]), { maxTokens: MAX_TOKENS });
+
+    expect(chunks.length).toBeGreaterThan(3);
+    const fenced = chunks.map(chunk => {
+      expect(chunk.content.length).toBeLessThanOrEqual(MAX_TOKENS * 4);
+      expect(chunk.metadata.truncated).toBeUndefined();
+      return [...chunk.content.matchAll(/```tsx\n([\s\S]*?)\n```/g)].map(match => match[1]);
+    });
+    expect(fenced.every(parts => parts.length === 1)).toBe(true);
+    // Every line survives; only the minified one is wrapped
+    const rendered = fenced.flat().join('\n').split('\n');
+    expect(rendered.slice(0, lines.length + 2)).toEqual(['<Stack>', ...lines, '</Stack>']);
+    expect(rendered.slice(lines.length + 2).join('')).toBe(minified);
+    expect(chunks.every(chunk => (chunk.metadata.codeSampleIds as string[]).includes('code-1'))).toBe(true);
+  });
+
+  it('records when an oversized paragraph is cut', () => {
+    const chunks = chunkPage(page({}, [
+      section('Usage', 2, [{ kind: 'paragraph', text: 'Guidance on using buttons. '.repeat(40) }])
+    ]), { maxTokens: MAX_TOKENS });
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].content.length).toBeLessThanOrEqual(MAX_TOKENS * 4);
+    expect(chunks[0].metadata.truncated).toBe(true);
+  });
+
+  it('splits large prop tables by rows, repeating the header', () => {
+    const props = [
+      prop('options'),
+      prop('options.size', 'options'),
+      ...Array.from({ length: 20 }, (_, index) => prop(`prop${index + 1}`))
+    ];
+    const chunks = chunkPage(page({ propTables: [propTable(props)] }, [
+      section('Props', 2, [{ kind: 'table', tableIndex: 0 }])
+    ]), { maxTokens: MAX_TOKENS });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => {
+      expect(chunk.content).toContain('| Prop | Type | Default | Required | Description |\n| --- | --- | --- | --- | --- |');
+      expect(chunk.content.length).toBeLessThanOrEqual(MAX_TOKENS * 4);
+    });
+    expect(chunks.flatMap(chunk => (chunk.metadata.propCandidates as PropCandidate[]).map(candidate => candidate.name)))
+      .toEqual(props.map(candidate => candidate.name));
+    expect(chunks[0].content).toContain('| options.size | string |  | no | Sets options.size |');
+    expect(chunks[0].content).not.toContain('options.options.size');
+  });
+
+  it('adds code samples and prop tables no section refers to after the sections', () => {
+    const chunks = chunkPage(page({
+      codeSamples: [sample('code-1', '<Button />'), sample('code-2', '<Button loading />')],
+      propTables: [propTable([prop('loading')])]
+    }, [
+      section('Button', 1, [{ kind: 'paragraph', text: 'Buttons trigger actions.' }, { kind: 'code', codeSampleIndex: 0 }])
+    ]), { maxTokens: MAX_TOKENS });
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0].metadata.codeSampleIds).toEqual(['code-1']);
+    expect(chunks[1].content).toBe([
+      'Page: Button',
+      '```tsx\n<Button loading />\n```',
+      '| Prop | Type | Default | Required | Description |\n| --- | --- | --- | --- | --- |\n| loading | string |  | no | Sets loading |'
+    ].join('\n\n'));
+    expect(chunks[1].metadata).toMatchObject({ headingPath: [], codeSampleIds: ['code-2'] });
+    expect((chunks[1].metadata.propCandidates as PropCandidate[]).map(candidate => candidate.name)).toEqual(['loading']);
+  });
+
+  it('falls back to the page content when the sections render no text', () => {
+    const chunks = chunkPage(page({
+      semanticContent: {
+        headings: [],
+        paragraphs: ['Buttons trigger actions.'],
+        lists: [],
+        altTexts: [],
+        ariaLabels: [],
+        landmarks: [],
+        sections: [{ heading: '', level: 0, blocks: [{ kind: 'paragraph', text: '' }], children: [] }]
+      }
+    }));
+
+    expect(chunks.map(chunk => chunk.content)).toEqual(['Buttons trigger actions.']);
+  });
+
+  it('builds one section from the page content when none is recorded', () => {
+    const chunks = chunkPage(page({
+      semanticContent: {
+        headings: [],
+        paragraphs: ['Buttons trigger actions.'],
+        lists: [{ type: 'ol', items: ['Install', 'Import'] }],
+        altTexts: [],
+        ariaLabels: [],
+        landmarks: []
+      },
+      codeSamples: [sample('code-1', '<Button />')]
+    }));
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].content).toBe('Buttons trigger actions.\n\n1. Install\n2. Import\n\n```tsx\n<Button />\n```');
+  });
+});
+
+describe('chunkPages', () => {
+  it('skips only pages that failed extraction', () => {
+    const sections = [section('Button', 1, [{ kind: 'paragraph', text: 'Buttons trigger actions.' }])];
+    const chunks = chunkPages([
+      page({ id: 'page-ok', errors: ['Screenshot failed'] }, sections),
+      page({ id: 'page-failed', failed: true, errors: ['Navigation timeout'] }, sections)
+    ]);
+
+    expect(chunks.map(chunk => chunk.id)).toEqual(['page-ok']);
+  });
+});
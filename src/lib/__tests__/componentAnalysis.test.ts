@@ -0,0 +1,201 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { analyzeChunk, analyzeComponent, parseAnalysisReply, validateComponentAnalysis } from '../componentAnalysis';
+import { createLlmProvider, getLlmProviderConfig, LlmProvider } from '../llmProviders';
+import { chunkPage } from '../chunking';
+import { ExtractedPageContent, PropCandidate } from '../../types/types';
+
+const CONTENT = '# Button\n\nlabel: string\nsize?: number';
+
+function mockProvider(response?: string): LlmProvider {
+  if (response === undefined) {
+    delete process.env.LLM_MOCK_RESPONSE;
+  } else {
+    process.env.LLM_MOCK_RESPONSE = response;
+  }
+  return createLlmProvider(getLlmProviderConfig({ LLM_PROVIDER: 'mock' }));
+}
+
+afterEach(() => {
+  delete process.env.LLM_MOCK_RESPONSE;
+});
+
+describe('parseAnalysisReply', () => {
+  it('reads JSON with or without a code fence, and nothing around it', () => {
+    expect(parseAnalysisReply('```json\n{"componentName":"Button"}\n```')).toEqual({ value: { componentName: 'Button' }, errors: [] });
+    expect(parseAnalysisReply('  {"componentName":"Button"}  ').value).toEqual({ componentName: 'Button' });
+    expect(parseAnalysisReply('Here it is: {"componentName":"Button"}').errors[0]).toMatch(/^The reply is not valid JSON/);
+    expect(parseAnalysisReply('  ').errors).toEqual(['The reply was empty']);
+  });
+});
+
+describe('validateComponentAnalysis', () => {
+  const prop = { name: 'size', type: 'number', required: false, description: ' Size ', defaultValue: null };
+
+  it('accepts a null defaultValue and leaves it out', () => {
+    const { analysis, errors } = validateComponentAnalysis({
+      componentName: ' Button ',
+      description: 'Triggers an action.',
+      props: [prop, { ...prop, name: 'tone', type: 'string', description: 'Tone', defaultValue: 'neutral' }]
+    });
+
+    expect(errors).toEqual([]);
+    expect(analysis).toEqual({
+      componentName: 'Button',
+      description: 'Triggers an action.',
+      props: [
+        { name: 'size', type: 'number', required: false, description: 'Size' },
+        { name: 'tone', type: 'string', required: false, description: 'Tone', defaultValue: 'neutral' }
+      ]
+    });
+  });
+
+  it('rejects unknown fields and wrongly typed values', () => {
+    expect(validateComponentAnalysis({
+      componentName: 'Button',
+      description: '',
+      props: [{ ...prop, defaultValue: 3, example: '<Button />' }],
+      category: 'input'
+    })).toEqual({
+      analysis: null,
+      errors: [
+        "Unknown field 'category'",
+        "Unknown field 'props[0].example'",
+        'props[0].defaultValue must be a string or null'
+      ]
+    });
+    expect(validateComponentAnalysis([]).errors).toEqual(['The reply must be a JSON object']);
+  });
+});
+
+describe('analyzeComponent', () => {
+  it('sends an invalid reply back with its errors and accepts the repair', async () => {
+    const mock = mockProvider();
+    const prompts: string[] = [];
+    const provider: LlmProvider = {
+      ...mock,
+      generate: async (prompt, options) => {
+        prompts.push(prompt);
+        return prompts.length === 1 ? '{"componentName": "Button", "props": []}' : mock.generate(prompt, options);
+      }
+    };
+
+    const result = await analyzeComponent(provider, CONTENT);
+
+    expect(result.attempts).toBe(2);
+    expect(result.analysis).toEqual({
+      componentName: 'Button',
+      description: 'Button component',
+      props: [
+        { name: 'label', type: 'string', required: true, description: '' },
+        { name: 'size', type: 'number', required: false, description: '' }
+      ]
+    });
+    expect(prompts[1]).toContain('Your previous reply was:\n{"componentName": "Button", "props": []}');
+    expect(prompts[1]).toContain('- description must be a string of at most 2000 characters');
+  });
+
+  it('gives up after the allowed repairs and returns the last errors', async () => {
+    const result = await analyzeComponent(mockProvider('{"componentName": ""}'), CONTENT, { maxRepairs: 1 });
+
+    expect(result).toEqual({
+      analysis: null,
+      attempts: 2,
+      errors: [
+        'componentName must be a non-empty string of at most 120 characters',
+        'description must be a string of at most 2000 characters',
+        'props must be an array of at most 100 props'
+      ]
+    });
+  });
+});
+
+describe('analyzeChunk', () => {
+  const tableProps: PropCandidate[] = [
+    { name: 'variant', type: "'primary' | 'secondary'", required: false, description: 'Visual style', location: { tableIndex: 0, selector: 'table' } }
+  ];
+  const page: ExtractedPageContent = {
+    id: 'page-button',
+    url: 'https://example.com/docs/button',
+    textContent: '',
+    semanticContent: {
+      headings: [],
+      paragraphs: [],
+      lists: [],
+      altTexts: [],
+      ariaLabels: [],
+      landmarks: [],
+      sections: [{
+        heading: 'Button',
+        level: 1,
+        blocks: [
+          { kind: 'paragraph', text: 'Buttons trigger an action when pressed.' },
+          { kind: 'code', codeSampleIndex: 0 },
+          { kind: 'table', tableIndex: 0 }
+        ],
+        children: []
+      }]
+    },
+    metadata: { title: 'Button' },
+    codeSamples: [{ id: 'code-1', code: '<Button variant="primary" size="sm" />', language: 'tsx' }],
+    propTables: [{ location: { tableIndex: 0, selector: 'table' }, columns: { name: 'Prop' }, props: tableProps }],
+    timestamp: '2024-01-01T00:00:00.000Z'
+  };
+
+  it('keeps stated props over the model and lets it refine props only seen in use', async () => {
+    const [chunk] = chunkPage(page);
+    const reply = {
+      componentName: 'Button',
+      description: 'A clickable button.',
+      props: [
+        { name: 'variant', type: 'string', required: true, description: 'Style', defaultValue: "'primary'" },
+        { name: 'size', type: "'sm' | 'md' | 'lg'", required: true, description: 'Size', defaultValue: null },
+        { name: 'loading', type: 'boolean', required: false, description: 'Shows a spinner', defaultValue: 'false' }
+      ]
+    };
+
+    const component = await analyzeChunk(mockProvider(JSON.stringify(reply)), chunk);
+
+    expect(component.name).toBe('Button');
+    expect(component.description).toBe('A clickable button.');
+    expect(component.props.map(({ name, type, required, description, defaultValue, provenance }) => ({
+      name, type, required, description, defaultValue, provenance
+    }))).toEqual([
+      {
+        name: 'variant',
+        type: "'primary' | 'secondary'",
+        required: false,
+        description: 'Visual style',
+        defaultValue: "'primary'",
+        provenance: { source: 'heuristic', confidence: 0.95 }
+      },
+      {
+        name: 'size',
+        type: "'sm' | 'md' | 'lg'",
+        required: true,
+        description: 'Size',
+        defaultValue: undefined,
+        provenance: { source: 'heuristic', confidence: 0.8 }
+      },
+      {
+        name: 'loading',
+        type: 'boolean',
+        required: false,
+        description: 'Shows a spinner',
+        defaultValue: 'false',
+        provenance: { source: 'llm', confidence: 0.7 }
+      }
+    ]);
+    expect(component.metadata).toMatchObject({ source: 'llm', provider: 'mock', attempts: 1, rulesNameAgrees: true });
+  });
+
+  it('returns the baseline when the model reply cannot be repaired', async () => {
+    const [chunk] = chunkPage(page);
+
+    const component = await analyzeChunk(mockProvider('not json'), chunk, { maxRepairs: 0 });
+
+    expect(component.name).toBe('Button');
+    expect(component.props.map(prop => prop.name)).toEqual(['variant', 'size']);
+    expect(component.metadata).toMatchObject({ provider: 'mock', attempts: 1 });
+    expect(component.metadata.analysisErrors).toMatch(/^The reply is not valid JSON/);
+  });
+});
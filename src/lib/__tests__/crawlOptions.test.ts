@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CRAWL_OPTIONS, validateCrawlOptions } from '../crawlOptions';
+
+describe('validateCrawlOptions', () => {
+  it('returns the defaults when no options are given', () => {
+    expect(validateCrawlOptions(undefined)).toEqual({ options: DEFAULT_CRAWL_OPTIONS, errors: [] });
+    expect(validateCrawlOptions(null)).toEqual({ options: DEFAULT_CRAWL_OPTIONS, errors: [] });
+    expect(validateCrawlOptions([])).toEqual({ options: DEFAULT_CRAWL_OPTIONS, errors: ['options must be an object'] });
+  });
+
+  it('merges valid options over the defaults', () => {
+    const { options, errors } = validateCrawlOptions({
+      maxPages: 200,
+      viewport: { width: 1440 },
+      waitUntil: 'load',
+      userAgent: '  AcmeBot/2.0  ',
+      respectRobotsTxt: false,
+      allowedFrameOrigins: ['https://codesandbox.io/s/abc', 'https://codesandbox.io'],
+      urlRules: { include: [{ pattern: '/docs/**', kind: 'glob' }] }
+    });
+
+    expect(errors).toEqual([]);
+    expect(options).toEqual({
+      ...DEFAULT_CRAWL_OPTIONS,
+      maxPages: 200,
+      viewport: { width: 1440, height: 800 },
+      waitUntil: 'load',
+      userAgent: 'AcmeBot/2.0',
+      respectRobotsTxt: false,
+      allowedFrameOrigins: ['https://codesandbox.io'],
+      urlRules: { include: [{ pattern: '/docs/**', kind: 'glob' }], exclude: [] }
+    });
+  });
+
+  it('reports invalid values and keeps the defaults for them', () => {
+    const { options, errors } = validateCrawlOptions({
+      maxPages: 0,
+      concurrency: 2.5,
+      viewport: { height: 100 },
+      waitUntil: 'idle',
+      extractionMode: 'html',
+      spaMode: 'yes',
+      allowedFrameOrigins: ['ftp://files.example.com'],
+      urlRules: { exclude: [{ pattern: '(', kind: 'regex' }] },
+      depth: 2
+    });
+
+    expect(errors).toEqual([
+      'maxPages must be between 1 and 5000',
+      'concurrency must be an integer',
+      'viewport.height must be between 240 and 2160',
+      'waitUntil must be one of: load, domcontentloaded, networkidle0, networkidle2',
+      'extractionMode must be one of: auto, dom, storybook',
+      'spaMode must be a boolean',
+      'allowedFrameOrigins[0] must be an http(s) origin, e.g. https://codesandbox.io',
+      expect.stringMatching(/^urlRules\.exclude\[0\] is not a valid regex/),
+      "Unknown option 'depth'"
+    ]);
+    expect(options).toMatchObject({
+      maxPages: DEFAULT_CRAWL_OPTIONS.maxPages,
+      concurrency: DEFAULT_CRAWL_OPTIONS.concurrency,
+      viewport: DEFAULT_CRAWL_OPTIONS.viewport,
+      waitUntil: DEFAULT_CRAWL_OPTIONS.waitUntil,
+      spaMode: false,
+      allowedFrameOrigins: []
+    });
+  });
+
+  it('rejects archive options that cannot be combined', () => {
+    expect(validateCrawlOptions({ recordArchive: true, replayArchive: 'crawl-1' }).errors)
+      .toEqual(['recordArchive and replayArchive cannot be combined']);
+    expect(validateCrawlOptions({ replayArchive: 'crawl-1', extractionMode: 'storybook' }).errors)
+      .toEqual(["replayArchive does not support extractionMode 'storybook'"]);
+  });
+});
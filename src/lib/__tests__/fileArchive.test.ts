@@ -0,0 +1,174 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { crc32, deflateRawSync, gzipSync } from 'zlib';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { isArchiveFile, readArchiveEntries } from '../fileArchive';
+
+interface FixtureEntry {
+  name: string;
+  content: string;
+  deflate?: boolean;
+  compressed?: Buffer; // Deflated data stored as is, whatever content declares
+}
+
+function buildZip(entries: FixtureEntry[]): Buffer {
+  const locals: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    const name = Buffer.from(entry.name, 'utf8');
+    const content = Buffer.from(entry.content, 'utf8');
+    const method = entry.deflate || entry.compressed ? 8 : 0;
+    const data = entry.compressed ?? (entry.deflate ? deflateRawSync(content) : content);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(crc32(content), 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(crc32(content), 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, data);
+    directory.push(central, name);
+    offset += local.length + name.length + data.length;
+  });
+
+  const directorySize = directory.reduce((size, part) => size + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directorySize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, ...directory, end]);
+}
+
+function tarHeader(name: string, size: number, type: string, prefix = ''): Buffer {
+  const header = Buffer.alloc(512);
+  header.write(name, 0, 100, 'utf8');
+  header.write('0000644\0', 100);
+  header.write('0000000\0', 108);
+  header.write('0000000\0', 116);
+  header.write(`${size.toString(8).padStart(11, '0')}\0`, 124);
+  header.write('00000000000\0', 136);
+  header.write(type, 156);
+  header.write('ustar\0', 257);
+  header.write('00', 263);
+  header.write(prefix, 345, 155, 'utf8');
+
+  // The checksum is summed with its own field read as spaces
+  header.fill(' ', 148, 156);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148);
+  return header;
+}
+
+function tarRecord(header: Buffer, body: Buffer): Buffer {
+  const padding = Buffer.alloc((512 - (body.length % 512)) % 512);
+  return Buffer.concat([header, body, padding]);
+}
+
+function buildTar(entries: Array<FixtureEntry & { type?: string; prefix?: string }>): Buffer {
+  const records = entries.map(entry => {
+    const body = Buffer.from(entry.content, 'utf8');
+    return tarRecord(tarHeader(entry.name, body.length, entry.type ?? '0', entry.prefix), body);
+  });
+  return Buffer.concat([...records, Buffer.alloc(1024)]);
+}
+
+function entryTexts(entries: Map<string, Buffer>): Record<string, string> {
+  return Object.fromEntries(Array.from(entries, ([name, content]) => [name, content.toString('utf8')]));
+}
+
+describe('readArchiveEntries', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'file-archive-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  async function writeFixture(name: string, data: Buffer): Promise<string> {
+    const filePath = path.join(directory, name);
+    await fs.writeFile(filePath, data);
+    return filePath;
+  }
+
+  it('recognises archive file names', () => {
+    expect(['docs.zip', 'docs.tar', 'docs.tgz', 'docs.TAR.GZ'].every(isArchiveFile)).toBe(true);
+    expect(isArchiveFile('docs.md')).toBe(false);
+  });
+
+  it('reads stored and deflated zip entries', async () => {
+    const archive = await writeFixture('docs.zip', buildZip([
+      { name: 'docs/', content: '' },
+      { name: 'docs/button.md', content: '# Button\n' },
+      { name: './docs/input.mdx', content: `# Input\n\n${'Text input. '.repeat(50)}`, deflate: true },
+      { name: 'docs/logo.png', content: 'png' }
+    ]));
+
+    const entries = await readArchiveEntries(archive, entryPath => entryPath.endsWith('.md') || entryPath.endsWith('.mdx'));
+
+    expect(entryTexts(entries)).toEqual({
+      'docs/button.md': '# Button\n',
+      'docs/input.mdx': `# Input\n\n${'Text input. '.repeat(50)}`
+    });
+  });
+
+  it('skips zip entries that inflate past the entry size limit', async () => {
+    const archive = await writeFixture('bomb.zip', buildZip([
+      { name: 'bomb.md', content: 'small', compressed: deflateRawSync(Buffer.alloc(11 * 1024 * 1024)) },
+      { name: 'ok.md', content: 'ok' }
+    ]));
+
+    expect(entryTexts(await readArchiveEntries(archive))).toEqual({ 'ok.md': 'ok' });
+  });
+
+  it('reads ustar entries with prefixes and GNU long names', async () => {
+    const longName = `docs/${'nested/'.repeat(20)}button.md`;
+    const tar = buildTar([
+      { name: 'docs/', content: '', type: '5' },
+      { name: 'button.md', content: '# Button\n', prefix: 'package/docs' },
+      { name: '././@LongLink', content: `${longName}\0`, type: 'L' },
+      { name: longName.slice(0, 99), content: '# Deep\n' },
+      { name: 'docs/link.md', content: '', type: '2' }
+    ]);
+
+    expect(entryTexts(await readArchiveEntries(await writeFixture('docs.tar', tar)))).toEqual({
+      'package/docs/button.md': '# Button\n',
+      [longName]: '# Deep\n'
+    });
+  });
+
+  it('reads gzipped tar archives and pax paths', async () => {
+    const tar = buildTar([
+      { name: 'PaxHeader', content: '29 path=docs/über-button.md\n', type: 'x' },
+      { name: 'docs/ber-button.md', content: '# Über\n' },
+      { name: 'docs/input.md', content: '# Input\n' }
+    ]);
+
+    const entries = await readArchiveEntries(await writeFixture('docs.tgz', gzipSync(tar)), entryPath => entryPath !== 'docs/input.md');
+
+    expect(entryTexts(entries)).toEqual({ 'docs/über-button.md': '# Über\n' });
+  });
+});
+
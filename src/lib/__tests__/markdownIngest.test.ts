@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+import { parseFrontmatter, parseMarkdownDocument } from '../markdownIngest';
+
+describe('parseFrontmatter', () => {
+  it('splits frontmatter off the body', () => {
+    const { data, body } = parseFrontmatter([
+      '---',
+      'title: "Button"',
+      'order: 3',
+      'draft: false',
+      'tags: [actions, forms]',
+      'authors:',
+      '  - Ada',
+      '  - Grace',
+      'summary: >',
+      '  Triggers an action',
+      '  when pressed.',
+      'usage: |',
+      '  Use for primary actions.',
+      '  Avoid in dense tables.',
+      'figma:',
+      '  file: abc123',
+      '  node: 12',
+      '---',
+      '# Button'
+    ].join('\n'));
+
+    expect(data).toEqual({
+      title: 'Button',
+      order: 3,
+      draft: false,
+      tags: ['actions', 'forms'],
+      authors: ['Ada', 'Grace'],
+      summary: 'Triggers an action when pressed.',
+      usage: 'Use for primary actions.\nAvoid in dense tables.',
+      figma: { file: 'abc123', node: 12 }
+    });
+    expect(body).toBe('# Button');
+  });
+
+  it('leaves documents without frontmatter untouched', () => {
+    expect(parseFrontmatter('# Button\n\n---\n')).toEqual({ data: {}, body: '# Button\n\n---\n' });
+  });
+});
+
+describe('parseMarkdownDocument', () => {
+  it('maps frontmatter to page metadata', () => {
+    const page = parseMarkdownDocument([
+      '---',
+      'title: Button',
+      'description: Triggers an action',
+      'tags:',
+      '  - actions',
+      '  - forms',
+      'lang: en',
+      '---',
+      '# Buttons'
+    ].join('\n'), 'file:///docs/button.md');
+
+    expect(page.metadata).toMatchObject({
+      title: 'Button',
+      description: 'Triggers an action',
+      keywords: ['actions', 'forms'],
+      language: 'en'
+    });
+    expect(page.metadata.frontmatter).toMatchObject({ title: 'Button' });
+  });
+
+  it('falls back to the first level 1 heading as title', () => {
+    const page = parseMarkdownDocument('## Intro\n\n# Button\n\nText', 'file:///docs/button.md');
+
+    expect(page.metadata.title).toBe('Button');
+    expect(page.metadata.frontmatter).toBeUndefined();
+  });
+
+  it('builds sections with code and pipe tables', () => {
+    const page = parseMarkdownDocument([
+      '# Button',
+      '',
+      'Buttons trigger actions.',
+      '',
+      '## Usage',
+      '',
+      '```tsx',
+      '<Button>Save</Button>',
+      '```',
+      '',
+      '## Props',
+      '',
+      '| Prop | Type | Default |',
+      '| --- | --- | --- |',
+      "| variant | `'primary' \\| 'secondary'` | `'primary'` |"
+    ].join('\n'), 'file:///docs/button.md');
+
+    expect(page.codeSamples).toHaveLength(1);
+    expect(page.codeSamples[0]).toMatchObject({ code: '<Button>Save</Button>', language: 'tsx', sourceElement: 'markdown' });
+    expect(page.propTables?.[0].props[0]).toMatchObject({
+      name: 'variant',
+      type: "'primary' | 'secondary'",
+      defaultValue: "'primary'",
+      location: { heading: 'Props' }
+    });
+
+    const [button] = page.semanticContent.sections!;
+    expect(button.blocks).toEqual([{ kind: 'paragraph', text: 'Buttons trigger actions.' }]);
+    expect(button.children.map(section => [section.heading, section.blocks])).toEqual([
+      ['Usage', [{ kind: 'code', codeSampleIndex: 0 }]],
+      ['Props', [{ kind: 'table', tableIndex: 0 }]]
+    ]);
+  });
+
+  it('attaches code nested in lists and blockquotes to their section', () => {
+    const page = parseMarkdownDocument([
+      '# Install',
+      '',
+      '1. Add the package:',
+      '',
+      '   ```sh',
+      '   npm install @acme/ui',
+      '   ```',
+      '',
+      '> Or with yarn:',
+      '>',
+      '> ```sh',
+      '> yarn add @acme/ui',
+      '> ```'
+    ].join('\n'), 'file:///docs/install.md');
+
+    expect(page.codeSamples.map(sample => sample.code)).toEqual(['npm install @acme/ui', 'yarn add @acme/ui']);
+    const blocks = page.semanticContent.sections![0].blocks;
+    expect(blocks.filter(block => block.kind === 'code')).toEqual([
+      { kind: 'code', codeSampleIndex: 0 },
+      { kind: 'code', codeSampleIndex: 1 }
+    ]);
+  });
+
+  it('turns MDX JSX blocks into code samples and drops ESM statements', () => {
+    const page = parseMarkdownDocument([
+      "import { Button } from './Button';",
+      "export const meta = { status: 'stable' };",
+      '',
+      '# Button',
+      '',
+      'Buttons trigger actions.',
+      '',
+      '<Button variant="primary" onClick={() => save({ draft: false })}>',
+      '  Save',
+      '</Button>',
+      '',
+      '<>',
+      '  <Button size="sm" />',
+      '</>'
+    ].join('\n'), 'file:///docs/button.mdx', { mdx: true });
+
+    expect(page.codeSamples.map(({ code, language, sourceElement, context }) => ({ code, language, sourceElement, context }))).toEqual([
+      {
+        code: '<Button variant="primary" onClick={() => save({ draft: false })}>\n  Save\n</Button>',
+        language: 'jsx',
+        sourceElement: 'mdx-jsx',
+        context: 'Buttons trigger actions.'
+      },
+      {
+        code: '<>\n  <Button size="sm" />\n</>',
+        language: 'jsx',
+        sourceElement: 'mdx-jsx',
+        context: undefined
+      }
+    ]);
+    expect(page.textContent).not.toContain('import');
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { parsePropTables, RawTable, RawTableCell } from '../propTables';
+
+function cell(text: string, options: Partial<Omit<RawTableCell, 'text'>> = {}): RawTableCell {
+  return { text, header: false, rowSpan: 1, colSpan: 1, ...options };
+}
+
+function headerRow(...texts: string[]): RawTableCell[] {
+  return texts.map(text => cell(text, { header: true }));
+}
+
+function table(tableIndex: number, rows: RawTableCell[][], nestedIn?: RawTable['nestedIn']): RawTable {
+  return { location: { tableIndex, selector: `table:nth-of-type(${tableIndex + 1})` }, rows, nestedIn };
+}
+
+describe('parsePropTables', () => {
+  it('reads typed props from recognised columns', () => {
+    const [props] = parsePropTables([table(0, [
+      headerRow('Prop', 'Type', 'Default', 'Required', 'Description'),
+      [cell('variant'), cell("'primary' | 'secondary'"), cell("'primary'"), cell('No'), cell('Visual style')],
+      [cell('onClick*'), cell('() => void'), cell('-'), cell(''), cell('Click handler')]
+    ])]);
+
+    expect(props.columns).toEqual({
+      name: 'Prop', type: 'Type', default: 'Default', required: 'Required', description: 'Description'
+    });
+    expect(props.props.map(({ name, type, required, defaultValue }) => ({ name, type, required, defaultValue }))).toEqual([
+      { name: 'variant', type: "'primary' | 'secondary'", required: false, defaultValue: "'primary'" },
+      { name: 'onClick', type: '() => void', required: true, defaultValue: undefined }
+    ]);
+  });
+
+  it('ignores tables that do not look like prop tables', () => {
+    expect(parsePropTables([table(0, [
+      headerRow('Name', 'Description'),
+      [cell('Jane'), cell('Designer')]
+    ])])).toEqual([]);
+  });
+
+  it('folds rows spanned by the name cell into one prop', () => {
+    const [props] = parsePropTables([table(0, [
+      headerRow('Prop', 'Type', 'Description'),
+      [cell('size', { rowSpan: 2 }), cell("'sm'"), cell('Size')],
+      [cell("'lg'"), cell('of the button')],
+      [cell('disabled'), cell('boolean'), cell('Disables the button')]
+    ])]);
+
+    expect(props.props).toHaveLength(2);
+    expect(props.props[0]).toMatchObject({ name: 'size', type: "'sm' | 'lg'", description: 'Size of the button' });
+    expect(props.props[1]).toMatchObject({ name: 'disabled', type: 'boolean' });
+  });
+
+  it('appends continuation rows to the prop above', () => {
+    const [props] = parsePropTables([table(0, [
+      headerRow('Prop', 'Type', 'Description'),
+      [cell('value'), cell('string'), cell('Current value')],
+      [cell(''), cell('number'), cell('or index')],
+      [cell('Controlled when set together with onChange.', { colSpan: 3 })],
+      [cell('onChange'), cell('(value: string) => void'), cell('Change handler')]
+    ])]);
+
+    expect(props.props).toHaveLength(2);
+    expect(props.props[0]).toMatchObject({
+      name: 'value',
+      type: 'string | number',
+      description: 'Current value or index Controlled when set together with onChange.'
+    });
+    expect(props.props[1].name).toBe('onChange');
+  });
+
+  it('names nested rows after their parent prop', () => {
+    const [props] = parsePropTables([table(0, [
+      headerRow('Prop', 'Type', 'Description'),
+      [cell('options'), cell('object'), cell('Display options')],
+      [cell('↳ size'), cell("'sm' | 'lg'"), cell('Size')],
+      [cell('└ tone'), cell('string'), cell('Colour tone')],
+      [cell('disabled'), cell('boolean'), cell('Disables the control')]
+    ])]);
+
+    expect(props.props.map(({ name, parent }) => ({ name, parent }))).toEqual([
+      { name: 'options', parent: undefined },
+      { name: 'options.size', parent: 'options' },
+      { name: 'options.tone', parent: 'options' },
+      { name: 'disabled', parent: undefined }
+    ]);
+  });
+
+  it('keeps the leading dashes of CSS custom properties', () => {
+    const [props] = parsePropTables([table(0, [
+      headerRow('Name', 'Default', 'Description'),
+      [cell('--button-bg'), cell('#0055ff'), cell('Background colour')],
+      [cell('--button-fg'), cell('#ffffff'), cell('Text colour')],
+      [cell('- radius'), cell('4px'), cell('Corner radius of the button')]
+    ])]);
+
+    expect(props.props.map(({ name, parent, defaultValue }) => ({ name, parent, defaultValue }))).toEqual([
+      { name: '--button-bg', parent: undefined, defaultValue: '#0055ff' },
+      { name: '--button-fg', parent: undefined, defaultValue: '#ffffff' },
+      { name: '--button-fg.radius', parent: '--button-fg', defaultValue: '4px' }
+    ]);
+  });
+
+  it('merges tables nested in a prop cell into the outer table', () => {
+    const tables = parsePropTables([
+      table(1, [
+        headerRow('Name', 'Type'),
+        [cell('size'), cell('number')],
+        [cell('tone'), cell('string')]
+      ], { tableIndex: 0, row: 2 }),
+      table(0, [
+        headerRow('Prop', 'Type', 'Description'),
+        [cell('label'), cell('string'), cell('Accessible label')],
+        [cell('options'), cell('object'), cell('Display options')]
+      ])
+    ]);
+
+    expect(tables).toHaveLength(1);
+    expect(tables[0].props.map(({ name, parent }) => ({ name, parent }))).toEqual([
+      { name: 'label', parent: undefined },
+      { name: 'options', parent: undefined },
+      { name: 'options.size', parent: 'options' },
+      { name: 'options.tone', parent: 'options' }
+    ]);
+  });
+
+  it('merges tables nested in a nested table into the outermost table', () => {
+    const tables = parsePropTables([
+      table(2, [
+        headerRow('Name', 'Type'),
+        [cell('color'), cell('string')]
+      ], { tableIndex: 1, row: 1 }),
+      table(1, [
+        headerRow('Name', 'Type'),
+        [cell('style'), cell('object')]
+      ], { tableIndex: 0, row: 1 }),
+      table(0, [
+        headerRow('Prop', 'Type'),
+        [cell('options'), cell('object')]
+      ])
+    ]);
+
+    expect(tables).toHaveLength(1);
+    expect(tables[0].props.map(({ name, parent }) => ({ name, parent }))).toEqual([
+      { name: 'options', parent: undefined },
+      { name: 'options.style', parent: 'options' },
+      { name: 'options.style.color', parent: 'options.style' }
+    ]);
+  });
+});
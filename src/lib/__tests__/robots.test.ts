@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { isAllowedByRobots, parseRobotsTxt, RobotsRules } from '../robots';
+
+const USER_AGENT = 'DesignSystemAnalyzer/1.0 (+https://example.com/bot)';
+
+function rules(allow: string[], disallow: string[]): RobotsRules {
+  return { allow, disallow, sitemaps: [] };
+}
+
+function allowed(robots: RobotsRules, path: string): boolean {
+  return isAllowedByRobots(robots, `https://example.com${path}`);
+}
+
+describe('parseRobotsTxt', () => {
+  it('uses the groups whose user-agent equals our product token', () => {
+    const robots = parseRobotsTxt([
+      'User-agent: *',
+      'Disallow: /',
+      '',
+      'User-agent: designsystemanalyzer',
+      'Disallow: /private # internal docs',
+      'Crawl-delay: 2',
+      '',
+      'User-agent: DesignSystemAnalyzerPro',
+      'Disallow: /pro',
+      '',
+      'User-agent: DesignSystemAnalyzer/2.0',
+      'Allow: /private/public',
+      '',
+      'Sitemap: https://example.com/sitemap.xml'
+    ].join('\n'), USER_AGENT);
+
+    expect(robots).toEqual({
+      allow: ['/private/public'],
+      disallow: ['/private'],
+      crawlDelaySeconds: 2,
+      sitemaps: ['https://example.com/sitemap.xml']
+    });
+  });
+
+  it('falls back to the * group when no group names us', () => {
+    const robots = parseRobotsTxt([
+      'User-agent: OtherBot',
+      'User-agent: DesignSystem',
+      'Disallow: /',
+      '',
+      'User-agent: *',
+      'Allow: /docs',
+      'Disallow: /admin'
+    ].join('\r\n'), USER_AGENT);
+
+    expect(robots.allow).toEqual(['/docs']);
+    expect(robots.disallow).toEqual(['/admin']);
+  });
+
+  it('ignores rules before any user-agent line and empty disallows', () => {
+    const robots = parseRobotsTxt([
+      'Disallow: /orphan',
+      'User-agent: *',
+      'Disallow:'
+    ].join('\n'), USER_AGENT);
+
+    expect(robots.disallow).toEqual([]);
+    expect(allowed(robots, '/orphan')).toBe(true);
+  });
+});
+
+describe('isAllowedByRobots', () => {
+  it('lets the longest matching rule win, and Allow win ties', () => {
+    const robots = rules(['/docs/public', '/shared'], ['/docs', '/shared', '/docs/public/drafts']);
+
+    expect(allowed(robots, '/docs/button')).toBe(false);
+    expect(allowed(robots, '/docs/public/button')).toBe(true);
+    expect(allowed(robots, '/docs/public/drafts/new')).toBe(false);
+    expect(allowed(robots, '/shared/logo.svg')).toBe(true);
+    expect(allowed(robots, '/blog')).toBe(true);
+  });
+
+  it('matches * anywhere in a rule and $ at its end', () => {
+    const robots = rules(['/docs/*.html$'], ['/*?print=', '/docs/']);
+
+    expect(allowed(robots, '/docs/button.html')).toBe(true);
+    expect(allowed(robots, '/docs/button.html?version=2')).toBe(false);
+    expect(allowed(robots, '/blog/post?print=1')).toBe(false);
+    expect(allowed(robots, '/blog/post?theme=dark')).toBe(true);
+  });
+
+  it('matches regular expression characters in rules literally', () => {
+    const robots = rules([], ['/api/v1.0/(beta)']);
+
+    expect(allowed(robots, '/api/v1.0/(beta)/items')).toBe(false);
+    expect(allowed(robots, '/api/v1x0/(beta)/items')).toBe(true);
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, expect, it } from 'vitest';
+import { analyzePageWithRules, analyzeWithRules, findPropsDeclarations, propsFromTables, RuleAnalysisInput, ruleInputFromChunk, scanJsxTags } from '../ruleBasedAnalyzer';
+import { parsePropTables } from '../propTables';
+import { chunkPage } from '../chunking';
+import { ExtractedPageContent, PropCandidate } from '../../types/types';
+
+function input(overrides: Partial<RuleAnalysisInput> = {}): RuleAnalysisInput {
+  return {
+    id: 'chunk-1',
+    sourceUrl: 'https://example.com/docs/button',
+    headings: [],
+    paragraphs: [],
+    codeSamples: [],
+    tableProps: [],
+    ...overrides
+  };
+}
+
+describe('scanJsxTags', () => {
+  it('reads PascalCase tags and their attributes', () => {
+    const tags = scanJsxTags([
+      '<Card.Header title="Hi" />',
+      '<Button variant="primary" size={\'sm\'} disabled onClick={() => save({ draft: true })} {...rest}>',
+      '  <span>Save</span>',
+      '</Button>'
+    ].join('\n'));
+
+    expect(tags).toEqual([
+      { name: 'Card.Header', attributes: [{ name: 'title', kind: 'string', value: 'Hi' }] },
+      {
+        name: 'Button',
+        attributes: [
+          { name: 'variant', kind: 'string', value: 'primary' },
+          { name: 'size', kind: 'expression', value: "'sm'" },
+          { name: 'disabled', kind: 'boolean', value: 'true' },
+          { name: 'onClick', kind: 'expression', value: '() => save({ draft: true })' }
+        ]
+      }
+    ]);
+  });
+});
+
+describe('findPropsDeclarations', () => {
+  it('reads interface and type literal members with their comments', () => {
+    const declarations = findPropsDeclarations([
+      'export interface ButtonProps extends HTMLAttributes<HTMLButtonElement> {',
+      '  /** Visual style of the button */',
+      "  variant?: 'primary'",
+      "    | 'secondary';",
+      '  // Called on click',
+      '  onClick(event: MouseEvent): void;',
+      '  style: { color: string; size: number };',
+      '  [key: string]: unknown;',
+      '  readonly "aria-label": string',
+      '}',
+      '',
+      'type IconProps = Base & { name: string, size?: number };'
+    ].join('\n'));
+
+    expect([...declarations.keys()]).toEqual(['Button', 'Icon']);
+    expect(declarations.get('Button')!.map(({ name, type, required, description }) => ({ name, type, required, description }))).toEqual([
+      { name: 'variant', type: "'primary' | 'secondary'", required: false, description: 'Visual style of the button' },
+      { name: 'onClick', type: '(event: MouseEvent) => void', required: true, description: 'Called on click' },
+      { name: 'style', type: '{ color: string; size: number }', required: true, description: '' },
+      { name: 'aria-label', type: 'string', required: true, description: '' }
+    ]);
+    expect(declarations.get('Icon')!.map(({ name, type, required }) => ({ name, type, required }))).toEqual([
+      { name: 'name', type: 'string', required: true },
+      { name: 'size', type: 'number', required: false }
+    ]);
+  });
+});
+
+describe('analyzeWithRules', () => {
+  it('infers a component and its props from JSX usage', () => {
+    const component = analyzeWithRules(input({
+      title: 'Button | Acme Design System',
+      paragraphs: ['Short.', 'Buttons trigger an action when pressed.'],
+      codeSamples: [
+        { code: '<Stack>\n  <Button variant="primary" size="sm">Save</Button>\n  <Button variant="secondary" loading>Cancel</Button>\n</Stack>', language: 'jsx' },
+        { code: 'npm install @acme/ui', language: 'sh' }
+      ]
+    }));
+
+    expect(component).not.toBeNull();
+    expect(component!.name).toBe('Button');
+    expect(component!.description).toBe('Buttons trigger an action when pressed.');
+    expect(component!.props.map(({ name, type, required }) => ({ name, type, required }))).toEqual([
+      { name: 'variant', type: "'primary' | 'secondary'", required: false },
+      { name: 'size', type: "'sm'", required: false },
+      { name: 'loading', type: 'boolean', required: false }
+    ]);
+    expect(component!.codeSnippets.map(snippet => snippet.language)).toEqual(['jsx']);
+    expect(component!.provenance?.props).toEqual({ source: 'heuristic', confidence: 0.5 });
+  });
+
+  it('prefers declared props over JSX usage and names the component as declared', () => {
+    const component = analyzeWithRules(input({
+      headings: ['Icon button'],
+      codeSamples: [{
+        code: [
+          'interface IconButtonProps {',
+          '  /** Accessible label */',
+          '  label: string;',
+          '  size?: number;',
+          '}',
+          'export const IconButton = ({ label, size = 24 }: IconButtonProps) => null;',
+          '<IconButton label="Close" size={16} tone="neutral" />'
+        ].join('\n')
+      }]
+    }));
+
+    expect(component!.name).toBe('IconButton');
+    expect(component!.props.map(({ name, type, required, description }) => ({ name, type, required, description }))).toEqual([
+      { name: 'label', type: 'string', required: true, description: 'Accessible label' },
+      { name: 'size', type: 'number', required: false, description: '' },
+      { name: 'tone', type: "'neutral'", required: false, description: '' }
+    ]);
+    expect(component!.provenance?.props).toEqual({ source: 'heuristic', confidence: 0.8 });
+  });
+
+  it('returns null when only a title names the content', () => {
+    expect(analyzeWithRules(input({
+      title: 'Getting started',
+      headings: ['Getting started'],
+      paragraphs: ['Install the package and import the styles before using any component.']
+    }))).toBeNull();
+  });
+});
+
+describe('propsFromTables', () => {
+  it('keeps the full names of nested table props', () => {
+    const [table] = parsePropTables([{
+      location: { tableIndex: 0, selector: 'table' },
+      rows: [
+        ['Prop', 'Type', 'Default'].map(text => ({ text, header: true, rowSpan: 1, colSpan: 1 })),
+        ['options', 'object', '-'].map(text => ({ text, header: false, rowSpan: 1, colSpan: 1 })),
+        ['↳ size', 'number', '16'].map(text => ({ text, header: false, rowSpan: 1, colSpan: 1 }))
+      ]
+    }]);
+
+    expect(propsFromTables(table.props)).toEqual([
+      { name: 'options', type: 'object', required: false, description: '' },
+      { name: 'options.size', type: 'number', required: false, description: '', defaultValue: '16' }
+    ]);
+  });
+});
+
+describe('analyzePageWithRules', () => {
+  it('reads a component from a chunked page with a prop table', () => {
+    const props: PropCandidate[] = [
+      { name: 'variant', type: "'primary' | 'secondary'", required: false, description: 'Visual style', location: { tableIndex: 0, selector: 'table' } },
+      { name: 'options', type: 'object', required: false, description: 'Options', location: { tableIndex: 0, selector: 'table' } },
+      { name: 'options.size', type: 'number', required: false, description: 'Size', parent: 'options', location: { tableIndex: 0, selector: 'table' } }
+    ];
+    const page: ExtractedPageContent = {
+      id: 'page-button',
+      url: 'https://example.com/docs/button',
+      textContent: '',
+      semanticContent: {
+        headings: [],
+        paragraphs: [],
+        lists: [],
+        altTexts: [],
+        ariaLabels: [],
+        landmarks: [],
+        sections: [{
+          heading: 'Button',
+          level: 1,
+          blocks: [
+            { kind: 'paragraph', text: 'Buttons trigger an action when pressed.' },
+            { kind: 'code', codeSampleIndex: 0 },
+            { kind: 'table', tableIndex: 0 }
+          ],
+          children: []
+        }]
+      },
+      metadata: { title: 'Button' },
+      codeSamples: [{ id: 'code-1', code: '<Button variant="primary" />', language: 'tsx' }],
+      propTables: [{ location: { tableIndex: 0, selector: 'table' }, columns: { name: 'Prop' }, props }],
+      timestamp: '2024-01-01T00:00:00.000Z'
+    };
+
+    const [chunk] = chunkPage(page);
+    expect(ruleInputFromChunk(chunk)).toMatchObject({
+      title: 'Button',
+      headings: ['Button'],
+      paragraphs: ['Buttons trigger an action when pressed.'],
+      codeSamples: [{ code: '<Button variant="primary" />', language: 'tsx' }]
+    });
+
+    const components = analyzePageWithRules(page);
+    expect(components).toHaveLength(1);
+    expect(components[0]).toMatchObject({ name: 'Button', sourceId: 'https://example.com/docs/button' });
+    expect(components[0].props.map(prop => prop.name)).toEqual(['variant', 'options', 'options.size']);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { createUrlRuleMatcher, formatUrlRuleLines, globToRegExp, parseUrlRuleLines, validateUrlRules } from '../urlRules';
+
+describe('globToRegExp', () => {
+  it('matches * within a segment and ** across segments', () => {
+    expect(globToRegExp('/docs/*').test('/docs/button')).toBe(true);
+    expect(globToRegExp('/docs/*').test('/docs/button/usage')).toBe(false);
+    expect(globToRegExp('/docs/**').test('/docs/button/usage')).toBe(true);
+    expect(globToRegExp('/DOCS/*').test('/docs/button')).toBe(true);
+  });
+
+  it('treats every other character literally', () => {
+    expect(globToRegExp('/?path=/story/*').test('/?path=/story/button--primary')).toBe(true);
+    expect(globToRegExp('/v1.0/*').test('/v1x0/button')).toBe(false);
+  });
+});
+
+describe('createUrlRuleMatcher', () => {
+  const matcher = createUrlRuleMatcher({
+    include: [{ pattern: '/docs/**', kind: 'glob' }, { pattern: '^/\\?path=/story/', kind: 'regex' }],
+    exclude: [{ pattern: '/docs/*/changelog', kind: 'glob' }, { pattern: '[?&]print=', kind: 'regex' }]
+  });
+
+  it('allows URLs matching an include rule', () => {
+    expect(matcher('https://example.com/docs/button/usage')).toEqual({ allowed: true });
+    expect(matcher('https://example.com/?path=/story/button--primary')).toEqual({ allowed: true });
+  });
+
+  it('lets exclude rules win over include rules', () => {
+    expect(matcher('https://example.com/docs/button/changelog'))
+      .toEqual({ allowed: false, reason: 'Excluded by /docs/*/changelog' });
+    expect(matcher('https://example.com/docs/button?print=1'))
+      .toEqual({ allowed: false, reason: 'Excluded by re:[?&]print=' });
+  });
+
+  it('rejects URLs matching no include rule, and allows all without rules', () => {
+    expect(matcher('https://docs.example.com/blog')).toEqual({ allowed: false, reason: 'Matches no include rule' });
+    expect(createUrlRuleMatcher()('https://example.com/anything')).toEqual({ allowed: true });
+  });
+});
+
+describe('validateUrlRules', () => {
+  it('keeps valid rules and reports invalid ones', () => {
+    const { rules, errors } = validateUrlRules({
+      include: [{ pattern: '/docs/**', kind: 'glob' }, { pattern: '', kind: 'glob' }],
+      exclude: [{ pattern: '/old', kind: 'prefix' }, { pattern: '(', kind: 'regex' }]
+    });
+
+    expect(rules).toEqual({ include: [{ pattern: '/docs/**', kind: 'glob' }], exclude: [] });
+    expect(errors).toEqual([
+      'urlRules.include[1].pattern must be a non-empty string',
+      'urlRules.exclude[0].kind must be one of: glob, regex',
+      expect.stringMatching(/^urlRules\.exclude\[1\] is not a valid regex: /)
+    ]);
+  });
+
+  it('rejects regexes that repeat a repeating group', () => {
+    const patterns = ['(a+)+$', '^/(?:[\\w-]*/)*docs', '((ab)*c)+', '(x+y){2,}', '(\\d+){1,5}'];
+    const { rules, errors } = validateUrlRules({ exclude: patterns.map(pattern => ({ pattern, kind: 'regex' })) });
+
+    expect(rules.exclude).toEqual([]);
+    expect(errors).toHaveLength(patterns.length);
+    errors.forEach(error => expect(error).toContain('a repeated group may not contain a repetition itself'));
+  });
+
+  it('accepts regexes whose repetitions are not nested', () => {
+    const patterns = ['^/docs/(button|input)+', '(\\d+)-(\\d+)', '(a+)?b', '[(+)]+', '\\(a+\\)+', '(ab){3}c*'];
+    const { rules, errors } = validateUrlRules({ include: patterns.map(pattern => ({ pattern, kind: 'regex' })) });
+
+    expect(errors).toEqual([]);
+    expect(rules.include.map(rule => rule.pattern)).toEqual(patterns);
+  });
+
+  it('limits the length of regexes', () => {
+    const { errors } = validateUrlRules({ include: [{ pattern: `/docs/${'a'.repeat(300)}`, kind: 'regex' }] });
+
+    expect(errors).toEqual(['urlRules.include[0] is not a valid regex: patterns are limited to 256 characters']);
+  });
+});
+
+describe('parseUrlRuleLines', () => {
+  it('reads one rule per line and round-trips through formatUrlRuleLines', () => {
+    const text = '/docs/**\n\n  re: ^/\\?path=/story/  \n/blog/*';
+    const rules = parseUrlRuleLines(text);
+
+    expect(rules).toEqual([
+      { pattern: '/docs/**', kind: 'glob' },
+      { pattern: '^/\\?path=/story/', kind: 'regex' },
+      { pattern: '/blog/*', kind: 'glob' }
+    ]);
+    expect(parseUrlRuleLines(formatUrlRuleLines(rules))).toEqual(rules);
+  });
+});
@@ -0,0 +1,139 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { gzipSync } from 'zlib';
+import type { HTTPResponse } from 'puppeteer';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+type WebArchive = typeof import('../webArchive');
+
+function fakeResponse(url: string, status: number, headers: Record<string, string>, body: string): HTTPResponse {
+  return {
+    url: () => url,
+    status: () => status,
+    statusText: () => (status === 200 ? 'OK' : ''),
+    headers: () => headers,
+    buffer: async () => Buffer.from(body, 'utf8')
+  } as unknown as HTTPResponse;
+}
+
+function warcRecord(headers: string[], block: Buffer): Buffer {
+  const head = ['WARC/1.0', ...headers, `Content-Length: ${block.length}`, '', ''].join('\r\n');
+  return Buffer.concat([Buffer.from(head, 'utf8'), block, Buffer.from('\r\n\r\n', 'utf8')]);
+}
+
+describe('web archives', () => {
+  let dataDir: string;
+  let webArchive: WebArchive;
+
+  beforeAll(async () => {
+    // The data directory is read once, when storage is first imported
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'web-archive-'));
+    process.env.CRAWL_DATA_DIR = dataDir;
+    webArchive = await import('../webArchive');
+  });
+
+  afterAll(async () => {
+    delete process.env.CRAWL_DATA_DIR;
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('replays the responses a crawl recorded', async () => {
+    const crawlId = 'crawl-1700000000000-abc123';
+    const writer = new webArchive.WarcWriter(crawlId, 'test');
+
+    await writer.record(fakeResponse('https://example.com/docs/button', 200, {
+      'content-type': 'text/html; charset=utf-8',
+      'content-encoding': 'gzip',
+      'set-cookie': 'a=1\nb=2'
+    }, '<h1>Button</h1>'));
+    await writer.record(fakeResponse('https://example.com/docs/button#props', 200, {}, 'recorded twice'));
+    await writer.record(fakeResponse('https://example.com/old', 301, { location: '/docs/button' }, 'unread'));
+    await writer.record(fakeResponse('data:text/plain,skipped', 200, {}, 'skipped'));
+    await writer.flush();
+
+    const archive = await webArchive.loadPageArchive(crawlId);
+    const page = await archive.lookup('https://example.com/docs/button#usage');
+    expect(page?.status).toBe(200);
+    expect(page?.body.toString('utf8')).toBe('<h1>Button</h1>');
+    expect(page?.headers).toEqual({ 'content-type': 'text/html; charset=utf-8', 'set-cookie': 'a=1\nb=2' });
+
+    const redirect = await archive.lookup('https://example.com/old');
+    expect(redirect).toEqual({ status: 301, headers: { location: '/docs/button' }, body: Buffer.alloc(0) });
+
+    expect(await archive.lookup('https://example.com/missing')).toBeNull();
+    await expect(webArchive.loadPageArchive('crawl-0-missing')).rejects.toThrow('No recorded archive for crawl crawl-0-missing');
+  });
+
+  it('parses response and resource records of other tools', () => {
+    const html = '<p>Encoded body</p>';
+    const gzipped = gzipSync(Buffer.from(html, 'utf8'));
+    const chunked = Buffer.concat([
+      Buffer.from(`${gzipped.length.toString(16)}\r\n`, 'latin1'),
+      gzipped,
+      Buffer.from('\r\n0\r\n\r\n', 'latin1')
+    ]);
+    const httpHead = [
+      'HTTP/1.1 200 OK',
+      'Content-Type: text/html',
+      'Content-Encoding: gzip',
+      'Transfer-Encoding: chunked',
+      '',
+      ''
+    ].join('\r\n');
+
+    const warc = Buffer.concat([
+      warcRecord(['WARC-Type: warcinfo'], Buffer.from('software: other\r\n', 'utf8')),
+      warcRecord([
+        'WARC-Type: request',
+        'WARC-Target-URI: <https://example.com/page>'
+      ], Buffer.from('GET /page HTTP/1.1\r\n\r\n', 'latin1')),
+      warcRecord([
+        'WARC-Type: response',
+        'WARC-Target-URI: <https://example.com/page>'
+      ], Buffer.concat([Buffer.from(httpHead, 'latin1'), chunked])),
+      warcRecord([
+        'WARC-Type: response',
+        'WARC-Target-URI: https://example.com/page'
+      ], Buffer.from('HTTP/1.1 500 Error\r\n\r\nlater capture', 'latin1')),
+      warcRecord([
+        'WARC-Type: resource',
+        'WARC-Target-URI: https://example.com/logo.svg',
+        'Content-Type: image/svg+xml'
+      ], Buffer.from('<svg/>', 'utf8'))
+    ]);
+
+    const responses = webArchive.parseWarc(warc);
+
+    expect(Array.from(responses.keys())).toEqual(['https://example.com/page', 'https://example.com/logo.svg']);
+    expect(responses.get('https://example.com/page')).toEqual({
+      status: 200,
+      headers: { 'content-type': 'text/html' },
+      body: Buffer.from(html, 'utf8')
+    });
+    expect(responses.get('https://example.com/logo.svg')).toEqual({
+      status: 200,
+      headers: { 'content-type': 'image/svg+xml' },
+      body: Buffer.from('<svg/>', 'utf8')
+    });
+  });
+
+  it('loads gzipped WARC files only under the allowed roots', async () => {
+    const warcPath = path.join(dataDir, 'snapshot.warc.gz');
+    await fs.writeFile(warcPath, gzipSync(warcRecord([
+      'WARC-Type: resource',
+      'WARC-Target-URI: https://example.com/',
+      'Content-Type: text/html'
+    ], Buffer.from('<h1>Home</h1>', 'utf8'))));
+
+    await expect(webArchive.loadPageArchive(warcPath)).rejects.toThrow('SOURCE_REPO_ROOTS');
+
+    process.env.SOURCE_REPO_ROOTS = dataDir;
+    try {
+      const archive = await webArchive.loadPageArchive(warcPath);
+      expect((await archive.lookup('https://example.com/'))?.body.toString('utf8')).toBe('<h1>Home</h1>');
+    } finally {
+      delete process.env.SOURCE_REPO_ROOTS;
+    }
+  });
+});
@@ -0,0 +1,413 @@
+/**
+ * Analysis Jobs
+ *
+ * Background analysis of every chunk of a crawl. A job queues all chunks,
+ * analyses them against the configured LLM provider with bounded
+ * concurrency, and persists its state after each chunk under
+ * `<data dir>/analysis-jobs`, so progress and partial results can be read
+ * while it runs. Jobs can be cancelled, and failed or cancelled chunks
+ * retried. Jobs live in this server process: one that was running when the
+ * server stopped is reported as interrupted and can be retried.
+ */
+
+import { ContentChunk, ExtractedPageContent } from '../types/types';
+import { DEFAULT_CHUNKING_OPTIONS, chunkPages } from './chunking';
+import { AnalyzedComponent, analyzeChunk } from './componentAnalysis';
+import { LlmProvider, createLlmProvider } from './llmProviders';
+import { listDataFiles, readJsonFile, writeJsonFile } from './storage';
+
+const JOB_DIR = 'analysis-jobs';
+const JOB_ID_PATTERN = /^analysis-[a-z0-9-]+$/;
+
+export const DEFAULT_ANALYSIS_CONCURRENCY = 2;
+export const MAX_ANALYSIS_CONCURRENCY = 8;
+export const MAX_ANALYSIS_CHUNKS = 5000;
+export const MIN_CHUNK_TOKENS = 200;
+export const MAX_CHUNK_TOKENS = 3000; // Above this, chunks outgrow the analysis prompt's content limit
+
+export type AnalysisJobStatus = 'running' | 'cancelled' | 'interrupted' | 'failed' | 'complete';
+
+export type AnalysisChunkStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface AnalysisChunkState {
+  chunkId: string;
+  status: AnalysisChunkStatus;
+  runs: number; // Times the chunk was sent for analysis, across retries
+  error?: string;
+  result?: AnalyzedComponent;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface AnalysisJob {
+  jobId: string;
+  status: AnalysisJobStatus;
+  concurrency: number;
+  provider: string;
+  model: string;
+  error?: string;
+  chunks: ContentChunk[];
+  items: AnalysisChunkState[]; // One per chunk, in chunk order
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AnalysisJobProgress {
+  total: number;
+  pending: number;
+  running: number;
+  done: number;
+  failed: number;
+  cancelled: number;
+}
+
+export interface AnalysisJobSummary {
+  jobId: string;
+  status: AnalysisJobStatus;
+  provider: string;
+  model: string;
+  error?: string;
+  progress: AnalysisJobProgress;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ActiveJob {
+  controller: AbortController;
+  finished?: Promise<AnalysisJob>; // Set once the job's workers are started
+}
+
+// Jobs running, or being restarted, in this process
+const activeJobs = new Map<string, ActiveJob>();
+
+export function createAnalysisJobId(): string {
+  return `analysis-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function isValidAnalysisJobId(jobId: unknown): jobId is string {
+  return typeof jobId === 'string' && JOB_ID_PATTERN.test(jobId);
+}
+
+/**
+ * Validate the body of an analysis request: the chunks to analyse, or
+ * extracted pages to chunk along their sections (with an optional token
+ * budget per chunk), and an optional concurrency
+ */
+export function validateAnalysisRequest(body: unknown): { chunks: ContentChunk[]; concurrency: number; errors: string[] } {
+  const errors: string[] = [];
+  const raw = typeof body === 'object' && body !== null && !Array.isArray(body) ? body as Record<string, unknown> : {};
+  let concurrency = DEFAULT_ANALYSIS_CONCURRENCY;
+
+  if (raw.concurrency !== undefined) {
+    if (typeof raw.concurrency !== 'number' || !Number.isInteger(raw.concurrency)
+      || raw.concurrency < 1 || raw.concurrency > MAX_ANALYSIS_CONCURRENCY) {
+      errors.push(`concurrency must be an integer between 1 and ${MAX_ANALYSIS_CONCURRENCY}`);
+    } else {
+      concurrency = raw.concurrency;
+    }
+  }
+
+  if (raw.pages !== undefined) {
+    return { chunks: readPages(raw, errors), concurrency, errors };
+  }
+
+  if (!Array.isArray(raw.chunks) || raw.chunks.length === 0 || raw.chunks.length > MAX_ANALYSIS_CHUNKS) {
+    errors.push(`chunks (or pages) must be a non-empty array of at most ${MAX_ANALYSIS_CHUNKS} chunks`);
+    return { chunks: [], concurrency, errors };
+  }
+
+  const chunks: ContentChunk[] = [];
+  raw.chunks.forEach((chunk, index) => {
+    const candidate = chunk as Partial<ContentChunk> | null;
+    if (typeof candidate?.id !== 'string' || typeof candidate.content !== 'string') {
+      errors.push(`chunks[${index}] must have a string id and content`);
+      return;
+    }
+    chunks.push({
+      id: candidate.id,
+      content: candidate.content,
+      type: candidate.type ?? 'html',
+      metadata: typeof candidate.metadata === 'object' && candidate.metadata !== null ? candidate.metadata : {}
+    });
+  });
+
+  return { chunks, concurrency, errors };
+}
+
+function readPages(raw: Record<string, unknown>, errors: string[]): ContentChunk[] {
+  if (raw.chunks !== undefined) {
+    errors.push('Send either chunks or pages, not both');
+  }
+
+  let maxTokens = DEFAULT_CHUNKING_OPTIONS.maxTokens;
+  if (raw.maxTokens !== undefined) {
+    if (typeof raw.maxTokens !== 'number' || !Number.isInteger(raw.maxTokens)
+      || raw.maxTokens < MIN_CHUNK_TOKENS || raw.maxTokens > MAX_CHUNK_TOKENS) {
+      errors.push(`maxTokens must be an integer between ${MIN_CHUNK_TOKENS} and ${MAX_CHUNK_TOKENS}`);
+    } else {
+      maxTokens = raw.maxTokens;
+    }
+  }
+
+  if (!Array.isArray(raw.pages) || raw.pages.length === 0) {
+    errors.push('pages must be a non-empty array of extracted pages');
+    return [];
+  }
+
+  const pages: ExtractedPageContent[] = [];
+  raw.pages.forEach((page, index) => {
+    const candidate = page as Partial<ExtractedPageContent> | null;
+    if (typeof candidate?.id !== 'string' || typeof candidate.url !== 'string'
+      || typeof candidate.semanticContent !== 'object' || candidate.semanticContent === null
+      || !Array.isArray(candidate.codeSamples)) {
+      errors.push(`pages[${index}] must be an extracted page with id, url, semanticContent and codeSamples`);
+      return;
+    }
+    pages.push(candidate as ExtractedPageContent);
+  });
+  if (errors.length > 0) return [];
+
+  const chunks = chunkPages(pages, { maxTokens });
+  if (chunks.length === 0 || chunks.length > MAX_ANALYSIS_CHUNKS) {
+    errors.push(`pages must yield between 1 and ${MAX_ANALYSIS_CHUNKS} chunks, got ${chunks.length}`);
+  }
+  return chunks;
+}
+
+function jobFile(jobId: string): string {
+  if (!isValidAnalysisJobId(jobId)) {
+    throw new Error(`Invalid analysis job id: ${jobId}`);
+  }
+  return `${jobId}.json`;
+}
+
+async function saveAnalysisJob(job: AnalysisJob): Promise<void> {
+  await writeJsonFile({ ...job, updatedAt: new Date().toISOString() }, JOB_DIR, jobFile(job.jobId));
+}
+
+/**
+ * Whether a job is running, or being restarted, in this process
+ */
+export function isAnalysisJobActive(jobId: string): boolean {
+  return activeJobs.has(jobId);
+}
+
+/**
+ * Load a job. A job saved as running that is not running in this process
+ * was cut short by a restart and is reported as interrupted.
+ */
+export async function loadAnalysisJob(jobId: string): Promise<AnalysisJob | null> {
+  const job = await readJsonFile<AnalysisJob>(JOB_DIR, jobFile(jobId));
+  if (job?.status === 'running' && !activeJobs.has(jobId)) {
+    return { ...job, status: 'interrupted' };
+  }
+  return job;
+}
+
+export function summarizeAnalysisJob(job: AnalysisJob): AnalysisJobSummary {
+  const progress: AnalysisJobProgress = { total: job.items.length, pending: 0, running: 0, done: 0, failed: 0, cancelled: 0 };
+  job.items.forEach(item => progress[item.status]++);
+
+  return {
+    jobId: job.jobId,
+    status: job.status,
+    provider: job.provider,
+    model: job.model,
+    error: job.error,
+    progress,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt
+  };
+}
+
+export async function listAnalysisJobs(): Promise<AnalysisJobSummary[]> {
+  const files = await listDataFiles(JOB_DIR);
+  const jobs = await Promise.all(
+    files
+      .filter(file => file.endsWith('.json'))
+      .map(file => loadAnalysisJob(file.replace(/\.json$/, '')).catch(() => null))
+  );
+
+  return jobs
+    .filter((job): job is AnalysisJob => job !== null)
+    .map(summarizeAnalysisJob)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Analyse the job's pending chunks until none are left or the job is
+ * cancelled. State is saved after every chunk.
+ */
+async function runAnalysisJob(job: AnalysisJob, controller: AbortController): Promise<AnalysisJob> {
+  // Saves are serialized; each one snapshots the state at call time
+  let pendingSave: Promise<void> = Promise.resolve();
+  const persist = () => {
+    const snapshot: AnalysisJob = { ...job, items: job.items.map(item => ({ ...item })) };
+    pendingSave = pendingSave
+      .then(() => saveAnalysisJob(snapshot))
+      .catch(error => console.error(`Failed to save analysis job ${job.jobId}:`, error));
+    return pendingSave;
+  };
+
+  const queue = job.items.map((item, index) => ({ item, index })).filter(({ item }) => item.status === 'pending');
+  const worker = async (provider: LlmProvider) => {
+    for (let next = queue.shift(); next && !controller.signal.aborted; next = queue.shift()) {
+      const { item, index } = next;
+      item.status = 'running';
+      item.runs++;
+      item.startedAt = new Date().toISOString();
+      item.error = undefined;
+      persist();
+
+      try {
+        item.result = await analyzeChunk(provider, job.chunks[index], { signal: controller.signal });
+        // A chunk the model could not analyse is kept with what the page states, but counted as failed
+        item.status = item.result.metadata.source === 'llm' ? 'done' : 'failed';
+        if (item.status === 'failed') item.error = String(item.result.metadata.analysisErrors || 'Analysis failed');
+      } catch (error) {
+        item.status = controller.signal.aborted ? 'cancelled' : 'failed';
+        item.error = error instanceof Error ? error.message : String(error);
+      }
+      item.finishedAt = new Date().toISOString();
+      console.log(`Analysis job ${job.jobId}: chunk ${index + 1}/${job.items.length} ${item.status}`);
+      persist();
+    }
+  };
+
+  try {
+    // The provider is configured per environment, so a retry picks up the current one
+    const provider = createLlmProvider();
+    job.provider = provider.name;
+    job.model = provider.model;
+
+    await Promise.all(Array.from({ length: Math.min(job.concurrency, queue.length) }, () => worker(provider)));
+
+    if (controller.signal.aborted) {
+      job.items.filter(item => item.status === 'pending').forEach(item => { item.status = 'cancelled'; });
+      job.status = 'cancelled';
+    } else {
+      job.status = 'complete';
+    }
+  } catch (error) {
+    console.error(`Analysis job ${job.jobId} failed:`, error);
+    job.status = 'failed';
+    job.error = error instanceof Error ? error.message : String(error);
+  } finally {
+    activeJobs.delete(job.jobId);
+  }
+
+  await persist();
+  console.log(`Analysis job ${job.jobId} ${job.status}: ${JSON.stringify(summarizeAnalysisJob(job).progress)}`);
+  return job;
+}
+
+function launchAnalysisJob(
+  job: AnalysisJob,
+  active: ActiveJob = { controller: new AbortController() }
+): { job: AnalysisJob; finished: Promise<AnalysisJob> } {
+  activeJobs.set(job.jobId, active);
+  job.status = 'running';
+  job.error = undefined;
+
+  const finished = runAnalysisJob(job, active.controller);
+  active.finished = finished;
+  return { job, finished };
+}
+
+/**
+ * Queue every chunk for analysis and start working through them in the
+ * background. `finished` settles once the job stops, for callers that want
+ * to wait for it.
+ */
+export async function startAnalysisJob(
+  chunks: ContentChunk[],
+  { concurrency = DEFAULT_ANALYSIS_CONCURRENCY }: { concurrency?: number } = {}
+): Promise<{ job: AnalysisJob; finished: Promise<AnalysisJob> }> {
+  const now = new Date().toISOString();
+  const provider = createLlmProvider();
+  const job: AnalysisJob = {
+    jobId: createAnalysisJobId(),
+    status: 'running',
+    concurrency,
+    provider: provider.name,
+    model: provider.model,
+    chunks,
+    items: chunks.map(chunk => ({ chunkId: chunk.id, status: 'pending', runs: 0 })),
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await saveAnalysisJob(job);
+  console.log(`Started analysis job ${job.jobId} of ${chunks.length} chunks (concurrency ${concurrency})`);
+  return launchAnalysisJob(job);
+}
+
+/**
+ * Stop a running job and wait for it to stop. Chunks being analysed are
+ * abandoned and, like the queued ones, marked cancelled.
+ */
+export async function cancelAnalysisJob(jobId: string): Promise<AnalysisJob | null> {
+  const active = activeJobs.get(jobId);
+  if (active) {
+    active.controller.abort();
+    if (active.finished) return active.finished;
+
+    // A retry still preparing the job starts it already aborted, so it ends cancelled
+    const job = await loadAnalysisJob(jobId);
+    return job && { ...job, status: 'cancelled' };
+  }
+
+  const job = await loadAnalysisJob(jobId);
+  if (job && job.status === 'interrupted') {
+    job.items.filter(item => item.status === 'pending' || item.status === 'running').forEach(item => { item.status = 'cancelled'; });
+    job.status = 'cancelled';
+    await saveAnalysisJob(job);
+  }
+  return job;
+}
+
+/**
+ * Queue failed and cancelled chunks (or only `chunkIds`) again and restart
+ * the job. Chunks an interrupted job never finished are always re-queued.
+ */
+export async function retryAnalysisJob(
+  jobId: string,
+  chunkIds?: string[]
+): Promise<{ job: AnalysisJob; finished: Promise<AnalysisJob> } | null> {
+  if (activeJobs.has(jobId)) {
+    throw new Error(`Analysis job ${jobId} is still running`);
+  }
+  // Claimed before the first await, so a concurrent retry of the same job is refused
+  const active: ActiveJob = { controller: new AbortController() };
+  activeJobs.set(jobId, active);
+
+  try {
+    const job = await loadAnalysisJob(jobId);
+    if (!job) {
+      activeJobs.delete(jobId);
+      return null;
+    }
+
+    const selected = chunkIds ? new Set(chunkIds) : null;
+    job.items.forEach(item => {
+      const retryable = item.status === 'failed' || item.status === 'cancelled';
+      if (item.status === 'running' || (retryable && (!selected || selected.has(item.chunkId)))) {
+        item.status = 'pending';
+      }
+    });
+
+    await saveAnalysisJob(job);
+    console.log(`Retrying analysis job ${jobId}: ${job.items.filter(item => item.status === 'pending').length} chunks queued`);
+    return launchAnalysisJob(job, active);
+  } catch (error) {
+    activeJobs.delete(jobId);
+    throw error;
+  }
+}
+
+/**
+ * Components analysed so far, in chunk order
+ */
+export function getAnalysisResults(job: AnalysisJob): AnalyzedComponent[] {
+  return job.items.flatMap(item => item.result ? [item.result] : []);
+}
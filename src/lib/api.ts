@@ -1,6 +1,7 @@
-import { DesignSystemSource, Component, CrawlProgress } from '../types/types';
+import { DesignSystemSource, Component, CrawlProgress, ExtractedPageContent } from '../types/types';
+import { chunkPages } from './chunking';
 
-export type SourceStatus = 'idle' | 'crawling' | 'analyzing' | 'complete' | 'error';
+export type SourceStatus = 'idle' | 'crawling' | 'analyzing' | 'complete' | 'error' | 'auth-failed';
 
 export interface ContentChunk {
   id: string;
@@ -9,36 +10,49 @@ export interface ContentChunk {
   metadata?: Record<string, unknown>;
 }
 
+/** Error from an API route, keeping its machine-readable code (e.g. 'auth-failed'). */
+export class ApiError extends Error {
+  constructor(message: string, public status: number, public code?: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Crawl a stored source with its own URL rules and split the pages into
+ * analysis chunks
+ */
 export async function crawlDesignSystemSource(
   source: DesignSystemSource,
   onProgress: (progress: CrawlProgress) => void
 ): Promise<ContentChunk[]> {
   try {
-    const response = await fetch('/api/crawl', {
+    const response = await fetch('/api/crawl-enhanced', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        sourceId: source.id,
         url: source.url,
+        options: { urlRules: source.urlRules },
       }),
     });
-    
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || 'Failed to crawl design system');
+
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+      throw new ApiError(data.message || data.error || 'Failed to crawl design system', response.status, data.code);
     }
 
-    // Mock progress updates
+    const pages: ExtractedPageContent[] = data.pages ?? [];
     onProgress({
       sourceId: source.id,
-      pagesProcessed: 1,
-      totalPages: 1,
+      crawlId: data.crawlId,
+      pagesProcessed: pages.length,
+      totalPages: pages.length,
       currentPage: source.url
     });
-    
-    return response.json();
+
+    return chunkPages(pages);
   } catch (error) {
     console.error('Error crawling design system:', error);
     throw error;
@@ -110,7 +124,8 @@ export async function processDesignSystem(
     // Update status to complete
     onUpdateSource('complete');
   } catch (error) {
-    onUpdateSource('error', error instanceof Error ? error.message : 'Unknown error occurred');
+    const status = error instanceof ApiError && error.code === 'auth-failed' ? 'auth-failed' : 'error';
+    onUpdateSource(status, error instanceof Error ? error.message : 'Unknown error occurred');
     throw error;
   }
 }
@@ -0,0 +1,313 @@
+/**
+ * Chunking
+ *
+ * Splits extracted pages into analysis input along their section tree, so
+ * each LLM call sees one complete component or section instead of an
+ * arbitrary slice of text. A section that fits the token budget is kept
+ * whole with its subsections; a larger one is split into its own blocks
+ * and its subsections. A code sample always travels with the paragraph
+ * introducing it, and oversized prop tables are split between rows with
+ * the header repeated. Every chunk records where it came from: page URL
+ * and heading path.
+ */
+
+import { CodeSample, ContentChunk, ContentSection, ExtractedPageContent, PropCandidate, PropTable, SectionBlock } from '../types/types';
+
+export interface ChunkingOptions {
+  maxTokens: number; // Budget per chunk, estimated
+}
+
+export const DEFAULT_CHUNKING_OPTIONS: ChunkingOptions = {
+  maxTokens: 2500 // ~10k characters, within the analysis prompt's content limit
+};
+
+// Rough average for English prose and code; good enough for a budget
+const CHARS_PER_TOKEN = 4;
+const CONTEXT_RESERVE_CHARS = 300;
+
+// Text rendered for one section, or a part of one, with what it references
+interface ChunkPart {
+  headingPath: string[];
+  sectionId?: string;
+  frameUrl?: string;
+  text: string;
+  codeSamples: CodeSample[];
+  props: PropCandidate[];
+  truncated?: boolean; // Set when an oversized paragraph or list was cut to the budget
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function renderHeading(section: ContentSection): string {
+  return section.heading ? `${'#'.repeat(Math.min(Math.max(section.level, 1), 6))} ${section.heading}` : '';
+}
+
+function renderCode(sample: CodeSample): string {
+  const language = sample.language || sample.detectedLanguage || '';
+  return `\`\`\`${language}\n${sample.code.trimEnd()}\n\`\`\``;
+}
+
+/**
+ * Render a code sample as fenced parts within the budget, split between
+ * lines. Lines longer than the budget (minified code) are wrapped.
+ */
+function renderCodeParts(sample: CodeSample, maxChars: number): string[] {
+  const whole = renderCode(sample);
+  if (whole.length <= maxChars) return [whole];
+
+  const language = sample.language || sample.detectedLanguage || '';
+  const budget = Math.max(1, maxChars - `\`\`\`${language}\n\n\`\`\``.length);
+  const lines = sample.code.trimEnd().split('\n').flatMap(line => {
+    const pieces: string[] = [];
+    for (let start = 0; start < line.length; start += budget) pieces.push(line.slice(start, start + budget));
+    return pieces.length > 0 ? pieces : [''];
+  });
+
+  const parts: string[][] = [];
+  let current: string[] = [];
+  let length = 0;
+  lines.forEach(line => {
+    if (current.length > 0 && length + 1 + line.length > budget) {
+      parts.push(current);
+      current = [];
+      length = 0;
+    }
+    length += (current.length > 0 ? 1 : 0) + line.length;
+    current.push(line);
+  });
+  if (current.length > 0) parts.push(current);
+
+  return parts.map(part => `\`\`\`${language}\n${part.join('\n')}\n\`\`\``);
+}
+
+function renderTableRows(table: PropTable, props: PropCandidate[]): string {
+  const rows = props.map(prop => `| ${[
+    prop.name,
+    prop.type,
+    prop.defaultValue ?? '',
+    prop.required ? 'yes' : 'no',
+    prop.description
+  ].map(cell => cell.replace(/\|/g, '\\|').replace(/\s+/g, ' ')).join(' | ')} |`);
+  return ['| Prop | Type | Default | Required | Description |', '| --- | --- | --- | --- | --- |', ...rows].join('\n');
+}
+
+/**
+ * Render a section's own blocks as Markdown units that must not be split:
+ * a code sample is bound to the paragraph just before it, and a code
+ * sample or table is split, by lines or rows, only when it alone is over
+ * budget.
+ */
+function renderBlocks(
+  blocks: SectionBlock[],
+  page: ExtractedPageContent,
+  tables: Map<number, PropTable>,
+  maxChars: number
+): Array<Pick<ChunkPart, 'text' | 'codeSamples' | 'props'>> {
+  const units: Array<Pick<ChunkPart, 'text' | 'codeSamples' | 'props'>> = [];
+
+  blocks.forEach((block, index) => {
+    if (block.kind === 'paragraph') {
+      // Joined below with a code sample that directly follows
+      units.push({ text: block.text, codeSamples: [], props: [] });
+    } else if (block.kind === 'list') {
+      const marker = (position: number) => block.listType === 'ol' ? `${position + 1}.` : '-';
+      units.push({ text: block.items.map((item, position) => `${marker(position)} ${item}`).join('\n'), codeSamples: [], props: [] });
+    } else if (block.kind === 'code') {
+      const sample = page.codeSamples[block.codeSampleIndex];
+      if (!sample) return;
+      const parts = renderCodeParts(sample, maxChars);
+      const previous = units[units.length - 1];
+      if (parts.length === 1 && previous && blocks[index - 1]?.kind === 'paragraph' && previous.codeSamples.length === 0) {
+        units[units.length - 1] = { ...previous, text: `${previous.text}\n\n${parts[0]}`, codeSamples: [sample] };
+      } else {
+        // Every part of a split sample refers to it
+        units.push(...parts.map(text => ({ text, codeSamples: [sample], props: [] })));
+      }
+    } else {
+      const table = tables.get(block.tableIndex);
+      if (!table || table.props.length === 0) return;
+      // Header rows are repeated, so each part of a split table reads on its own
+      const rowChars = Math.max(1, Math.ceil(renderTableRows(table, table.props).length / table.props.length));
+      const rowsPerPart = Math.max(1, Math.floor(maxChars / rowChars) - 2);
+      for (let start = 0; start < table.props.length; start += rowsPerPart) {
+        const props = table.props.slice(start, start + rowsPerPart);
+        units.push({ text: renderTableRows(table, props), codeSamples: [], props });
+      }
+    }
+  });
+
+  return units;
+}
+
+function renderSection(
+  section: ContentSection,
+  page: ExtractedPageContent,
+  tables: Map<number, PropTable>,
+  maxChars: number
+): Pick<ChunkPart, 'text' | 'codeSamples' | 'props'> {
+  const own = renderBlocks(section.blocks, page, tables, maxChars);
+  const children = section.children.map(child => renderSection(child, page, tables, maxChars));
+  const parts = [...own, ...children];
+  return {
+    text: [renderHeading(section), ...parts.map(part => part.text)].filter(Boolean).join('\n\n'),
+    codeSamples: parts.flatMap(part => part.codeSamples),
+    props: parts.flatMap(part => part.props)
+  };
+}
+
+/**
+ * Walk the section tree, keeping whole any section that fits the budget
+ */
+function collectParts(
+  section: ContentSection,
+  parentPath: string[],
+  page: ExtractedPageContent,
+  tables: Map<number, PropTable>,
+  maxChars: number,
+  parts: ChunkPart[]
+): void {
+  const headingPath = section.heading ? [...parentPath, section.heading] : parentPath;
+  const where = { headingPath, sectionId: section.id, frameUrl: section.frameUrl };
+
+  const whole = renderSection(section, page, tables, maxChars);
+  if (whole.text.length <= maxChars) {
+    if (whole.text.trim()) parts.push({ ...where, ...whole });
+    return;
+  }
+
+  // Pack the section's own blocks under its heading, then descend; a unit
+  // split to the budget leaves room for the heading in front of it
+  const heading = renderHeading(section);
+  const unitChars = heading ? Math.max(1, maxChars - heading.length - 2) : maxChars;
+  let current: ChunkPart | null = null;
+  for (const unit of renderBlocks(section.blocks, page, tables, unitChars)) {
+    if (current && current.text.length + unit.text.length + 2 <= maxChars) {
+      current.text = `${current.text}\n\n${unit.text}`;
+      current.codeSamples.push(...unit.codeSamples);
+      current.props.push(...unit.props);
+      continue;
+    }
+    if (current) parts.push(current);
+    // Only a single oversized paragraph or list is ever cut
+    const text = [heading, unit.text].filter(Boolean).join('\n\n');
+    current = {
+      ...where,
+      text: text.slice(0, maxChars),
+      codeSamples: [...unit.codeSamples],
+      props: [...unit.props],
+      ...(text.length > maxChars ? { truncated: true } : {})
+    };
+  }
+  if (current) parts.push(current);
+
+  section.children.forEach(child => collectParts(child, headingPath, page, tables, maxChars, parts));
+}
+
+/**
+ * Sections of a page that has none recorded (older crawls), or none with
+ * any text: one untitled section holding its paragraphs, lists and code
+ * samples
+ */
+function fallbackSections(page: ExtractedPageContent): ContentSection[] {
+  const blocks: SectionBlock[] = [
+    ...page.semanticContent.paragraphs.map(text => ({ kind: 'paragraph' as const, text })),
+    ...page.semanticContent.lists.map(list => ({ kind: 'list' as const, listType: list.type, items: list.items })),
+    ...page.codeSamples.map((_, codeSampleIndex) => ({ kind: 'code' as const, codeSampleIndex })),
+    ...(page.propTables ?? []).map(table => ({ kind: 'table' as const, tableIndex: table.location.tableIndex }))
+  ];
+  if (blocks.length === 0 && page.textContent.trim()) {
+    blocks.push({ kind: 'paragraph', text: page.textContent.trim() });
+  }
+  return [{ heading: '', level: 0, blocks, children: [] }];
+}
+
+/**
+ * Blocks for the code samples and prop tables no recorded section refers
+ * to, e.g. ones inside markup the section tree does not descend into
+ */
+function unreferencedBlocks(page: ExtractedPageContent, sections: ContentSection[]): SectionBlock[] {
+  const codeIndexes = new Set<number>();
+  const tableIndexes = new Set<number>();
+  const collect = (section: ContentSection) => {
+    section.blocks.forEach(block => {
+      if (block.kind === 'code') codeIndexes.add(block.codeSampleIndex);
+      if (block.kind === 'table') tableIndexes.add(block.tableIndex);
+    });
+    section.children.forEach(collect);
+  };
+  sections.forEach(collect);
+
+  return [
+    ...page.codeSamples
+      .map((_, codeSampleIndex) => ({ kind: 'code' as const, codeSampleIndex }))
+      .filter(block => !codeIndexes.has(block.codeSampleIndex)),
+    ...(page.propTables ?? [])
+      .map(table => ({ kind: 'table' as const, tableIndex: table.location.tableIndex }))
+      .filter(block => !tableIndexes.has(block.tableIndex))
+  ];
+}
+
+/**
+ * Split a page into analysis chunks along its sections
+ */
+export function chunkPage(page: ExtractedPageContent, options: Partial<ChunkingOptions> = {}): ContentChunk[] {
+  const { maxTokens } = { ...DEFAULT_CHUNKING_OPTIONS, ...options };
+  // Room for the page and section line that split pages get in front of each chunk
+  const maxChars = maxTokens * CHARS_PER_TOKEN - CONTEXT_RESERVE_CHARS;
+  const tables = new Map((page.propTables ?? []).map(table => [table.location.tableIndex, table]));
+  const sections = page.semanticContent.sections ?? [];
+
+  const parts: ChunkPart[] = [];
+  sections.forEach(section => collectParts(section, [], page, tables, maxChars, parts));
+  if (parts.length === 0) {
+    // No sections recorded, or none that render any text
+    fallbackSections(page).forEach(section => collectParts(section, [], page, tables, maxChars, parts));
+  } else {
+    // Code and tables outside the section tree still reach analysis, after the sections
+    const rest = unreferencedBlocks(page, sections);
+    if (rest.length > 0) collectParts({ heading: '', level: 0, blocks: rest, children: [] }, [], page, tables, maxChars, parts);
+  }
+
+  const context = (part: ChunkPart) => parts.length === 1
+    ? ''
+    : [
+      page.metadata.title && `Page: ${page.metadata.title}`,
+      part.headingPath.length > 0 && `Section: ${part.headingPath.join(' > ')}`
+    ].filter(Boolean).join('\n').slice(0, CONTEXT_RESERVE_CHARS - 2);
+
+  return parts.map((part, index) => ({
+    id: parts.length === 1 ? page.id : `${page.id}-chunk-${index + 1}`,
+    content: [context(part), part.text].filter(Boolean).join('\n\n'),
+    type: 'markdown' as const,
+    metadata: {
+      sourceUrl: page.url,
+      pageId: page.id,
+      title: page.metadata.title,
+      section: part.headingPath[part.headingPath.length - 1],
+      description: page.metadata.description,
+      headingPath: part.headingPath,
+      sectionId: part.sectionId,
+      frameUrl: part.frameUrl,
+      chunkIndex: index,
+      chunkCount: parts.length,
+      tokenEstimate: estimateTokens(context(part)) + estimateTokens(part.text),
+      codeSamples: part.codeSamples.length,
+      codeSampleIds: part.codeSamples.map(sample => sample.id),
+      propCandidates: part.props,
+      ...(part.truncated ? { truncated: true } : {}),
+      timestamp: page.timestamp
+    }
+  }));
+}
+
+/**
+ * Chunk every page that was extracted; pages with only non-fatal errors
+ * (a failed screenshot, say) are kept
+ */
+export function chunkPages(pages: ExtractedPageContent[], options: Partial<ChunkingOptions> = {}): ContentChunk[] {
+  return pages
+    .filter(page => !page.failed)
+    .flatMap(page => chunkPage(page, options));
+}
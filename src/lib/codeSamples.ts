@@ -0,0 +1,123 @@
+/**
+ * Code Samples
+ *
+ * Content-derived ids and de-duplication for extracted code samples. The
+ * same snippet gets the same id on every page and in every crawl, so
+ * repeats can be collapsed within a page and across a whole crawl.
+ */
+
+import hljs from 'highlight.js';
+import { CodeSample, ContentSection, ExtractedPageContent, SectionBlock } from '../types/types';
+import { hashContent } from './pageCache';
+
+/**
+ * Stable id of a snippet. Line endings, trailing whitespace and surrounding
+ * blank lines do not change it; indentation and line breaks do, since they
+ * matter in Python, YAML or Markdown.
+ */
+export function getCodeSampleId(code: string): string {
+  const normalized = code
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .replace(/^\n+|\n+$/g, '');
+  return `code-${hashContent(normalized).slice(0, 16)}`;
+}
+
+/**
+ * Guess the language of a sample that was not labelled with one. Short
+ * snippets and low-relevance guesses are left undetected.
+ */
+export function detectCodeLanguage(code: string): { detectedLanguage?: string; confidence: number } {
+  if (code.length <= 20) return { confidence: 0 };
+
+  try {
+    const highlighted = hljs.highlightAuto(code);
+    if (highlighted.language && highlighted.relevance > 5) {
+      return { detectedLanguage: highlighted.language, confidence: highlighted.relevance / 100 };
+    }
+  } catch (error) {
+    console.warn('Language detection failed:', error);
+  }
+  return { confidence: 0 };
+}
+
+/**
+ * Point section code blocks at the new positions of their samples, dropping
+ * blocks whose sample was removed
+ */
+export function remapSectionCodeSamples(sections: ContentSection[], indexMap: Array<number | null>): ContentSection[] {
+  return sections.map(section => ({
+    ...section,
+    blocks: section.blocks.flatMap((block): SectionBlock[] => {
+      if (block.kind !== 'code') return [block];
+      const codeSampleIndex = indexMap[block.codeSampleIndex];
+      return codeSampleIndex === null || codeSampleIndex === undefined ? [] : [{ ...block, codeSampleIndex }];
+    }),
+    children: remapSectionCodeSamples(section.children, indexMap)
+  }));
+}
+
+/**
+ * Collapse samples with the same id, keeping the first. `indexMap` gives the
+ * new index of every original sample, or null for a dropped repeat.
+ */
+export function dedupeCodeSamples(samples: CodeSample[]): { samples: CodeSample[]; indexMap: Array<number | null> } {
+  const kept: CodeSample[] = [];
+  const ids = new Set<string>();
+
+  const indexMap = samples.map(sample => {
+    if (ids.has(sample.id)) return null;
+
+    ids.add(sample.id);
+    kept.push(sample);
+    return kept.length - 1;
+  });
+
+  return { samples: kept, indexMap };
+}
+
+/**
+ * Keep each snippet only on the first page it appears on. Later pages lose
+ * their copy (and the section blocks pointing at it); the kept sample lists
+ * those pages in `alsoFoundOn`.
+ */
+export function dedupeCrawlCodeSamples(pages: ExtractedPageContent[]): ExtractedPageContent[] {
+  const firstSeen = new Map<string, CodeSample>();
+
+  return pages.map(page => {
+    const indexMap: Array<number | null> = [];
+    const samples: CodeSample[] = [];
+
+    page.codeSamples.forEach(sample => {
+      // Recomputed so pages reused from older crawls get content-derived ids too
+      const id = getCodeSampleId(sample.code);
+      const original = firstSeen.get(id);
+      if (original) {
+        if (!original.alsoFoundOn?.includes(page.url)) {
+          original.alsoFoundOn = [...(original.alsoFoundOn ?? []), page.url];
+        }
+        indexMap.push(null);
+        return;
+      }
+
+      const copy = { ...sample, id };
+      firstSeen.set(id, copy);
+      indexMap.push(samples.length);
+      samples.push(copy);
+    });
+
+    if (samples.length === page.codeSamples.length) {
+      return { ...page, codeSamples: samples };
+    }
+
+    return {
+      ...page,
+      codeSamples: samples,
+      semanticContent: page.semanticContent.sections
+        ? { ...page.semanticContent, sections: remapSectionCodeSamples(page.semanticContent.sections, indexMap) }
+        : page.semanticContent
+    };
+  });
+}
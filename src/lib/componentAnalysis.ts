@@ -0,0 +1,384 @@
+/**
+ * Component Analysis
+ *
+ * Structured component output from an LLM. Every reply is checked against
+ * a strict schema mirroring Component/ComponentProp; an invalid reply is sent
+ * back to the model with the validation errors for a bounded number of
+ * repair attempts. Nothing is made up when the model fails: the caller gets
+ * null and the errors, and chunk analysis falls back to the rule-based
+ * baseline (see ruleBasedAnalyzer).
+ */
+
+import { CodeSnippet, Component, ComponentProp, ContentChunk, FieldProvenance } from '../types/types';
+import { LlmProvider } from './llmProviders';
+import { analyzeWithRules, ruleInputFromChunk } from './ruleBasedAnalyzer';
+
+export interface ComponentAnalysis {
+  componentName: string;
+  description: string;
+  props: ComponentProp[];
+}
+
+// A component as returned by /api/analyze, before it is assigned to a source
+export type AnalyzedComponent = Omit<Component, 'sourceId' | 'codeSnippets'> & {
+  codeSnippets: Array<CodeSnippet & { language: string }>;
+};
+
+export interface ComponentAnalysisOptions {
+  maxRepairs?: number;
+  maxContentChars?: number;
+  signal?: AbortSignal;
+}
+
+export interface ComponentAnalysisResult {
+  analysis: ComponentAnalysis | null;
+  attempts: number;
+  errors: string[]; // Validation errors of the last reply, or the provider error
+}
+
+const DEFAULT_MAX_CONTENT_CHARS = 12000;
+const MAX_REPLY_ECHO_CHARS = 4000;
+const MAX_NAME_LENGTH = 120;
+const MAX_DESCRIPTION_LENGTH = 2000;
+const MAX_PROPS = 100;
+const DEFAULT_MAX_REPAIRS = 2;
+
+// Valid for strict structured outputs: every property is required (a missing
+// default is null) and string lengths are left to validateComponentAnalysis
+export const COMPONENT_ANALYSIS_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['componentName', 'description', 'props'],
+  properties: {
+    componentName: { type: 'string' },
+    description: { type: 'string' },
+    props: {
+      type: 'array',
+      maxItems: MAX_PROPS,
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['name', 'type', 'required', 'description', 'defaultValue'],
+        properties: {
+          name: { type: 'string' },
+          type: { type: 'string' },
+          required: { type: 'boolean' },
+          description: { type: 'string' },
+          defaultValue: { type: ['string', 'null'] }
+        }
+      }
+    }
+  }
+};
+
+const ANALYSIS_FIELDS = new Set(Object.keys(COMPONENT_ANALYSIS_SCHEMA.properties));
+const PROP_FIELDS = new Set(Object.keys(COMPONENT_ANALYSIS_SCHEMA.properties.props.items.properties));
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check a parsed reply against COMPONENT_ANALYSIS_SCHEMA. Errors are human
+ * readable, since they are also shown to the model when asking for a repair.
+ */
+export function validateComponentAnalysis(value: unknown): { analysis: ComponentAnalysis | null; errors: string[] } {
+  if (!isPlainObject(value)) {
+    return { analysis: null, errors: ['The reply must be a JSON object'] };
+  }
+
+  const errors: string[] = [];
+  Object.keys(value)
+    .filter(key => !ANALYSIS_FIELDS.has(key))
+    .forEach(key => errors.push(`Unknown field '${key}'`));
+
+  const { componentName, description, props } = value;
+  if (typeof componentName !== 'string' || componentName.trim().length === 0 || componentName.length > MAX_NAME_LENGTH) {
+    errors.push(`componentName must be a non-empty string of at most ${MAX_NAME_LENGTH} characters`);
+  }
+  if (typeof description !== 'string' || description.length > MAX_DESCRIPTION_LENGTH) {
+    errors.push(`description must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters`);
+  }
+
+  if (!Array.isArray(props) || props.length > MAX_PROPS) {
+    errors.push(`props must be an array of at most ${MAX_PROPS} props`);
+  } else {
+    props.forEach((prop, index) => {
+      const field = `props[${index}]`;
+      if (!isPlainObject(prop)) {
+        errors.push(`${field} must be an object`);
+        return;
+      }
+      Object.keys(prop)
+        .filter(key => !PROP_FIELDS.has(key))
+        .forEach(key => errors.push(`Unknown field '${field}.${key}'`));
+      if (typeof prop.name !== 'string' || prop.name.trim().length === 0) errors.push(`${field}.name must be a non-empty string`);
+      if (typeof prop.type !== 'string' || prop.type.trim().length === 0) errors.push(`${field}.type must be a non-empty string`);
+      if (typeof prop.required !== 'boolean') errors.push(`${field}.required must be a boolean`);
+      if (typeof prop.description !== 'string') errors.push(`${field}.description must be a string`);
+      if (prop.defaultValue !== undefined && prop.defaultValue !== null && typeof prop.defaultValue !== 'string') {
+        errors.push(`${field}.defaultValue must be a string or null`);
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    return { analysis: null, errors };
+  }
+
+  return {
+    analysis: {
+      componentName: (componentName as string).trim(),
+      description: (description as string).trim(),
+      props: (props as Array<Record<string, unknown>>).map(prop => ({
+        name: (prop.name as string).trim(),
+        type: (prop.type as string).trim(),
+        required: prop.required as boolean,
+        description: (prop.description as string).trim(),
+        ...(typeof prop.defaultValue === 'string' ? { defaultValue: prop.defaultValue } : {})
+      }))
+    },
+    errors
+  };
+}
+
+/**
+ * Parse a model reply as JSON. Code fences are tolerated; anything else
+ * around the object is not.
+ */
+export function parseAnalysisReply(text: string): { value: unknown; errors: string[] } {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*\n?/i, '').replace(/\n?```$/, '').trim();
+  if (!trimmed) {
+    return { value: null, errors: ['The reply was empty'] };
+  }
+  try {
+    return { value: JSON.parse(trimmed), errors: [] };
+  } catch (error) {
+    return { value: null, errors: [`The reply is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+}
+
+export function buildAnalysisPrompt(content: string, maxContentChars = DEFAULT_MAX_CONTENT_CHARS): string {
+  return `Extract the UI component documented in the content below. Reply with a single JSON object and nothing else, matching this JSON schema:
+
+${JSON.stringify(COMPONENT_ANALYSIS_SCHEMA)}
+
+Only list props the content actually documents; use an empty array when there are none, and null for a defaultValue the content does not state. componentName is at most ${MAX_NAME_LENGTH} characters, description at most ${MAX_DESCRIPTION_LENGTH}.
+
+Content:
+${content.substring(0, maxContentChars)}`;
+}
+
+function buildRepairPrompt(prompt: string, reply: string, errors: string[]): string {
+  return `${prompt}
+
+Your previous reply was:
+${reply.substring(0, MAX_REPLY_ECHO_CHARS)}
+
+It was rejected because:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Reply again with only the corrected JSON object.`;
+}
+
+/**
+ * Ask the model for a component analysis, repairing invalid replies up to
+ * `maxRepairs` times
+ */
+export async function analyzeComponent(
+  provider: LlmProvider,
+  content: string,
+  { maxRepairs = DEFAULT_MAX_REPAIRS, maxContentChars, signal }: ComponentAnalysisOptions = {}
+): Promise<ComponentAnalysisResult> {
+  const prompt = buildAnalysisPrompt(content, maxContentChars);
+  let nextPrompt = prompt;
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    let reply: string;
+    try {
+      reply = await provider.generate(nextPrompt, {
+        temperature: 0.1,
+        topP: 0.9,
+        maxTokens: 1000,
+        jsonSchema: COMPONENT_ANALYSIS_SCHEMA,
+        signal
+      });
+    } catch (error) {
+      // Cancellation is the caller's to report, not a failed analysis
+      if (signal?.aborted) throw error;
+      // An unreachable or failing server will not be repaired by asking again
+      return { analysis: null, attempts: attempt, errors: [error instanceof Error ? error.message : String(error)] };
+    }
+
+    const parsed = parseAnalysisReply(reply);
+    const validated = parsed.errors.length > 0 ? { analysis: null, errors: parsed.errors } : validateComponentAnalysis(parsed.value);
+    if (validated.analysis) {
+      return { analysis: validated.analysis, attempts: attempt, errors: [] };
+    }
+
+    errors = validated.errors;
+    console.warn(`Invalid ${provider.name} analysis (attempt ${attempt}):`, errors.join('; '));
+    nextPrompt = buildRepairPrompt(prompt, reply, errors);
+  }
+
+  return { analysis: null, attempts: maxRepairs + 1, errors };
+}
+
+// Props read from documentation prop tables are trusted over model guesses
+const TABLE_PROPS: FieldProvenance = { source: 'heuristic', confidence: 0.9 };
+const PAGE_TITLE: FieldProvenance = { source: 'heuristic', confidence: 0.4 };
+const PAGE_DESCRIPTION: FieldProvenance = { source: 'heuristic', confidence: 0.5 };
+const FAILED: FieldProvenance = { source: 'failed', confidence: 0 };
+const MAX_AGREED_CONFIDENCE = 0.95;
+
+/**
+ * Confidence in a valid model reply, lower for each repair it needed
+ */
+function llmProvenance(attempts: number): FieldProvenance {
+  return { source: 'llm', confidence: Math.max(0.4, 0.7 - (attempts - 1) * 0.15) };
+}
+
+// The model and the rules reaching the same value independently is stronger evidence than either
+function agreed(provenance: FieldProvenance, other: FieldProvenance | undefined): FieldProvenance {
+  const confidence = Math.max(provenance.confidence, other?.confidence ?? 0) + 0.1;
+  return { ...provenance, confidence: Math.min(MAX_AGREED_CONFIDENCE, Math.round(confidence * 100) / 100) };
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.toLowerCase().replace(/[^a-z0-9]/g, '') === b.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Lay a model reply over the rule-based baseline. Props the page states
+ * (tables, declared types) keep their values; the model fills in blanks and
+ * adds props the rules missed. How far the two agree is recorded in the
+ * metadata for comparison.
+ */
+function mergeWithBaseline(
+  baseline: AnalyzedComponent | null,
+  analysis: ComponentAnalysis,
+  provenance: FieldProvenance
+): Pick<AnalyzedComponent, 'name' | 'description' | 'props' | 'provenance'> & { comparison: Record<string, string | number | boolean> } {
+  if (!baseline) {
+    return {
+      name: analysis.componentName,
+      description: analysis.description,
+      props: analysis.props.map(prop => ({ ...prop, provenance })),
+      provenance: { name: provenance, description: provenance, props: provenance },
+      comparison: {}
+    };
+  }
+
+  const modelProps = new Map(analysis.props.map(prop => [prop.name, prop]));
+  const baselineNames = new Set(baseline.props.map(prop => prop.name));
+  const props: ComponentProp[] = baseline.props.map(prop => {
+    const modelProp = modelProps.get(prop.name);
+    if (!modelProp) return prop;
+    // Only props the rules merely saw in use take the model's type
+    const stated = (prop.provenance?.confidence ?? 0) >= 0.8;
+    return {
+      ...prop,
+      type: stated ? prop.type : modelProp.type || prop.type,
+      required: stated ? prop.required : modelProp.required,
+      description: prop.description || modelProp.description,
+      defaultValue: prop.defaultValue ?? modelProp.defaultValue,
+      provenance: agreed(prop.provenance ?? provenance, provenance)
+    };
+  });
+  props.push(...analysis.props.filter(prop => !baselineNames.has(prop.name)).map(prop => ({ ...prop, provenance })));
+
+  const shared = analysis.props.filter(prop => baselineNames.has(prop.name)).length;
+  const union = baselineNames.size + analysis.props.length - shared;
+  const nameAgrees = sameName(analysis.componentName, baseline.name);
+
+  return {
+    name: analysis.componentName,
+    description: analysis.description || baseline.description,
+    props,
+    provenance: {
+      name: nameAgrees ? agreed(provenance, baseline.provenance?.name) : provenance,
+      description: analysis.description ? provenance : baseline.provenance?.description,
+      props: baseline.props.length > 0 ? agreed(baseline.provenance?.props ?? provenance, provenance) : provenance
+    },
+    comparison: {
+      rulesName: baseline.name,
+      rulesNameAgrees: nameAgrees,
+      rulesPropAgreement: union > 0 ? Math.round((shared / union) * 100) / 100 : 1
+    }
+  };
+}
+
+// "Button | Acme Design System" -> "Button"
+function nameFromTitle(title: unknown): string {
+  return typeof title === 'string' ? title.split(/\s+[|–—-]\s+/)[0].trim() : '';
+}
+
+/**
+ * Analyse one content chunk into a component, on top of the rule-based
+ * baseline. When the model fails, the baseline is returned as it is; when
+ * the rules found nothing either, only the page title, description and prop
+ * tables are kept and everything else is marked failed.
+ */
+export async function analyzeChunk(
+  provider: LlmProvider,
+  chunk: ContentChunk,
+  options: ComponentAnalysisOptions = {}
+): Promise<AnalyzedComponent> {
+  const input = ruleInputFromChunk(chunk);
+  const baseline = analyzeWithRules(input);
+  const sourceUrl = typeof chunk.metadata?.sourceUrl === 'string' ? chunk.metadata.sourceUrl : '';
+  const { analysis, attempts, errors } = await analyzeComponent(provider, chunk.content, options);
+  const runMetadata = { provider: provider.name, model: provider.model, attempts, sourceUrl };
+
+  if (analysis) {
+    const { comparison, ...merged } = mergeWithBaseline(baseline, analysis, llmProvenance(attempts));
+    return {
+      id: chunk.id,
+      ...merged,
+      // Only code the chunk actually contains
+      codeSnippets: baseline?.codeSnippets ?? input.codeSamples.map(sample => ({
+        language: sample.language || 'text',
+        code: sample.code,
+        description: `Example for ${merged.name}`
+      })),
+      relationships: [],
+      metadata: {
+        analyzedAt: new Date().toISOString(),
+        source: 'llm',
+        ...runMetadata,
+        ...comparison
+      }
+    };
+  }
+
+  if (baseline) {
+    return {
+      ...baseline,
+      id: chunk.id,
+      metadata: { ...baseline.metadata, ...runMetadata, analysisErrors: errors.join('; ') }
+    };
+  }
+
+  const name = nameFromTitle(chunk.metadata?.title);
+  const description = typeof chunk.metadata?.description === 'string' ? chunk.metadata.description.trim() : '';
+  return {
+    id: chunk.id,
+    name,
+    description,
+    props: input.tableProps.map(prop => ({ ...prop, provenance: TABLE_PROPS })),
+    codeSnippets: [],
+    relationships: [],
+    metadata: {
+      analyzedAt: new Date().toISOString(),
+      source: name || description || input.tableProps.length > 0 ? 'heuristic' : 'failed',
+      ...runMetadata,
+      analysisErrors: errors.join('; ')
+    },
+    provenance: {
+      name: name ? PAGE_TITLE : FAILED,
+      description: description ? PAGE_DESCRIPTION : FAILED,
+      props: input.tableProps.length > 0 ? TABLE_PROPS : FAILED
+    }
+  };
+}
@@ -0,0 +1,487 @@
+/**
+ * Authenticated Crawling
+ *
+ * Per-source credentials (cookies, extra headers, basic auth or a scripted
+ * login) for design systems behind SSO or basic auth. Credentials are stored
+ * server-side in `<data dir>/credentials.json`, matched to crawls by URL
+ * prefix, and never returned by the API. When CRAWL_CREDENTIALS_KEY is set
+ * the file is encrypted with AES-256-GCM.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import type { Browser, HTTPResponse, Page } from 'puppeteer';
+import { CrawlCredentials, LoginStep } from '../types/types';
+import { readJsonFile, writeJsonFile } from './storage';
+
+const CREDENTIALS_FILE = 'credentials.json';
+const LOGIN_STEP_ACTIONS: LoginStep['action'][] = ['goto', 'type', 'click', 'waitForSelector', 'waitForNavigation'];
+
+// Hosts and paths that identity providers and login pages live on
+const LOGIN_URL_PATTERN = /\/(log-?in|sign-?in|sso|auth|oauth2?|saml|session\/new)\b|okta\.com|auth0\.com|login\.microsoftonline\.com|accounts\.google\.com|onelogin\.com/i;
+const LOGIN_TITLE_PATTERN = /\b(log ?in|sign ?in|authenticat|single sign-on)/i;
+
+export const AUTH_FAILED_CODE = 'auth-failed';
+
+/**
+ * Raised when a crawl runs into a login wall or a scripted login fails
+ */
+export class AuthFailedError extends Error {
+  readonly code = AUTH_FAILED_CODE;
+  readonly url: string;
+
+  constructor(message: string, url: string) {
+    super(message);
+    this.name = 'AuthFailedError';
+    this.url = url;
+  }
+}
+
+export interface StoredCredentials {
+  id: string;
+  urlPrefix: string;
+  credentials: CrawlCredentials;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// What the API may show about stored credentials
+export interface CredentialsSummary {
+  id: string;
+  urlPrefix: string;
+  kinds: Array<'cookies' | 'headers' | 'basicAuth' | 'login'>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CredentialsValidationResult {
+  credentials: CrawlCredentials;
+  errors: string[];
+}
+
+interface CredentialsFile {
+  version: 1;
+  encrypted: boolean;
+  entries?: StoredCredentials[];
+  payload?: { iv: string; tag: string; data: string };
+}
+
+function getEncryptionKey(): Buffer | null {
+  const secret = process.env.CRAWL_CREDENTIALS_KEY;
+  return secret ? createHash('sha256').update(secret).digest() : null;
+}
+
+async function readEntries(): Promise<StoredCredentials[]> {
+  const file = await readJsonFile<CredentialsFile>(CREDENTIALS_FILE);
+  if (!file) return [];
+
+  if (!file.encrypted) return file.entries || [];
+
+  const key = getEncryptionKey();
+  if (!key || !file.payload) {
+    throw new Error('Stored credentials are encrypted; set CRAWL_CREDENTIALS_KEY to read them');
+  }
+
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(file.payload.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(file.payload.tag, 'base64'));
+  const json = Buffer.concat([
+    decipher.update(Buffer.from(file.payload.data, 'base64')),
+    decipher.final()
+  ]).toString('utf8');
+
+  return JSON.parse(json) as StoredCredentials[];
+}
+
+async function writeEntries(entries: StoredCredentials[]): Promise<void> {
+  const key = getEncryptionKey();
+
+  if (!key) {
+    await writeJsonFile({ version: 1, encrypted: false, entries } satisfies CredentialsFile, CREDENTIALS_FILE);
+    return;
+  }
+
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(entries), 'utf8'), cipher.final()]);
+
+  await writeJsonFile({
+    version: 1,
+    encrypted: true,
+    payload: {
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    }
+  } satisfies CredentialsFile, CREDENTIALS_FILE);
+}
+
+export function summarizeCredentials(entry: StoredCredentials): CredentialsSummary {
+  const { cookies, headers, basicAuth, login } = entry.credentials;
+  const kinds: CredentialsSummary['kinds'] = [];
+  if (cookies?.length) kinds.push('cookies');
+  if (headers && Object.keys(headers).length > 0) kinds.push('headers');
+  if (basicAuth) kinds.push('basicAuth');
+  if (login) kinds.push('login');
+
+  return {
+    id: entry.id,
+    urlPrefix: entry.urlPrefix,
+    kinds,
+    createdAt: entry.createdAt,
+    updatedAt: entry.updatedAt
+  };
+}
+
+export async function listCredentials(): Promise<CredentialsSummary[]> {
+  return (await readEntries()).map(summarizeCredentials);
+}
+
+/**
+ * A credentials prefix as origin plus path, without a trailing slash, query
+ * or fragment: `https://docs.example.com/app/`, `https://docs.example.com/app?x`
+ * and `https://docs.example.com/app` are the same prefix
+ */
+function normalizeUrlPrefix(urlPrefix: string): string {
+  const parsed = new URL(urlPrefix);
+  return `${parsed.origin}${parsed.pathname.replace(/\/+$/, '')}`;
+}
+
+/**
+ * Whether a URL falls under a credentials prefix: the same origin, and a path
+ * equal to the prefix path or below it on a segment boundary (`/app` covers
+ * `/app/docs` but not `/apple`)
+ */
+function matchesUrlPrefix(url: string, urlPrefix: string): boolean {
+  try {
+    const target = new URL(url);
+    const prefix = new URL(normalizeUrlPrefix(urlPrefix));
+    const prefixPath = prefix.pathname.replace(/\/+$/, '');
+    return target.origin === prefix.origin
+      && (!prefixPath || target.pathname === prefixPath || target.pathname.startsWith(`${prefixPath}/`));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Store credentials for every URL under `urlPrefix`, replacing any stored for
+ * the same prefix
+ */
+export async function saveCredentials(rawUrlPrefix: string, credentials: CrawlCredentials): Promise<CredentialsSummary> {
+  const urlPrefix = normalizeUrlPrefix(rawUrlPrefix);
+  const entries = await readEntries();
+  const now = new Date().toISOString();
+  const existing = entries.find(entry => entry.urlPrefix === urlPrefix);
+
+  const entry: StoredCredentials = existing
+    ? { ...existing, credentials, updatedAt: now }
+    : {
+      id: `cred-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      urlPrefix,
+      credentials,
+      createdAt: now,
+      updatedAt: now
+    };
+
+  await writeEntries([...entries.filter(other => other.id !== entry.id), entry]);
+  return summarizeCredentials(entry);
+}
+
+export async function deleteCredentials(id: string): Promise<boolean> {
+  const entries = await readEntries();
+  const remaining = entries.filter(entry => entry.id !== id);
+  if (remaining.length === entries.length) return false;
+
+  await writeEntries(remaining);
+  return true;
+}
+
+/**
+ * Credentials for a URL: the entry with the longest matching prefix
+ */
+export async function findCredentials(url: string): Promise<CrawlCredentials | null> {
+  const entries = await readEntries();
+  const match = entries
+    .filter(entry => matchesUrlPrefix(url, entry.urlPrefix))
+    .sort((a, b) => b.urlPrefix.length - a.urlPrefix.length)[0];
+
+  return match?.credentials ?? null;
+}
+
+/**
+ * Whether any credentials are stored for the origin of a URL. Without them, a
+ * login wall is just a page the crawl may not read, not a failed login.
+ */
+export async function hasCredentialsForOrigin(url: string): Promise<boolean> {
+  try {
+    const { origin } = new URL(url);
+    return (await readEntries()).some(entry => new URL(entry.urlPrefix).origin === origin);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate untrusted credentials (e.g. from a request body)
+ */
+export function validateCredentials(input: unknown): CredentialsValidationResult {
+  const errors: string[] = [];
+  const credentials: CrawlCredentials = {};
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { credentials, errors: ['credentials must be an object'] };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const isString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+  if (raw.cookies !== undefined) {
+    if (!Array.isArray(raw.cookies)) {
+      errors.push('cookies must be an array');
+    } else {
+      credentials.cookies = [];
+      raw.cookies.forEach((cookie, index) => {
+        if (!cookie || typeof cookie !== 'object' || !isString(cookie.name) || typeof cookie.value !== 'string') {
+          errors.push(`cookies[${index}] needs a name and a value`);
+          return;
+        }
+        credentials.cookies!.push({
+          name: cookie.name,
+          value: cookie.value,
+          domain: isString(cookie.domain) ? cookie.domain : undefined,
+          path: isString(cookie.path) ? cookie.path : undefined,
+          secure: typeof cookie.secure === 'boolean' ? cookie.secure : undefined,
+          httpOnly: typeof cookie.httpOnly === 'boolean' ? cookie.httpOnly : undefined
+        });
+      });
+    }
+  }
+
+  if (raw.headers !== undefined) {
+    if (!raw.headers || typeof raw.headers !== 'object' || Array.isArray(raw.headers)) {
+      errors.push('headers must be an object of header names to values');
+    } else {
+      const entries = Object.entries(raw.headers as Record<string, unknown>);
+      const invalid = entries.filter(([name, value]) => !/^[!#$%&'*+.^_`|~0-9a-z-]+$/i.test(name) || typeof value !== 'string');
+      invalid.forEach(([name]) => errors.push(`headers.${name} must be a valid header name with a string value`));
+      credentials.headers = Object.fromEntries(entries.filter(entry => !invalid.includes(entry))) as Record<string, string>;
+    }
+  }
+
+  if (raw.basicAuth !== undefined) {
+    const basicAuth = raw.basicAuth as Record<string, unknown> | null;
+    if (!basicAuth || !isString(basicAuth.username) || typeof basicAuth.password !== 'string') {
+      errors.push('basicAuth needs a username and a password');
+    } else {
+      credentials.basicAuth = { username: basicAuth.username, password: basicAuth.password };
+    }
+  }
+
+  if (raw.login !== undefined) {
+    const login = raw.login as Record<string, unknown> | null;
+    if (!login || !isString(login.url) || !Array.isArray(login.steps)) {
+      errors.push('login needs a url and a steps array');
+    } else {
+      const steps: LoginStep[] = [];
+      login.steps.forEach((step, index) => {
+        if (!step || typeof step !== 'object' || !LOGIN_STEP_ACTIONS.includes(step.action)) {
+          errors.push(`login.steps[${index}].action must be one of: ${LOGIN_STEP_ACTIONS.join(', ')}`);
+          return;
+        }
+        if (['type', 'click', 'waitForSelector'].includes(step.action) && !isString(step.selector)) {
+          errors.push(`login.steps[${index}] (${step.action}) needs a selector`);
+          return;
+        }
+        if (step.action === 'type' && typeof step.value !== 'string') {
+          errors.push(`login.steps[${index}] (type) needs a value`);
+          return;
+        }
+        if (step.action === 'goto' && !isString(step.url)) {
+          errors.push(`login.steps[${index}] (goto) needs a url`);
+          return;
+        }
+        steps.push({ action: step.action, selector: step.selector, value: step.value, url: step.url });
+      });
+
+      credentials.login = {
+        url: login.url,
+        steps,
+        successSelector: isString(login.successSelector) ? login.successSelector : undefined
+      };
+    }
+  }
+
+  if (raw.loginWallSelector !== undefined) {
+    if (!isString(raw.loginWallSelector)) {
+      errors.push('loginWallSelector must be a CSS selector');
+    } else {
+      credentials.loginWallSelector = raw.loginWallSelector;
+    }
+  }
+
+  const knownFields = new Set(['cookies', 'headers', 'basicAuth', 'login', 'loginWallSelector']);
+  Object.keys(raw)
+    .filter(key => !knownFields.has(key))
+    .forEach(key => errors.push(`Unknown credentials field '${key}'`));
+
+  return { credentials, errors };
+}
+
+/**
+ * Headers to send with plain fetches (robots.txt, sitemaps, story indexes)
+ * to the credentials' site
+ */
+export function getAuthHeaders(credentials: CrawlCredentials | null): Record<string, string> {
+  if (!credentials) return {};
+
+  const headers: Record<string, string> = { ...credentials.headers };
+
+  if (credentials.basicAuth) {
+    const { username, password } = credentials.basicAuth;
+    headers['Authorization'] = `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+  }
+
+  if (credentials.cookies?.length) {
+    headers['Cookie'] = credentials.cookies.map(cookie => `${cookie.name}=${cookie.value}`).join('; ');
+  }
+
+  return headers;
+}
+
+/**
+ * Set the stored cookies on the browser so every page starts authenticated
+ */
+export async function applyBrowserCredentials(browser: Browser, credentials: CrawlCredentials | null, url: string): Promise<void> {
+  if (!credentials?.cookies?.length) return;
+
+  const { hostname, protocol } = new URL(url);
+  await browser.setCookie(...credentials.cookies.map(cookie => ({
+    name: cookie.name,
+    value: cookie.value,
+    domain: cookie.domain || hostname,
+    path: cookie.path || '/',
+    secure: cookie.secure ?? protocol === 'https:',
+    httpOnly: cookie.httpOnly ?? false
+  })));
+}
+
+/**
+ * Apply basic auth and extra headers to a page. Headers are only added to
+ * requests for the site's own origin so tokens never leak to third parties.
+ */
+export async function applyPageCredentials(page: Page, credentials: CrawlCredentials | null, url: string): Promise<void> {
+  if (!credentials) return;
+
+  if (credentials.basicAuth) {
+    await page.authenticate(credentials.basicAuth);
+  }
+
+  const extraHeaders = credentials.headers;
+  if (extraHeaders && Object.keys(extraHeaders).length > 0) {
+    const origin = new URL(url).origin;
+    await page.setRequestInterception(true);
+    page.on('request', request => {
+      if (request.isInterceptResolutionHandled()) return;
+
+      let sameOrigin = false;
+      try {
+        sameOrigin = new URL(request.url()).origin === origin;
+      } catch {
+        // data: and blob: URLs have no origin worth matching
+      }
+
+      request.continue(sameOrigin ? { headers: { ...request.headers(), ...extraHeaders } } : undefined);
+    });
+  }
+}
+
+/**
+ * Run the scripted login, if any. Cookies it sets are shared by every page of
+ * the browser.
+ */
+export async function performLogin(page: Page, credentials: CrawlCredentials | null, timeoutMs: number): Promise<void> {
+  const login = credentials?.login;
+  if (!login) return;
+
+  try {
+    await page.goto(login.url, { waitUntil: 'networkidle2', timeout: timeoutMs });
+
+    for (const [index, step] of login.steps.entries()) {
+      try {
+        switch (step.action) {
+          case 'goto':
+            await page.goto(step.url!, { waitUntil: 'networkidle2', timeout: timeoutMs });
+            break;
+          case 'type':
+            await page.waitForSelector(step.selector!, { timeout: timeoutMs });
+            await page.type(step.selector!, step.value!);
+            break;
+          case 'click':
+            await page.waitForSelector(step.selector!, { timeout: timeoutMs });
+            await page.click(step.selector!);
+            break;
+          case 'waitForSelector':
+            await page.waitForSelector(step.selector!, { timeout: timeoutMs });
+            break;
+          case 'waitForNavigation':
+            await page.waitForNavigation({ waitUntil: 'networkidle2', timeout: timeoutMs });
+            break;
+        }
+      } catch (error) {
+        // Never echo typed values; they are usually passwords
+        const target = step.selector || step.url || '';
+        throw new AuthFailedError(
+          `Login step ${index + 1} (${step.action}${target ? ` ${target}` : ''}) failed: ${error instanceof Error ? error.message : String(error)}`,
+          login.url
+        );
+      }
+    }
+
+    if (login.successSelector) {
+      await page.waitForSelector(login.successSelector, { timeout: timeoutMs }).catch(() => {
+        throw new AuthFailedError(`Login did not reach the signed-in page (${login.successSelector} not found)`, page.url());
+      });
+    }
+
+    console.log(`Logged in via ${login.url}`);
+  } catch (error) {
+    if (error instanceof AuthFailedError) throw error;
+    throw new AuthFailedError(`Login failed: ${error instanceof Error ? error.message : String(error)}`, login.url);
+  }
+}
+
+/**
+ * Recognize a login wall after navigating to `requestedUrl`: an HTTP 401/403,
+ * a redirect to a login or identity provider URL, the configured
+ * `loginWallSelector`, or a page that is little more than a password form.
+ * Returns a description of what was detected, or null. Crawls only abort on it
+ * for the entry page or an origin with stored credentials.
+ */
+export async function detectLoginWall(
+  page: Page,
+  requestedUrl: string,
+  response: HTTPResponse | null,
+  credentials: CrawlCredentials | null
+): Promise<string | null> {
+  const status = response?.status();
+  if (status === 401 || status === 403) {
+    return `${requestedUrl} returned HTTP ${status}`;
+  }
+
+  const finalUrl = page.url();
+  if (finalUrl !== requestedUrl && LOGIN_URL_PATTERN.test(finalUrl) && !LOGIN_URL_PATTERN.test(requestedUrl)) {
+    return `${requestedUrl} redirected to login page ${finalUrl}`;
+  }
+
+  if (credentials?.loginWallSelector && await page.$(credentials.loginWallSelector)) {
+    return `${requestedUrl} shows the login page (${credentials.loginWallSelector})`;
+  }
+
+  // Docs often demo login forms, so a password field alone is not enough
+  const looksLikeLoginPage = await page.evaluate((titlePattern: string) => {
+    const hasPassword = document.querySelector('input[type="password"]') !== null;
+    const shortPage = (document.body?.innerText || '').length < 2000;
+    return hasPassword && shortPage && new RegExp(titlePattern, 'i').test(document.title);
+  }, LOGIN_TITLE_PATTERN.source);
+
+  return looksLikeLoginPage ? `${requestedUrl} shows a login form` : null;
+}
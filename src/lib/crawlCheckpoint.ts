@@ -0,0 +1,132 @@
+/**
+ * Crawl Checkpoints
+ *
+ * Persists the state of a running crawl (frontier, visited set and pages
+ * extracted so far) so it can be resumed after an abort or a restart.
+ * One JSON file per crawl under `<data dir>/checkpoints`.
+ */
+
+import { CrawlDepthStats, CrawlOptions, ExtractedPageContent } from '../types/types';
+import { RobotsRules } from './robots';
+import { deleteDataFile, listDataFiles, readJsonFile, writeJsonFile } from './storage';
+
+const CHECKPOINT_DIR = 'checkpoints';
+const CRAWL_ID_PATTERN = /^crawl-[a-z0-9-]+$/;
+
+export type CrawlStatus = 'running' | 'aborted' | 'failed' | 'complete';
+
+export interface FrontierEntry {
+  url: string;
+  depth: number;
+}
+
+export interface LevelResult {
+  content: ExtractedPageContent;
+  links: string[];
+}
+
+export interface CrawlCheckpoint {
+  crawlId: string;
+  url: string;
+  options: CrawlOptions;
+  status: CrawlStatus;
+  error?: string;
+  robots: RobotsRules | null;
+  frontier: FrontierEntry[];
+  visited: string[];
+  pages: ExtractedPageContent[];
+  // The breadth-first level that was being rendered when the checkpoint was
+  // taken; unfinished entries are null in `results`
+  level?: {
+    depth: number;
+    entries: FrontierEntry[];
+    results: Array<LevelResult | null>;
+  };
+  depthStats: CrawlDepthStats[];
+  discovered: number;
+  robotsDisallowed: number;
+  pagesSkipped?: number;
+  // Set when the crawl reads a Storybook through its story index instead of
+  // following links; the frontier is unused then
+  storybook?: {
+    baseUrl: string;
+  };
+  // Set when the crawl reads components and Markdown docs from a local
+  // checkout, or docs from an archive; `visited` holds the files already parsed
+  sourceRepo?: {
+    rootDir: string;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CrawlCheckpointSummary {
+  crawlId: string;
+  url: string;
+  status: CrawlStatus;
+  error?: string;
+  pagesExtracted: number;
+  pagesRemaining: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export function createCrawlId(): string {
+  return `crawl-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function isValidCrawlId(crawlId: unknown): crawlId is string {
+  return typeof crawlId === 'string' && CRAWL_ID_PATTERN.test(crawlId);
+}
+
+function checkpointFile(crawlId: string): string {
+  if (!isValidCrawlId(crawlId)) {
+    throw new Error(`Invalid crawl id: ${crawlId}`);
+  }
+  return `${crawlId}.json`;
+}
+
+export async function saveCheckpoint(checkpoint: CrawlCheckpoint): Promise<void> {
+  await writeJsonFile(
+    { ...checkpoint, updatedAt: new Date().toISOString() },
+    CHECKPOINT_DIR,
+    checkpointFile(checkpoint.crawlId)
+  );
+}
+
+export async function loadCheckpoint(crawlId: string): Promise<CrawlCheckpoint | null> {
+  return readJsonFile<CrawlCheckpoint>(CHECKPOINT_DIR, checkpointFile(crawlId));
+}
+
+export async function deleteCheckpoint(crawlId: string): Promise<void> {
+  await deleteDataFile(CHECKPOINT_DIR, checkpointFile(crawlId));
+}
+
+export function summarizeCheckpoint(checkpoint: CrawlCheckpoint): CrawlCheckpointSummary {
+  const unfinishedInLevel = checkpoint.level?.results.filter(result => result === null).length ?? 0;
+
+  return {
+    crawlId: checkpoint.crawlId,
+    url: checkpoint.url,
+    status: checkpoint.status,
+    error: checkpoint.error,
+    pagesExtracted: checkpoint.pages.length + (checkpoint.level?.results.filter(Boolean).length ?? 0),
+    pagesRemaining: checkpoint.frontier.length + unfinishedInLevel,
+    createdAt: checkpoint.createdAt,
+    updatedAt: checkpoint.updatedAt
+  };
+}
+
+export async function listCheckpoints(): Promise<CrawlCheckpointSummary[]> {
+  const files = await listDataFiles(CHECKPOINT_DIR);
+  const checkpoints = await Promise.all(
+    files
+      .filter(file => file.endsWith('.json'))
+      .map(file => loadCheckpoint(file.replace(/\.json$/, '')).catch(() => null))
+  );
+
+  return checkpoints
+    .filter((checkpoint): checkpoint is CrawlCheckpoint => checkpoint !== null)
+    .map(summarizeCheckpoint)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
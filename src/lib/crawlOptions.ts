@@ -0,0 +1,239 @@
+/**
+ * Crawl Options
+ *
+ * Defaults, validation and merging for the per-crawl settings accepted by
+ * crawlDesignSystem. Kept free of Puppeteer imports so the UI can share it.
+ */
+
+import { CrawlExtractionMode, CrawlOptions, CrawlWaitStrategy } from '../types/types';
+import { EMPTY_URL_RULES, validateUrlRules } from './urlRules';
+
+export type CrawlOptionsInput = Partial<Omit<CrawlOptions, 'viewport'>> & {
+  viewport?: Partial<CrawlOptions['viewport']>;
+};
+
+export interface CrawlOptionsValidationResult {
+  options: CrawlOptions;
+  errors: string[];
+}
+
+export const DEFAULT_CRAWL_OPTIONS: CrawlOptions = {
+  rateLimitMs: 1000, // 1 second between requests to the same host
+  maxRetries: 3,
+  maxPages: 50, // Limit to prevent infinite crawling
+  maxDepth: 3, // Clicks away from the entry page
+  concurrency: 3, // Pages rendered in parallel
+  viewport: { width: 1200, height: 800 },
+  timeoutMs: 30000,
+  waitUntil: 'networkidle0',
+  urlRules: EMPTY_URL_RULES,
+  userAgent: 'DesignSystemAnalyzer/1.0',
+  respectRobotsTxt: true,
+  useSitemap: true,
+  incremental: true, // Skip pages unchanged since the last crawl
+  extractionMode: 'auto',
+  captureScreenshots: false, // Page and example screenshots, stored under the data directory
+  collectDesignTokens: true,
+  spaMode: false, // Client-side routed sites: hash/History API routes, DOM settling
+  allowedFrameOrigins: [], // Same-origin iframes are always extracted
+  recordArchive: false,
+  replayArchive: null // Crawl live
+};
+
+export const WAIT_STRATEGIES: CrawlWaitStrategy[] = ['load', 'domcontentloaded', 'networkidle0', 'networkidle2'];
+
+export const EXTRACTION_MODES: CrawlExtractionMode[] = ['auto', 'dom', 'storybook'];
+
+const MAX_FRAME_ORIGINS = 50;
+const MAX_ARCHIVE_SOURCE = 1024;
+
+const NUMERIC_LIMITS = {
+  rateLimitMs: { min: 0, max: 60000 },
+  maxRetries: { min: 1, max: 10 },
+  maxPages: { min: 1, max: 5000 },
+  maxDepth: { min: 0, max: 10 },
+  concurrency: { min: 1, max: 16 },
+  timeoutMs: { min: 1000, max: 300000 },
+  viewportWidth: { min: 320, max: 3840 },
+  viewportHeight: { min: 240, max: 2160 }
+};
+
+/**
+ * Merge user supplied options over the defaults without validating them
+ */
+export function resolveCrawlOptions(input: CrawlOptionsInput = {}): CrawlOptions {
+  return {
+    ...DEFAULT_CRAWL_OPTIONS,
+    ...input,
+    viewport: {
+      ...DEFAULT_CRAWL_OPTIONS.viewport,
+      ...input.viewport
+    }
+  };
+}
+
+/**
+ * Validate untrusted crawl options (e.g. from a request body) and merge them
+ * over the defaults. Any errors are returned as human readable messages.
+ */
+export function validateCrawlOptions(input: unknown): CrawlOptionsValidationResult {
+  const errors: string[] = [];
+
+  if (input === undefined || input === null) {
+    return { options: resolveCrawlOptions(), errors };
+  }
+
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { options: resolveCrawlOptions(), errors: ['options must be an object'] };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const options: CrawlOptionsInput = {};
+
+  const readInteger = (value: unknown, field: string, limits: { min: number; max: number }): number | undefined => {
+    if (value === undefined) return undefined;
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+      errors.push(`${field} must be an integer`);
+      return undefined;
+    }
+    if (value < limits.min || value > limits.max) {
+      errors.push(`${field} must be between ${limits.min} and ${limits.max}`);
+      return undefined;
+    }
+    return value;
+  };
+
+  const readBoolean = (value: unknown, field: string): boolean | undefined => {
+    if (value === undefined) return undefined;
+    if (typeof value !== 'boolean') {
+      errors.push(`${field} must be a boolean`);
+      return undefined;
+    }
+    return value;
+  };
+
+  options.rateLimitMs = readInteger(raw.rateLimitMs, 'rateLimitMs', NUMERIC_LIMITS.rateLimitMs);
+  options.maxRetries = readInteger(raw.maxRetries, 'maxRetries', NUMERIC_LIMITS.maxRetries);
+  options.maxPages = readInteger(raw.maxPages, 'maxPages', NUMERIC_LIMITS.maxPages);
+  options.maxDepth = readInteger(raw.maxDepth, 'maxDepth', NUMERIC_LIMITS.maxDepth);
+  options.concurrency = readInteger(raw.concurrency, 'concurrency', NUMERIC_LIMITS.concurrency);
+  options.timeoutMs = readInteger(raw.timeoutMs, 'timeoutMs', NUMERIC_LIMITS.timeoutMs);
+
+  if (raw.viewport !== undefined) {
+    if (typeof raw.viewport !== 'object' || raw.viewport === null || Array.isArray(raw.viewport)) {
+      errors.push('viewport must be an object with width and height');
+    } else {
+      const viewport = raw.viewport as Record<string, unknown>;
+      options.viewport = {
+        width: readInteger(viewport.width, 'viewport.width', NUMERIC_LIMITS.viewportWidth),
+        height: readInteger(viewport.height, 'viewport.height', NUMERIC_LIMITS.viewportHeight)
+      };
+    }
+  }
+
+  if (raw.waitUntil !== undefined) {
+    if (typeof raw.waitUntil !== 'string' || !WAIT_STRATEGIES.includes(raw.waitUntil as CrawlWaitStrategy)) {
+      errors.push(`waitUntil must be one of: ${WAIT_STRATEGIES.join(', ')}`);
+    } else {
+      options.waitUntil = raw.waitUntil as CrawlWaitStrategy;
+    }
+  }
+
+  if (raw.extractionMode !== undefined) {
+    if (typeof raw.extractionMode !== 'string' || !EXTRACTION_MODES.includes(raw.extractionMode as CrawlExtractionMode)) {
+      errors.push(`extractionMode must be one of: ${EXTRACTION_MODES.join(', ')}`);
+    } else {
+      options.extractionMode = raw.extractionMode as CrawlExtractionMode;
+    }
+  }
+
+  if (raw.userAgent !== undefined) {
+    if (typeof raw.userAgent !== 'string' || raw.userAgent.trim().length === 0 || raw.userAgent.length > 256) {
+      errors.push('userAgent must be a non-empty string of at most 256 characters');
+    } else {
+      options.userAgent = raw.userAgent.trim();
+    }
+  }
+
+  options.respectRobotsTxt = readBoolean(raw.respectRobotsTxt, 'respectRobotsTxt');
+  options.useSitemap = readBoolean(raw.useSitemap, 'useSitemap');
+  options.incremental = readBoolean(raw.incremental, 'incremental');
+  options.captureScreenshots = readBoolean(raw.captureScreenshots, 'captureScreenshots');
+  options.collectDesignTokens = readBoolean(raw.collectDesignTokens, 'collectDesignTokens');
+  options.spaMode = readBoolean(raw.spaMode, 'spaMode');
+
+  if (raw.allowedFrameOrigins !== undefined) {
+    if (!Array.isArray(raw.allowedFrameOrigins) || raw.allowedFrameOrigins.length > MAX_FRAME_ORIGINS) {
+      errors.push(`allowedFrameOrigins must be an array of at most ${MAX_FRAME_ORIGINS} origins`);
+    } else {
+      const origins: string[] = [];
+      raw.allowedFrameOrigins.forEach((value, index) => {
+        const origin = parseHttpOrigin(value);
+        if (origin) {
+          origins.push(origin);
+        } else {
+          errors.push(`allowedFrameOrigins[${index}] must be an http(s) origin, e.g. https://codesandbox.io`);
+        }
+      });
+      options.allowedFrameOrigins = [...new Set(origins)];
+    }
+  }
+
+  options.recordArchive = readBoolean(raw.recordArchive, 'recordArchive');
+
+  if (raw.replayArchive !== undefined && raw.replayArchive !== null) {
+    if (typeof raw.replayArchive !== 'string' || raw.replayArchive.trim().length === 0 || raw.replayArchive.length > MAX_ARCHIVE_SOURCE) {
+      errors.push(`replayArchive must be a crawl id or local path of at most ${MAX_ARCHIVE_SOURCE} characters`);
+    } else {
+      options.replayArchive = raw.replayArchive.trim();
+    }
+  }
+
+  if (options.recordArchive && options.replayArchive) {
+    errors.push('recordArchive and replayArchive cannot be combined');
+  }
+  if (options.replayArchive && options.extractionMode === 'storybook') {
+    errors.push("replayArchive does not support extractionMode 'storybook'");
+  }
+
+  if (raw.urlRules !== undefined) {
+    const { rules, errors: ruleErrors } = validateUrlRules(raw.urlRules);
+    errors.push(...ruleErrors);
+    options.urlRules = rules;
+  }
+
+  const knownFields = new Set([
+    'rateLimitMs', 'maxRetries', 'maxPages', 'maxDepth', 'concurrency', 'timeoutMs', 'viewport', 'waitUntil', 'urlRules',
+    'userAgent', 'respectRobotsTxt', 'useSitemap', 'incremental', 'extractionMode',
+    'captureScreenshots', 'collectDesignTokens', 'spaMode', 'allowedFrameOrigins', 'recordArchive', 'replayArchive'
+  ]);
+  Object.keys(raw)
+    .filter(key => !knownFields.has(key))
+    .forEach(key => errors.push(`Unknown option '${key}'`));
+
+  return { options: resolveCrawlOptions(stripUndefined(options)), errors };
+}
+
+function parseHttpOrigin(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.origin : null;
+  } catch {
+    return null;
+  }
+}
+
+function stripUndefined(options: CrawlOptionsInput): CrawlOptionsInput {
+  const cleaned = Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined)
+  ) as CrawlOptionsInput;
+
+  if (cleaned.viewport) {
+    cleaned.viewport = Object.fromEntries(
+      Object.entries(cleaned.viewport).filter(([, value]) => value !== undefined)
+    );
+  }
+
+  return cleaned;
+}
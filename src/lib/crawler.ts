@@ -1,18 +1,107 @@
-import puppeteer, { Page } from 'puppeteer';
+import puppeteer, { HTTPResponse, Page } from 'puppeteer';
 import * as cheerio from 'cheerio';
-import hljs from 'highlight.js';
 import { 
+  CrawlCredentials,
+  CrawlDepthStats,
+  CrawlOptions,
   CrawlProgress, 
   ContentChunk, 
+  CustomElementInfo,
+  CustomElementProperty,
   ExtractedPageContent, 
+  PageCacheInfo,
   PageMetadata, 
+  PageScreenshot,
+  PageStyleSample,
   SemanticContent, 
-  CodeSample 
+  CodeSample,
+  ContentSection
 } from '../types/types';
+import { CrawlOptionsInput, resolveCrawlOptions } from './crawlOptions';
+import { createUrlRuleMatcher } from './urlRules';
+import { RobotsRules, fetchRobotsTxt, isAllowedByRobots } from './robots';
+import { fetchSitemapUrls } from './sitemap';
+import { HostRateLimiter, PagePool } from './pagePool';
+import {
+  CrawlCheckpoint,
+  FrontierEntry,
+  LevelResult,
+  createCrawlId,
+  loadCheckpoint,
+  saveCheckpoint,
+  summarizeCheckpoint
+} from './crawlCheckpoint';
+import { PageCache, PageCacheEntry, checkFreshness, hashContent, loadPageCache, savePageCache } from './pageCache';
+import {
+  StorybookIndex,
+  buildStorybookPage,
+  fetchStorybookIndex,
+  getStoryIframeUrl,
+  getStoryUrl,
+  groupStoriesByComponent,
+  loadStoryDetails
+} from './storybook';
+import { captureElementScreenshot, capturePageScreenshots } from './screenshots';
+import { buildDesignTokenSet, collectPageStyles, saveDesignTokens } from './designTokens';
+import {
+  AuthFailedError,
+  applyBrowserCredentials,
+  applyPageCredentials,
+  detectLoginWall,
+  findCredentials,
+  getAuthHeaders,
+  hasCredentialsForOrigin,
+  performLogin
+} from './crawlAuth';
+import { RawTable, parsePropTables } from './propTables';
+import {
+  dedupeCodeSamples,
+  dedupeCrawlCodeSamples,
+  detectCodeLanguage,
+  getCodeSampleId,
+  remapSectionCodeSamples
+} from './codeSamples';
+import {
+  ModuleLoader,
+  buildSourceRepoPage,
+  getSourceFileUrl,
+  isSourceRepoUrl,
+  listComponentFiles,
+  parseComponentFile,
+  resolveSourceRepoRoot
+} from './sourceRepo';
+import { openMarkdownSource, parseMarkdownDocument } from './markdownIngest';
+import { isArchiveFile } from './fileArchive';
+import { chunkPages } from './chunking';
+import { AnalyzedComponent } from './componentAnalysis';
+import { analyzeWithRules, propsFromTables } from './ruleBasedAnalyzer';
+import { WarcWriter, installArchiveReplay, loadPageArchive } from './webArchive';
+import { discoverSpaRoutes, installRouteRecorder, isHashRoute, navigateInApp, waitForDomSettled } from './spa';
 
-const RATE_LIMIT_MS = 1000; // 1 second between requests
-const MAX_RETRIES = 3;
-const MAX_PAGES = 50; // Limit to prevent infinite crawling
+// Minimum time between checkpoint writes while a level is being rendered
+const CHECKPOINT_INTERVAL_MS = 5000;
+
+// Upper bound on iframes merged into one page
+const MAX_EXTRACTED_FRAMES = 10;
+
+// Links to these are never rendered as pages
+const NON_PAGE_EXTENSIONS = /\.(png|jpe?g|gif|svg|webp|ico|pdf|zip|gz|tgz|mp4|webm|mp3|woff2?|ttf|otf|css|js|mjs|map|json|xml|txt)$/i;
+
+// Raw content of one document (the page or one of its iframes), before code samples get ids
+interface ExtractedDocument {
+  metadata: PageMetadata;
+  semanticContent: SemanticContent;
+  codeSamples: Omit<CodeSample, 'id' | 'detectedLanguage' | 'confidence'>[];
+  textContent: string;
+  customElements: CustomElementInfo[];
+  tables: RawTable[];
+}
+
+export interface CrawlPreview {
+  url: string;
+  included: string[];
+  excluded: Array<{ url: string; reason: string }>;
+}
 
 function normalizeUrl(url: string): string {
   try {
@@ -23,21 +112,34 @@ function normalizeUrl(url: string): string {
   }
 }
 
+/**
+ * Canonical form of a URL used as the visited-set key, so trivially different
+ * spellings of the same page (fragments, trailing slashes, query order) are
+ * only crawled once. Hash routes of client-side routed sites are kept.
+ */
+export function canonicalizeUrl(url: string): string {
+  const parsed = new URL(url);
+  if (!isHashRoute(parsed.hash)) parsed.hash = '';
+  parsed.hostname = parsed.hostname.toLowerCase();
+
+  if (parsed.pathname.length > 1 && parsed.pathname.endsWith('/')) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+  }
+
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([key]) => !key.toLowerCase().startsWith('utm_'))
+    .sort(([a], [b]) => a.localeCompare(b));
+  parsed.search = new URLSearchParams(params).toString();
+
+  return parsed.toString();
+}
+
 async function wait(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-/**
- * Enhanced web crawler that renders pages in headless browser and extracts
- * semantic content, metadata, and code samples in a unified format
- */
-export async function crawlDesignSystem(
-  url: string,
-  onProgress: (progress: CrawlProgress) => void,
-  signal?: AbortSignal
-): Promise<ExtractedPageContent[]> {
-  const normalizedUrl = normalizeUrl(url);
-  const browser = await puppeteer.launch({ 
+function launchBrowser() {
+  return puppeteer.launch({ 
     headless: true,
     args: [
       '--no-sandbox', 
@@ -49,167 +151,1092 @@ export async function crawlDesignSystem(
       '--disable-gpu'
     ]
   });
-  
-  const page = await browser.newPage();
-  const extractedPages: ExtractedPageContent[] = [];
-  
-  // Set a reasonable timeout and viewport
-  page.setDefaultTimeout(30000);
-  await page.setViewport({ width: 1200, height: 800 });
+}
+
+interface SiteDirectives {
+  robots: RobotsRules | null; // null when robots.txt is not honoured
+  sitemapUrls: string[];
+}
+
+/**
+ * Read robots.txt and the sitemaps it declares (or /sitemap.xml) before
+ * anything is rendered
+ */
+async function loadSiteDirectives(
+  url: string,
+  options: CrawlOptions,
+  credentials: CrawlCredentials | null = null
+): Promise<SiteDirectives> {
+  if (!options.respectRobotsTxt && !options.useSitemap) {
+    return { robots: null, sitemapUrls: [] };
+  }
+
+  const authHeaders = getAuthHeaders(credentials);
+  const robots = await fetchRobotsTxt(url, options.userAgent, options.timeoutMs, authHeaders);
+  const directives: SiteDirectives = {
+    robots: options.respectRobotsTxt ? robots : null,
+    sitemapUrls: []
+  };
+
+  if (options.useSitemap && options.maxDepth > 0) {
+    const origin = new URL(url).origin;
+    const declared = robots.sitemaps.length > 0
+      ? robots.sitemaps
+      : [new URL('/sitemap.xml', url).toString()];
+    const sitemapUrls = await fetchSitemapUrls(declared, {
+      userAgent: options.userAgent,
+      timeoutMs: options.timeoutMs,
+      maxUrls: options.maxPages * 4,
+      headers: authHeaders,
+      headersOrigin: origin
+    });
+
+    directives.sitemapUrls = sitemapUrls.filter(sitemapUrl => {
+      try {
+        return new URL(sitemapUrl).origin === origin;
+      } catch {
+        return false;
+      }
+    });
+  }
+
+  return directives;
+}
+
+function createErrorPage(url: string, depth: number, error: unknown): ExtractedPageContent {
+  return {
+    id: `error-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    url,
+    textContent: '',
+    semanticContent: {
+      headings: [],
+      paragraphs: [],
+      lists: [],
+      altTexts: [],
+      ariaLabels: [],
+      landmarks: []
+    },
+    metadata: {},
+    codeSamples: [],
+    timestamp: new Date().toISOString(),
+    depth,
+    errors: [error instanceof Error ? error.message : String(error)],
+    failed: true
+  };
+}
+
+/**
+ * Enhanced web crawler that renders pages in headless browser and extracts
+ * semantic content, metadata, and code samples in a unified format.
+ *
+ * Pages are visited breadth-first from the entry URL: every rendered page
+ * contributes its links to the frontier until `maxDepth` or `maxPages` is hit.
+ * Each depth level is rendered by a pool of `concurrency` pages and its links
+ * are enqueued in page order once the level is done, so results come back in
+ * the same order regardless of which page finished first.
+ *
+ * Progress is checkpointed under `crawlId`; an aborted or failed crawl can be
+ * continued with resumeCrawl.
+ */
+export async function crawlDesignSystem(
+  url: string,
+  onProgress: (progress: CrawlProgress) => void,
+  signal?: AbortSignal,
+  crawlOptions: CrawlOptionsInput = {},
+  crawlId: string = createCrawlId()
+): Promise<ExtractedPageContent[]> {
+  const normalizedUrl = normalizeUrl(url);
+  const options = applyReplayOptions(resolveCrawlOptions(crawlOptions));
+
+  if (isSourceRepoUrl(normalizedUrl)) {
+    const rootDir = await resolveSourceRepoRoot(normalizedUrl);
+    const now = new Date().toISOString();
+    return runSourceRepoCrawl({
+      crawlId,
+      url: normalizedUrl,
+      options,
+      status: 'running',
+      robots: null,
+      frontier: [],
+      visited: [],
+      pages: [],
+      depthStats: [{ depth: 0, discovered: 0, processed: 0 }],
+      discovered: 0,
+      robotsDisallowed: 0,
+      sourceRepo: { rootDir },
+      createdAt: now,
+      updatedAt: now
+    }, onProgress, signal);
+  }
+
+  // Archived responses already carry whatever the credentials unlocked
+  const credentials = options.replayArchive ? null : await findCredentials(normalizedUrl);
+
+  const storybook = options.extractionMode === 'dom'
+    ? null
+    : await fetchStorybookIndex(normalizedUrl, { ...options, headers: getAuthHeaders(credentials) });
+  if (options.extractionMode === 'storybook' && !storybook) {
+    throw new Error(`No Storybook index.json or stories.json found for ${normalizedUrl}`);
+  }
+
+  // Storybook crawls enumerate stories from the index, so the sitemap is not needed
+  const { robots, sitemapUrls } = await loadSiteDirectives(
+    normalizedUrl,
+    storybook ? { ...options, useSitemap: false } : options,
+    credentials
+  );
+
+  if (robots && !isAllowedByRobots(robots, normalizedUrl)) {
+    throw new Error(`robots.txt disallows crawling ${normalizedUrl} for user agent ${options.userAgent}`);
+  }
+
+  const now = new Date().toISOString();
+  const checkpoint: CrawlCheckpoint = {
+    crawlId,
+    url: normalizedUrl,
+    options,
+    status: 'running',
+    robots,
+    frontier: [{ url: normalizedUrl, depth: 0 }],
+    visited: [canonicalizeUrl(normalizedUrl)],
+    pages: [],
+    depthStats: [{ depth: 0, discovered: 1, processed: 0 }],
+    discovered: 1,
+    robotsDisallowed: 0,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  if (storybook) {
+    console.log(`Detected Storybook at ${storybook.indexUrl} (${storybook.entries.length} entries)`);
+    return runStorybookCrawl(
+      { ...checkpoint, frontier: [], storybook: { baseUrl: storybook.baseUrl } },
+      storybook,
+      credentials,
+      onProgress,
+      signal
+    );
+  }
+
+  // Sitemap entries are treated as one click away from the entry page
+  return runCrawl(checkpoint, credentials, onProgress, signal, sitemapUrls);
+}
+
+/**
+ * Continue a checkpointed crawl where it stopped. Completed crawls return
+ * their stored pages without launching a browser.
+ */
+export async function resumeCrawl(
+  crawlId: string,
+  onProgress: (progress: CrawlProgress) => void,
+  signal?: AbortSignal
+): Promise<ExtractedPageContent[]> {
+  const checkpoint = await loadCheckpoint(crawlId);
+  if (!checkpoint) {
+    throw new Error(`No checkpoint found for crawl ${crawlId}`);
+  }
+
+  if (checkpoint.status === 'complete') {
+    return dedupeCrawlCodeSamples(checkpoint.pages);
+  }
+
+  if (checkpoint.sourceRepo) {
+    console.log(`Resuming source repository crawl ${crawlId} of ${checkpoint.sourceRepo.rootDir}`);
+    return runSourceRepoCrawl({ ...checkpoint, status: 'running', error: undefined }, onProgress, signal);
+  }
+
+  // Credentials are looked up again rather than stored in the checkpoint
+  const credentials = checkpoint.options.replayArchive ? null : await findCredentials(checkpoint.url);
+
+  if (checkpoint.storybook) {
+    const storybook = await fetchStorybookIndex(checkpoint.storybook.baseUrl, {
+      ...checkpoint.options,
+      headers: getAuthHeaders(credentials)
+    });
+    if (!storybook) {
+      throw new Error(`Storybook index for ${checkpoint.url} is no longer available`);
+    }
+
+    console.log(`Resuming Storybook crawl ${crawlId} of ${checkpoint.url}`);
+    return runStorybookCrawl({ ...checkpoint, status: 'running', error: undefined }, storybook, credentials, onProgress, signal);
+  }
+
+  console.log(`Resuming crawl ${crawlId} of ${checkpoint.url} (${summarizeCheckpoint(checkpoint).pagesRemaining} pages left)`);
+
+  return runCrawl({ ...checkpoint, status: 'running', error: undefined }, credentials, onProgress, signal);
+}
+
+/**
+ * Launch a browser holding the site's credentials, and the setup applied to
+ * each of its pages
+ */
+async function startCrawlBrowser(
+  url: string,
+  options: CrawlOptions,
+  credentials: CrawlCredentials | null,
+  crawlId?: string
+) {
+  const archive = options.replayArchive ? await loadPageArchive(options.replayArchive) : null;
+  const recorder = options.recordArchive && crawlId ? new WarcWriter(crawlId, options.userAgent) : null;
+  const browser = await launchBrowser();
+
+  try {
+    await applyBrowserCredentials(browser, credentials, url);
+  } catch (error) {
+    await browser.close();
+    throw error;
+  }
+
+  const setupPage = async (page: Page) => {
+    page.setDefaultTimeout(options.timeoutMs);
+    await page.setViewport(options.viewport);
+    await page.setUserAgent(options.userAgent);
+    // Replay has to answer requests before any other interception handler
+    if (archive) await installArchiveReplay(page, archive);
+    await applyPageCredentials(page, credentials, url);
+    recorder?.attach(page);
+    if (options.spaMode) await installRouteRecorder(page);
+  };
+
+  const close = async () => {
+    await browser.close();
+    await recorder?.flush();
+  };
+
+  return { browser, setupPage, close };
+}
+
+/**
+ * Replayed crawls only see what the archive holds: robots.txt, sitemaps,
+ * Storybook indexes and conditional requests would all go to the network.
+ */
+function applyReplayOptions(options: CrawlOptions): CrawlOptions {
+  return options.replayArchive
+    ? { ...options, respectRobotsTxt: false, useSitemap: false, incremental: false, extractionMode: 'dom' }
+    : options;
+}
+
+async function runCrawl(
+  checkpoint: CrawlCheckpoint,
+  credentials: CrawlCredentials | null,
+  onProgress: (progress: CrawlProgress) => void,
+  signal?: AbortSignal,
+  seedUrls: string[] = []
+): Promise<ExtractedPageContent[]> {
+  const { options, robots } = checkpoint;
+  const isAllowed = createUrlRuleMatcher(options.urlRules);
+
+  // Crawl-delay can only slow us down, never speed us up
+  const rateLimitMs = Math.max(options.rateLimitMs, (robots?.crawlDelaySeconds ?? 0) * 1000);
+
+  const visited = new Set<string>(checkpoint.visited);
+  const depthStats = new Map<number, CrawlDepthStats>(
+    checkpoint.depthStats.map(stats => [stats.depth, stats])
+  );
+  let completed = checkpoint.pages.length + (checkpoint.level?.results.filter(Boolean).length ?? 0);
+
+  // Previous extractions for incremental re-crawls, and this crawl's updates to them
+  const pageCache: PageCache = options.incremental ? await loadPageCache(checkpoint.url) : {};
+  const cacheUpdates: PageCache = {};
+
+  const enqueue = (link: string, depth: number) => {
+    const key = canonicalizeUrl(link);
+    if (visited.has(key) || !isAllowed(link).allowed) return;
+
+    visited.add(key);
+
+    if (robots && !isAllowedByRobots(robots, link)) {
+      checkpoint.robotsDisallowed++;
+      return;
+    }
+
+    checkpoint.frontier.push({ url: link, depth });
+    checkpoint.discovered++;
+
+    const stats = depthStats.get(depth) || { depth, discovered: 0, processed: 0 };
+    stats.discovered++;
+    depthStats.set(depth, stats);
+  };
+
+  // Checkpoint writes are serialized; each one snapshots the state at call time
+  let pendingSave: Promise<void> = Promise.resolve();
+  let lastSaveTime = 0;
+  const persist = () => {
+    const snapshot: CrawlCheckpoint = {
+      ...checkpoint,
+      visited: Array.from(visited),
+      depthStats: Array.from(depthStats.values()),
+      level: checkpoint.level && {
+        ...checkpoint.level,
+        results: [...checkpoint.level.results]
+      }
+    };
+    lastSaveTime = Date.now();
+    pendingSave = pendingSave
+      .then(() => saveCheckpoint(snapshot))
+      .catch(error => console.error(`Failed to checkpoint crawl ${checkpoint.crawlId}:`, error));
+    return pendingSave;
+  };
+
+  const reportProgress = (currentUrl: string, depth: number) => {
+    onProgress({
+      sourceId: checkpoint.url,
+      crawlId: checkpoint.crawlId,
+      pagesProcessed: completed,
+      totalPages: Math.min(checkpoint.discovered, options.maxPages),
+      componentsFound: completed,
+      currentPage: currentUrl,
+      currentDepth: depth,
+      depthStats: Array.from(depthStats.values()),
+      robotsDisallowed: checkpoint.robotsDisallowed,
+      pagesSkipped: checkpoint.pagesSkipped ?? 0
+    });
+  };
+
+  const persistPageCache = async () => {
+    if (!options.incremental || Object.keys(cacheUpdates).length === 0) return;
+    try {
+      await savePageCache(checkpoint.url, { ...pageCache, ...cacheUpdates });
+    } catch (error) {
+      console.error(`Failed to save page cache for ${checkpoint.url}:`, error);
+    }
+  };
+
+  const collectPages = () => [
+    ...checkpoint.pages,
+    ...(checkpoint.level?.results.filter((result): result is LevelResult => result !== null)
+      .map(result => result.content) ?? [])
+  ];
+
+  seedUrls.forEach(seedUrl => enqueue(seedUrl, 1));
+
+  const { browser, setupPage, close } = await startCrawlBrowser(checkpoint.url, options, credentials, checkpoint.crawlId);
+  const pool = new PagePool(browser, options.concurrency, setupPage);
+  const limiter = new HostRateLimiter(rateLimitMs);
+  const authHeaders = getAuthHeaders(credentials);
+  // Set when a page hits a login wall; stops the workers from taking more pages
+  let authFailure: AuthFailedError | null = null;
+
+  /**
+   * Reuse the cached extraction of a page when the server reports it unchanged
+   */
+  const reuseUnchangedPage = async (entry: FrontierEntry): Promise<LevelResult | null> => {
+    const cached = pageCache[canonicalizeUrl(entry.url)];
+    if (!cached) return null;
+
+    const freshness = await checkFreshness(cached, options.userAgent, options.timeoutMs, authHeaders);
+    if (freshness !== 'unchanged') return null;
+
+    cacheUpdates[canonicalizeUrl(entry.url)] = cached;
+    checkpoint.pagesSkipped = (checkpoint.pagesSkipped ?? 0) + 1;
+    console.log(`Skipped unchanged page ${entry.url}`);
+
+    return {
+      content: {
+        ...cached.page,
+        depth: entry.depth,
+        unchangedSince: cached.page.unchangedSince || cached.page.timestamp
+      },
+      links: entry.depth < options.maxDepth ? cached.links : []
+    };
+  };
+
+  const crawlPage = (entry: FrontierEntry) => pool.use(async (page): Promise<LevelResult> => {
+    await limiter.waitForTurn(entry.url);
+    reportProgress(entry.url, entry.depth);
+
+    const unchanged = options.incremental ? await reuseUnchangedPage(entry) : null;
+    if (unchanged) {
+      completed++;
+      depthStats.get(entry.depth)!.processed++;
+      reportProgress(entry.url, entry.depth);
+      return unchanged;
+    }
+
+    let content: ExtractedPageContent;
+    let links: string[] = [];
+
+    try {
+      const startTime = Date.now();
+      const pageContent = await extractPageContent(page, entry.url, options, credentials);
+      const renderTime = Date.now() - startTime;
+
+      content = { ...pageContent, depth: entry.depth, renderTime };
+
+      if (entry.depth < options.maxDepth) {
+        links = await discoverPages(page, entry.url, options.spaMode);
+      }
+
+      if (options.incremental && content.cache) {
+        cacheUpdates[canonicalizeUrl(entry.url)] = {
+          url: entry.url,
+          cache: content.cache,
+          page: content,
+          links: entry.depth < options.maxDepth ? links : (pageCache[canonicalizeUrl(entry.url)]?.links ?? [])
+        } satisfies PageCacheEntry;
+      }
+
+      console.log(`Extracted content from ${entry.url} at depth ${entry.depth} (${renderTime}ms)`);
+    } catch (error) {
+      // A walled entry page or credentialed origin means the login failed;
+      // elsewhere a 401/403 page is just a page that could not be read
+      if (error instanceof AuthFailedError && (entry.depth === 0 || await hasCredentialsForOrigin(entry.url))) {
+        authFailure = error;
+        throw error;
+      }
+      console.error(`Failed to extract content from ${entry.url}:`, error);
+      content = createErrorPage(entry.url, entry.depth, error);
+    }
+
+    completed++;
+    depthStats.get(entry.depth)!.processed++;
+    reportProgress(entry.url, entry.depth);
+
+    return { content, links };
+  });
   
   try {
-    // Get initial page and discover links
-    const links = await discoverPages(page, normalizedUrl);
-    const uniqueLinks = [...new Set([normalizedUrl, ...links])].slice(0, MAX_PAGES);
-    
-    console.log(`Found ${uniqueLinks.length} pages to crawl`);
-    
-    // Process each page
-    for (let i = 0; i < uniqueLinks.length && !signal?.aborted; i++) {
-      const currentUrl = uniqueLinks[i];
-      
-      onProgress({
-        sourceId: url,
-        pagesProcessed: i + 1,
-        totalPages: uniqueLinks.length,
-        componentsFound: extractedPages.length,
-        currentPage: currentUrl
-      });
-      
-      try {
-        const startTime = Date.now();
-        const pageContent = await extractPageContent(page, currentUrl);
-        const renderTime = Date.now() - startTime;
-        
-        extractedPages.push({
-          ...pageContent,
-          renderTime
-        });
-        
-        console.log(`Extracted content from ${currentUrl} (${renderTime}ms)`);
-      } catch (error) {
-        console.error(`Failed to extract content from ${currentUrl}:`, error);
-        // Add error entry
-        extractedPages.push({
-          id: `error-${Date.now()}`,
-          url: currentUrl,
-          textContent: '',
-          semanticContent: {
-            headings: [],
-            paragraphs: [],
-            lists: [],
-            altTexts: [],
-            ariaLabels: [],
-            landmarks: []
-          },
-          metadata: {},
-          codeSamples: [],
-          timestamp: new Date().toISOString(),
-          errors: [error instanceof Error ? error.message : String(error)]
-        });
+    await persist();
+    await pool.use(page => performLogin(page, credentials, options.timeoutMs));
+
+    while (!signal?.aborted) {
+      if (!checkpoint.level) {
+        const { frontier } = checkpoint;
+        if (frontier.length === 0 || checkpoint.pages.length >= options.maxPages) break;
+
+        // Take the next breadth-first level, capped by the remaining page budget
+        const depth = frontier[0].depth;
+        const levelEnd = frontier.findIndex(entry => entry.depth !== depth);
+        const levelSize = levelEnd === -1 ? frontier.length : levelEnd;
+        const entries = frontier.splice(0, Math.min(levelSize, options.maxPages - checkpoint.pages.length));
+
+        checkpoint.level = { depth, entries, results: entries.map(() => null) };
       }
-      
-      // Rate limiting between pages
-      await wait(RATE_LIMIT_MS);
+
+      const level = checkpoint.level;
+      const pending = level.results
+        .map((result, index) => result === null ? index : -1)
+        .filter(index => index !== -1);
+      let nextPending = 0;
+
+      const worker = async () => {
+        while (nextPending < pending.length && !signal?.aborted && !authFailure) {
+          const index = pending[nextPending++];
+          level.results[index] = await crawlPage(level.entries[index]);
+
+          if (Date.now() - lastSaveTime > CHECKPOINT_INTERVAL_MS) {
+            persist();
+          }
+        }
+      };
+
+      await Promise.all(
+        Array.from({ length: Math.min(options.concurrency, pending.length) }, () => worker())
+      );
+
+      if (level.results.some(result => result === null)) break; // aborted mid-level
+
+      // Distinct SPA routes that render the same content are kept only once
+      const renderedHashes = new Set(checkpoint.pages.map(page => page.renderedHash).filter(Boolean));
+      level.results.forEach(result => {
+        const { content, links } = result!;
+        if (content.renderedHash && renderedHashes.has(content.renderedHash)) {
+          console.log(`Skipped ${content.url}: renders the same content as an earlier route`);
+        } else {
+          if (content.renderedHash) renderedHashes.add(content.renderedHash);
+          checkpoint.pages.push(content);
+        }
+        links.forEach(link => enqueue(link, level.depth + 1));
+      });
+      checkpoint.level = undefined;
+      await persist();
     }
+
+    const unfinished = checkpoint.level !== undefined ||
+      (checkpoint.frontier.length > 0 && checkpoint.pages.length < options.maxPages);
+    checkpoint.status = signal?.aborted && unfinished ? 'aborted' : 'complete';
+    await persist();
+    await persistPageCache();
+    await persistDesignTokens(checkpoint.url, options, collectPages());
+
+    console.log(`Crawl ${checkpoint.crawlId} ${checkpoint.status}: ${collectPages().length} pages (${checkpoint.pagesSkipped ?? 0} unchanged), ${checkpoint.frontier.length} left in frontier, ${checkpoint.robotsDisallowed} disallowed by robots.txt`);
   } catch (error) {
     console.error('Crawling error:', error);
+    checkpoint.status = 'failed';
+    checkpoint.error = error instanceof Error ? error.message : String(error);
+    await persist();
+    await persistPageCache();
     throw error;
   } finally {
-    await browser.close();
+    await close();
   }
   
-  return extractedPages;
+  // Snippets repeated across pages (install commands, imports) are kept on the first page only
+  return dedupeCrawlCodeSamples(collectPages());
 }
 
 /**
- * Discover pages to crawl from the initial URL
+ * Crawl a Storybook through its story index: one page per component, built
+ * from the stories loaded in the preview iframe. Components already in the
+ * checkpoint are skipped, so resumed crawls continue where they stopped.
  */
-async function discoverPages(page: Page, url: string): Promise<string[]> {
-  let retries = 0;
-  
-  while (retries < MAX_RETRIES) {
-    try {
-      await page.goto(url, { 
-        waitUntil: 'networkidle0',
-        timeout: 30000 
-      });
-      
-      // Wait for dynamic content to load
-      await page.evaluate(() => new Promise(resolve => setTimeout(resolve, 2000)));
-      
-      const links = await page.evaluate((baseUrl) => {
-        const linkElements = Array.from(document.querySelectorAll('a[href]'));
-        return linkElements
-          .map(a => {
-            const href = a.getAttribute('href');
-            if (!href) return null;
-            
-            try {
-              return new URL(href, baseUrl).toString();
-            } catch {
-              return null;
-            }
-          })
-          .filter((href): href is string => {
-            if (!href) return false;
-            
-            // Filter for documentation/component pages
-            const url = new URL(href);
-            const pathname = url.pathname.toLowerCase();
-            
-            return (
-              url.origin === new URL(baseUrl).origin &&
-              (
-                pathname.includes('/docs/') || 
-                pathname.includes('/components/') ||
-                pathname.includes('/design-system/') ||
-                pathname.includes('/ui/') ||
-                pathname.includes('/patterns/') ||
-                pathname.includes('/guide/') ||
-                pathname.includes('/api/')
-              ) &&
-              !pathname.includes('/api/') && // Exclude actual API endpoints
-              !href.includes('#') && // Exclude anchors
-              !href.includes('?') // Exclude query parameters for now
-            );
+async function runStorybookCrawl(
+  checkpoint: CrawlCheckpoint,
+  storybook: StorybookIndex,
+  credentials: CrawlCredentials | null,
+  onProgress: (progress: CrawlProgress) => void,
+  signal?: AbortSignal
+): Promise<ExtractedPageContent[]> {
+  const { options, robots } = checkpoint;
+  const isAllowed = createUrlRuleMatcher(options.urlRules);
+  const rateLimitMs = Math.max(options.rateLimitMs, (robots?.crawlDelaySeconds ?? 0) * 1000);
+
+  const entries = storybook.entries.filter(entry => {
+    const storyUrl = getStoryUrl(storybook.baseUrl, entry.id);
+    if (!isAllowed(storyUrl).allowed) return false;
+    if (robots && !isAllowedByRobots(robots, storyUrl)) {
+      checkpoint.robotsDisallowed++;
+      return false;
+    }
+    return true;
+  });
+
+  const done = new Set(checkpoint.pages.map(page => page.metadata.title));
+  const groups = Array.from(groupStoriesByComponent(entries).entries()).slice(0, options.maxPages);
+  const pending = groups.filter(([title]) => !done.has(title));
+
+  checkpoint.discovered = groups.length;
+  checkpoint.depthStats = [{ depth: 0, discovered: groups.length, processed: groups.length - pending.length }];
+
+  let pendingSave: Promise<void> = Promise.resolve();
+  const persist = () => {
+    const snapshot: CrawlCheckpoint = { ...checkpoint, pages: [...checkpoint.pages] };
+    pendingSave = pendingSave
+      .then(() => saveCheckpoint(snapshot))
+      .catch(error => console.error(`Failed to checkpoint crawl ${checkpoint.crawlId}:`, error));
+    return pendingSave;
+  };
+
+  const reportProgress = (currentUrl: string) => {
+    onProgress({
+      sourceId: checkpoint.url,
+      crawlId: checkpoint.crawlId,
+      pagesProcessed: checkpoint.pages.length,
+      totalPages: groups.length,
+      componentsFound: checkpoint.pages.reduce((sum, page) => sum + (page.components?.length ?? 0), 0),
+      currentPage: currentUrl,
+      currentDepth: 0,
+      depthStats: checkpoint.depthStats,
+      robotsDisallowed: checkpoint.robotsDisallowed
+    });
+  };
+
+  await persist();
+
+  const { browser, setupPage, close } = await startCrawlBrowser(checkpoint.url, options, credentials, checkpoint.crawlId);
+  const pool = new PagePool(browser, options.concurrency, setupPage);
+  const limiter = new HostRateLimiter(rateLimitMs);
+  let authFailure: AuthFailedError | null = null;
+
+  try {
+    await pool.use(page => performLogin(page, credentials, options.timeoutMs));
+
+    await Promise.all(pending.map(([title, stories]) => pool.use(async page => {
+      if (signal?.aborted || authFailure) return;
+
+      const storyUrl = getStoryUrl(storybook.baseUrl, stories[0].id);
+      await limiter.waitForTurn(storyUrl);
+      reportProgress(storyUrl);
+
+      let content: ExtractedPageContent;
+      try {
+        const details = await loadStoryDetails(
+          page,
+          storybook.baseUrl,
+          stories.map(story => story.id),
+          options.timeoutMs,
+          async response => {
+            const iframeUrl = getStoryIframeUrl(storybook.baseUrl, stories[0].id);
+            const loginWall = await detectLoginWall(page, iframeUrl, response, credentials);
+            if (loginWall) throw new AuthFailedError(`Login wall detected: ${loginWall}`, storyUrl);
+          }
+        );
+        content = buildStorybookPage(storybook, title, stories, details);
+
+        if (options.collectDesignTokens) {
+          content.styles = await collectPageStyles(page, ['#storybook-root', '#root']).catch(error => {
+            console.warn(`Failed to collect styles of Storybook component ${title}:`, error);
+            return undefined;
           });
-      }, url);
-      
-      return links;
-    } catch (error) {
-      retries++;
-      if (retries === MAX_RETRIES) {
-        console.error(`Failed to discover pages from ${url}:`, error);
-        return [];
+        }
+
+        if (options.captureScreenshots) {
+          // The preview iframe is still showing the first story
+          const root = await page.$('#storybook-root, #root');
+          const screenshot = root && await captureElementScreenshot(root, `${content.id}-example-0`, stories[0].name)
+            .catch(error => {
+              console.warn(`Failed to screenshot Storybook component ${title}:`, error);
+              return null;
+            });
+          if (screenshot) {
+            content.screenshots = [screenshot];
+            content.components?.forEach(component => {
+              component.metadata.screenshot = screenshot.url;
+            });
+          }
+        }
+        console.log(`Extracted Storybook component ${title} (${stories.length} stories)`);
+      } catch (error) {
+        if (error instanceof AuthFailedError && await hasCredentialsForOrigin(storyUrl)) {
+          authFailure = error;
+          throw error;
+        }
+        console.error(`Failed to extract Storybook component ${title}:`, error);
+        content = { ...createErrorPage(storyUrl, 0, error), metadata: { title } };
       }
-      await wait(RATE_LIMIT_MS);
+
+      checkpoint.pages.push(content);
+      checkpoint.depthStats[0].processed++;
+      reportProgress(storyUrl);
+      await persist();
+    })));
+
+    // Keep the index order regardless of which component finished first
+    const order = new Map(groups.map(([title], position) => [title, position]));
+    checkpoint.pages.sort((a, b) =>
+      (order.get(a.metadata.title ?? '') ?? groups.length) - (order.get(b.metadata.title ?? '') ?? groups.length)
+    );
+
+    checkpoint.status = signal?.aborted && checkpoint.pages.length < groups.length ? 'aborted' : 'complete';
+    await persist();
+    await persistDesignTokens(checkpoint.url, options, checkpoint.pages);
+
+    console.log(`Storybook crawl ${checkpoint.crawlId} ${checkpoint.status}: ${checkpoint.pages.length} of ${groups.length} components`);
+  } catch (error) {
+    console.error('Storybook crawling error:', error);
+    checkpoint.status = 'failed';
+    checkpoint.error = error instanceof Error ? error.message : String(error);
+    await persist();
+    throw error;
+  } finally {
+    await close();
+  }
+
+  return dedupeCrawlCodeSamples(checkpoint.pages);
+}
+
+/**
+ * Crawl a local checkout of a design system: one page per component file,
+ * holding the exported components parsed from it, then one per Markdown/MDX
+ * document. Archives only hold documents. `maxPages` caps the pages and URL
+ * rules apply to the files' `file:` URLs. Parsed files are kept in
+ * `visited`, so resumed crawls continue where they stopped.
+ */
+async function runSourceRepoCrawl(
+  checkpoint: CrawlCheckpoint,
+  onProgress: (progress: CrawlProgress) => void,
+  signal?: AbortSignal
+): Promise<ExtractedPageContent[]> {
+  const { options } = checkpoint;
+  const rootDir = checkpoint.sourceRepo!.rootDir;
+  const isAllowed = createUrlRuleMatcher(options.urlRules);
+  const loader = new ModuleLoader(rootDir);
+
+  const docs = await openMarkdownSource(rootDir);
+  const componentFiles = isArchiveFile(rootDir) ? [] : await listComponentFiles(rootDir);
+  const files = [
+    ...componentFiles.map(file => ({ file, url: getSourceFileUrl(rootDir, file), markdown: false })),
+    ...docs.files.map(file => ({ file, url: docs.url(file), markdown: true }))
+  ].filter(({ url }) => isAllowed(url).allowed);
+  const parsed = new Set(checkpoint.visited);
+  // Components already read from source are not read again from declaration files
+  const seenComponents = new Set(checkpoint.pages.flatMap(page => page.components?.map(component => component.name) ?? []));
+
+  checkpoint.discovered = files.length;
+  checkpoint.depthStats = [{ depth: 0, discovered: files.length, processed: parsed.size }];
+
+  const persist = () => saveCheckpoint({ ...checkpoint, pages: [...checkpoint.pages] })
+    .catch(error => console.error(`Failed to checkpoint crawl ${checkpoint.crawlId}:`, error));
+
+  const reportProgress = (currentUrl: string) => {
+    onProgress({
+      sourceId: checkpoint.url,
+      crawlId: checkpoint.crawlId,
+      pagesProcessed: checkpoint.depthStats[0].processed,
+      totalPages: files.length,
+      componentsFound: checkpoint.pages.reduce((sum, page) => sum + (page.components?.length ?? 0), 0),
+      currentPage: currentUrl,
+      currentDepth: 0,
+      depthStats: checkpoint.depthStats
+    });
+  };
+
+  try {
+    for (const { file, url, markdown } of files) {
+      if (signal?.aborted || checkpoint.pages.length >= options.maxPages) break;
+      if (parsed.has(file)) continue;
+
+      reportProgress(url);
+
+      try {
+        if (markdown) {
+          checkpoint.pages.push(parseMarkdownDocument(await docs.read(file), url, { mdx: /\.mdx$/i.test(file) }));
+          console.log(`Extracted document ${file}`);
+        } else {
+            const components = (await parseComponentFile(loader, file))
+            .filter(component => !file.endsWith('.d.ts') || !seenComponents.has(component.name));
+          if (components.length > 0) {
+            components.forEach(component => seenComponents.add(component.name));
+            checkpoint.pages.push(buildSourceRepoPage(rootDir, file, components));
+            console.log(`Extracted ${components.length} components from ${file}`);
+          }
+        }
+      } catch (error) {
+        console.error(`Failed to parse ${file}:`, error);
+        checkpoint.pages.push(createErrorPage(url, 0, error));
+      }
+
+      checkpoint.visited.push(file);
+      checkpoint.depthStats[0].processed++;
+      reportProgress(url);
+
+      // Parsing is fast; checkpoint every few files rather than after each
+      if (checkpoint.depthStats[0].processed % 25 === 0) await persist();
     }
+
+    checkpoint.status = signal?.aborted ? 'aborted' : 'complete';
+    await persist();
+
+    console.log(`Source repository crawl ${checkpoint.crawlId} ${checkpoint.status}: ${checkpoint.pages.length} files`);
+  } catch (error) {
+    console.error('Source repository crawling error:', error);
+    checkpoint.status = 'failed';
+    checkpoint.error = error instanceof Error ? error.message : String(error);
+    await persist();
+    throw error;
+  }
+
+  return dedupeCrawlCodeSamples(checkpoint.pages);
+}
+
+/**
+ * Cluster the styles sampled during a crawl into the source's design tokens
+ */
+async function persistDesignTokens(url: string, options: CrawlOptions, pages: ExtractedPageContent[]): Promise<void> {
+  if (!options.collectDesignTokens || !pages.some(page => page.styles)) return;
+
+  try {
+    const tokenSet = buildDesignTokenSet(url, pages);
+    await saveDesignTokens(tokenSet);
+    console.log(`Saved design tokens for ${url}: ${tokenSet.tokens.color.length} colours, ${tokenSet.tokens.fontSize.length} font sizes, ${tokenSet.variables.length} custom properties`);
+  } catch (error) {
+    console.error(`Failed to save design tokens for ${url}:`, error);
+  }
+}
+
+/**
+ * Summary of a crawl result as returned by the crawl API routes
+ */
+export function summarizeCrawl(pages: ExtractedPageContent[]) {
+  return {
+    totalPages: pages.length,
+    unchangedPages: pages.filter(page => page.unchangedSince).length,
+    totalCodeSamples: pages.reduce((sum, page) => sum + page.codeSamples.length, 0),
+    totalTextContent: pages.reduce((sum, page) => sum + page.textContent.length, 0),
+    languagesDetected: [...new Set(
+      pages.flatMap(page => 
+        page.codeSamples
+          .map(sample => sample.language || sample.detectedLanguage)
+          .filter(Boolean)
+      )
+    )],
+    crawledUrls: pages.map(page => page.url),
+    errors: pages.filter(page => page.errors && page.errors.length > 0).map(page => ({
+      url: page.url,
+      errors: page.errors
+    }))
+  };
+}
+
+/**
+ * Render only the entry page and report which of its links (and sitemap
+ * entries) the crawl rules and robots.txt would allow, without extracting
+ * any content. For a local checkout, its component and Markdown files are
+ * reported.
+ */
+export async function previewCrawl(
+  url: string,
+  crawlOptions: CrawlOptionsInput = {}
+): Promise<CrawlPreview> {
+  const normalizedUrl = normalizeUrl(url);
+  const options = applyReplayOptions(resolveCrawlOptions(crawlOptions));
+  const isAllowed = createUrlRuleMatcher(options.urlRules);
+
+  if (isSourceRepoUrl(normalizedUrl)) {
+    const rootDir = await resolveSourceRepoRoot(normalizedUrl);
+    const preview: CrawlPreview = { url: normalizedUrl, included: [], excluded: [] };
+    const docs = await openMarkdownSource(rootDir);
+    const componentFiles = isArchiveFile(rootDir) ? [] : await listComponentFiles(rootDir);
+    [
+      ...componentFiles.map(file => getSourceFileUrl(rootDir, file)),
+      ...docs.files.map(file => docs.url(file))
+    ].forEach(fileUrl => {
+      const decision = isAllowed(fileUrl);
+      if (decision.allowed) {
+        preview.included.push(fileUrl);
+      } else {
+        preview.excluded.push({ url: fileUrl, reason: decision.reason || 'Excluded' });
+      }
+    });
+    return preview;
+  }
+
+  const credentials = options.replayArchive ? null : await findCredentials(normalizedUrl);
+  const { robots, sitemapUrls } = await loadSiteDirectives(normalizedUrl, options, credentials);
+  const { browser, setupPage, close } = await startCrawlBrowser(normalizedUrl, options, credentials);
+
+  try {
+    const page = await browser.newPage();
+    await setupPage(page);
+    await performLogin(page, credentials, options.timeoutMs);
+    const response = await page.goto(normalizedUrl, {
+      waitUntil: options.spaMode ? 'load' : options.waitUntil,
+      timeout: options.timeoutMs
+    });
+
+    const loginWall = await detectLoginWall(page, normalizedUrl, response, credentials);
+    if (loginWall) {
+      throw new AuthFailedError(`Login wall detected: ${loginWall}`, normalizedUrl);
+    }
+    if (options.spaMode) await waitForDomSettled(page, options.timeoutMs);
+
+    const preview: CrawlPreview = { url: normalizedUrl, included: [], excluded: [] };
+    const links = await discoverPages(page, normalizedUrl, options.spaMode);
+
+    [...new Set([...links, ...sitemapUrls])].forEach(link => {
+      const decision = isAllowed(link);
+      if (!decision.allowed) {
+        preview.excluded.push({ url: link, reason: decision.reason || 'Excluded' });
+      } else if (robots && !isAllowedByRobots(robots, link)) {
+        preview.excluded.push({ url: link, reason: 'Disallowed by robots.txt' });
+      } else {
+        preview.included.push(link);
+      }
+    });
+
+    return preview;
+  } finally {
+    await close();
   }
-  
-  return [];
+}
+
+/**
+ * Discover same-origin links on the page that is currently rendered, plus
+ * hash routes and script-driven routes in SPA mode.
+ * Which of them are crawled is decided by the source's URL rules.
+ */
+async function discoverPages(page: Page, url: string, spaMode = false): Promise<string[]> {
+  const links = await page.evaluate((baseUrl, keepHashRoutes) => {
+    const origin = new URL(baseUrl).origin;
+    const linkElements = Array.from(document.querySelectorAll('a[href]'));
+    return linkElements
+      .map(a => {
+        const href = a.getAttribute('href');
+        if (!href) return null;
+        
+        try {
+          const resolved = new URL(href, baseUrl);
+          if (resolved.origin !== origin) return null;
+          if (!keepHashRoutes || !/^#!?\//.test(resolved.hash)) resolved.hash = '';
+          return resolved.toString();
+        } catch {
+          return null;
+        }
+      })
+      .filter((href): href is string => href !== null);
+  }, url, spaMode);
+
+  if (spaMode) {
+    links.push(...await discoverSpaRoutes(page, url));
+  }
+
+  return [...new Set(links)].filter(link => !NON_PAGE_EXTENSIONS.test(new URL(link).pathname));
+}
+
+/**
+ * Same-origin iframes (including srcdoc ones) are extracted, cross-origin ones
+ * only when their origin is allowed in the crawl options
+ */
+function isExtractableFrame(frameUrl: string, pageUrl: string, allowedOrigins: string[]): boolean {
+  if (frameUrl === 'about:srcdoc') return true;
+  try {
+    const origin = new URL(frameUrl).origin;
+    return origin === new URL(pageUrl).origin || allowedOrigins.includes(origin);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Merge an iframe's content into the page's, tagging every item with the
+ * frame it came from
+ */
+function mergeFrameContent(target: ExtractedDocument, frame: ExtractedDocument, frameUrl: string): void {
+  const { semanticContent } = target;
+
+  semanticContent.headings.push(...frame.semanticContent.headings.map(heading => ({ ...heading, frameUrl })));
+  semanticContent.lists.push(...frame.semanticContent.lists.map(list => ({ ...list, frameUrl })));
+  semanticContent.landmarks.push(...frame.semanticContent.landmarks.map(landmark => ({ ...landmark, frameUrl })));
+
+  // Plain strings cannot carry the frame URL, so their position is recorded instead
+  (['paragraphs', 'altTexts', 'ariaLabels'] as const).forEach(field => {
+    const items = frame.semanticContent[field];
+    if (items.length === 0) return;
+    semanticContent.frameSpans = [
+      ...(semanticContent.frameSpans ?? []),
+      { frameUrl, field, start: semanticContent[field].length, count: items.length }
+    ];
+    semanticContent[field].push(...items);
+  });
+
+  // Section blocks point at code samples and tables by index; shift them past the page's own
+  const codeOffset = target.codeSamples.length;
+  const tableOffset = target.tables.length;
+  const shiftSection = (section: ContentSection): ContentSection => ({
+    ...section,
+    blocks: section.blocks.map(block => {
+      if (block.kind === 'code') return { ...block, codeSampleIndex: block.codeSampleIndex + codeOffset };
+      if (block.kind === 'table') return { ...block, tableIndex: block.tableIndex + tableOffset };
+      return block;
+    }),
+    children: section.children.map(shiftSection)
+  });
+  if (frame.semanticContent.sections && frame.semanticContent.sections.length > 0) {
+    semanticContent.sections = [
+      ...(semanticContent.sections ?? []),
+      ...frame.semanticContent.sections.map(section => ({ ...shiftSection(section), frameUrl }))
+    ];
+  }
+
+  target.codeSamples.push(...frame.codeSamples.map(sample => ({ ...sample, frameUrl })));
+  target.textContent = [target.textContent, frame.textContent].filter(Boolean).join(' ');
+
+  target.tables.push(...frame.tables.map(table => ({
+    ...table,
+    location: { ...table.location, tableIndex: table.location.tableIndex + tableOffset, frameUrl },
+    nestedIn: table.nestedIn && { ...table.nestedIn, tableIndex: table.nestedIn.tableIndex + tableOffset }
+  })));
+
+  frame.customElements
+    .filter(element => !target.customElements.some(existing => existing.tagName === element.tagName))
+    .forEach(element => target.customElements.push(element));
+}
+
+/**
+ * Validators and content hash of the document response, used to detect
+ * unchanged pages on the next crawl
+ */
+async function getCacheInfo(response: HTTPResponse): Promise<PageCacheInfo> {
+  const headers = response.headers();
+  let contentHash: string | undefined;
+
+  try {
+    contentHash = hashContent(await response.text());
+  } catch {
+    // Body is unavailable for some responses (e.g. redirects)
+  }
+
+  return {
+    etag: headers['etag'],
+    lastModified: headers['last-modified'],
+    contentHash
+  };
 }
 
 /**
  * Extract comprehensive content from a rendered page
  */
-async function extractPageContent(page: Page, url: string): Promise<ExtractedPageContent> {
+async function extractPageContent(
+  page: Page,
+  url: string,
+  options: CrawlOptions,
+  credentials: CrawlCredentials | null = null
+): Promise<ExtractedPageContent> {
   let retries = 0;
   
-  while (retries < MAX_RETRIES) {
+  while (retries < options.maxRetries) {
     try {
-      await page.goto(url, { 
-        waitUntil: 'networkidle0',
-        timeout: 30000 
+      // SPA routes are reached inside the running app when it re-renders for them
+      const navigatedInApp = options.spaMode && await navigateInApp(page, url, options.timeoutMs);
+      const response = navigatedInApp ? null : await page.goto(url, {
+        waitUntil: options.spaMode ? 'load' : options.waitUntil,
+        timeout: options.timeoutMs 
       });
+
+      const loginWall = await detectLoginWall(page, url, response, credentials);
+      if (loginWall) {
+        throw new AuthFailedError(`Login wall detected: ${loginWall}`, url);
+      }
       
       // Wait for content to stabilize
-      await page.evaluate(() => new Promise(resolve => setTimeout(resolve, 1000)));
+      if (!options.spaMode) {
+        await page.evaluate(() => new Promise(resolve => setTimeout(resolve, 1000)));
+      } else if (!navigatedInApp) {
+        await waitForDomSettled(page, options.timeoutMs);
+      }
       
-      // Extract all content in browser context
-      const extractedData = await page.evaluate(() => {
+      // Extract all content in browser context; also run in each iframe
+      const extractDocument = (): ExtractedDocument => {
         // Helper function to clean text
         const cleanText = (text: string) => text.trim().replace(/\s+/g, ' ');
+
+        // Elements in rendered order, walking into open shadow roots and
+        // following slots to their assigned content, so web-component based
+        // docs (Lit, Stencil) are as visible as plain HTML
+        const composedElements: Element[] = [];
+        const walkComposed = (parent: Element | ShadowRoot) => {
+          const children = parent instanceof HTMLSlotElement && parent.assignedElements({ flatten: true }).length > 0
+            ? parent.assignedElements({ flatten: true })
+            : Array.from(parent.children);
+          children.forEach(child => {
+            composedElements.push(child);
+            walkComposed(child.shadowRoot ?? child);
+          });
+        };
+        walkComposed(document.documentElement);
+
+        const queryAllDeep = (selector: string) => composedElements.filter(el => el.matches(selector));
+
+        // CSS path of an element; `>>>` crosses into a shadow root
+        const cssPath = (el: Element): string => {
+          const parts: string[] = [];
+          for (let node: Element | null = el; node && node !== document.documentElement; node = node.parentElement) {
+            if (node.id) {
+              parts.unshift(`#${CSS.escape(node.id)}`);
+              break;
+            }
+            const current = node;
+            const siblings = current.parentElement
+              ? Array.from(current.parentElement.children).filter(sibling => sibling.tagName === current.tagName)
+              : [];
+            const tag = current.tagName.toLowerCase();
+            parts.unshift(siblings.length > 1 ? `${tag}:nth-of-type(${siblings.indexOf(current) + 1})` : tag);
+          }
+          const root = el.getRootNode();
+          const path = parts.join(' > ');
+          return root instanceof ShadowRoot ? `${cssPath(root.host)} >>> ${path}` : path;
+        };
+
+        // textContent across shadow roots and slots; styles inside shadow roots are not text
+        const composedText = (node: Node): string => {
+          if (node.nodeType === Node.TEXT_NODE) return node.textContent || '';
+          if (node instanceof HTMLStyleElement || node instanceof HTMLScriptElement) return '';
+          if (node instanceof HTMLSlotElement && node.assignedNodes({ flatten: true }).length > 0) {
+            return node.assignedNodes({ flatten: true }).map(composedText).join('');
+          }
+          const parent = node instanceof Element && node.shadowRoot ? node.shadowRoot : node;
+          return Array.from(parent.childNodes).map(composedText).join('');
+        };
         
         // Extract metadata
         const metadata: PageMetadata = {};
@@ -270,50 +1297,52 @@ async function extractPageContent(page: Page, url: string): Promise<ExtractedPag
         };
         
         // Headings
-        const headingElements = document.querySelectorAll('h1, h2, h3, h4, h5, h6');
+        const headingElements = queryAllDeep('h1, h2, h3, h4, h5, h6');
         semanticContent.headings = Array.from(headingElements).map(h => ({
           level: parseInt(h.tagName.charAt(1)),
-          text: cleanText(h.textContent || ''),
+          text: cleanText(composedText(h)),
           id: h.id || undefined
         }));
         
         // Paragraphs
-        const paragraphElements = document.querySelectorAll('p');
+        const paragraphElements = queryAllDeep('p');
         semanticContent.paragraphs = Array.from(paragraphElements)
-          .map(p => cleanText(p.textContent || ''))
+          .map(p => cleanText(composedText(p)))
           .filter(text => text.length > 0);
         
         // Lists
-        const listElements = document.querySelectorAll('ul, ol');
+        const listElements = queryAllDeep('ul, ol');
         semanticContent.lists = Array.from(listElements).map(list => ({
           type: list.tagName.toLowerCase() as 'ul' | 'ol',
           items: Array.from(list.querySelectorAll('li'))
-            .map(li => cleanText(li.textContent || ''))
+            .map(li => cleanText(composedText(li)))
             .filter(text => text.length > 0)
         }));
         
         // Alt texts
-        const imgElements = document.querySelectorAll('img[alt]');
+        const imgElements = queryAllDeep('img[alt]');
         semanticContent.altTexts = Array.from(imgElements)
           .map(img => cleanText((img as HTMLImageElement).alt))
           .filter(alt => alt.length > 0);
         
         // ARIA labels
-        const ariaElements = document.querySelectorAll('[aria-label]');
+        const ariaElements = queryAllDeep('[aria-label]');
         semanticContent.ariaLabels = Array.from(ariaElements)
           .map(el => cleanText(el.getAttribute('aria-label') || ''))
           .filter(label => label.length > 0);
         
         // Landmarks
-        const landmarkElements = document.querySelectorAll('[role]');
+        const landmarkElements = queryAllDeep('[role]');
         semanticContent.landmarks = Array.from(landmarkElements).map(el => ({
           role: el.getAttribute('role') || '',
           label: el.getAttribute('aria-label') || undefined,
-          content: cleanText(el.textContent || '').substring(0, 200) // Limit content length
+          content: cleanText(composedText(el)).substring(0, 200) // Limit content length
         }));
         
         // Extract code samples
         const codeSamples: Omit<CodeSample, 'id' | 'detectedLanguage' | 'confidence'>[] = [];
+        // Element each sample was first read from, for placing it in the section tree
+        const codeSampleIndexes = new Map<Element, number>();
         
         // Look for various code block patterns
         const codeSelectors = [
@@ -327,103 +1356,336 @@ async function extractPageContent(page: Page, url: string): Promise<ExtractedPag
           '.highlight',
           '.code-sample'
         ];
+
+        // The patterns overlap (a .highlight wraps a pre wrapping a code), so
+        // each block is read once, from its innermost match; the wrappers
+        // only contribute their class names for language detection.
+        // Highlighter token spans (`hljs-keyword`) inside a block are not blocks.
+        const codeSelector = codeSelectors.join(', ');
+        const codeMatches = queryAllDeep(codeSelector)
+          .filter(el => composedText(el).trim().length > 0)
+          .filter(el => !(el.tagName === 'SPAN' && el.parentElement?.closest(codeSelector)));
+        const codeElements = codeMatches.filter(el => !codeMatches.some(other => other !== el && el.contains(other)));
         
-        codeSelectors.forEach(selector => {
-          const elements = document.querySelectorAll(selector);
-          Array.from(elements).forEach((el) => {
-            const code = el.textContent || '';
-            if (code.trim().length === 0) return;
-            
-            // Try to detect language from class names
-            let language: string | undefined;
-            const classList = Array.from(el.classList);
-            const parentClassList = el.parentElement ? Array.from(el.parentElement.classList) : [];
-            
-            for (const className of [...classList, ...parentClassList]) {
-              if (className.startsWith('language-')) {
-                language = className.replace('language-', '');
-                break;
-              } else if (className.startsWith('hljs-')) {
-                language = className.replace('hljs-', '');
-                break;
-              } else if (['javascript', 'typescript', 'jsx', 'tsx', 'css', 'html', 'json', 'python', 'bash', 'shell'].includes(className)) {
-                language = className;
-                break;
-              }
-            }
-            
-            // Get context from surrounding elements
-            let context = '';
-            const prevSibling = el.previousElementSibling;
-            
-            if (prevSibling && ['H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'P'].includes(prevSibling.tagName)) {
-              context = cleanText(prevSibling.textContent || '').substring(0, 100);
+        codeElements.forEach((el) => {
+          const code = composedText(el);
+          
+          // Try to detect language from class names
+          let language: string | undefined;
+          const classList = Array.from(el.classList);
+          const parentClassList = el.parentElement ? Array.from(el.parentElement.classList) : [];
+          // Matched ancestors, innermost first
+          const wrappers = codeMatches.filter(other => other !== el && other.contains(el)).reverse();
+          const wrapperClassList = wrappers.flatMap(wrapper => Array.from(wrapper.classList));
+          
+          for (const className of [...classList, ...parentClassList, ...wrapperClassList]) {
+            if (className.startsWith('language-')) {
+              language = className.replace('language-', '');
+              break;
+            } else if (className.startsWith('hljs-')) {
+              language = className.replace('hljs-', '');
+              break;
+            } else if (['javascript', 'typescript', 'jsx', 'tsx', 'css', 'html', 'json', 'python', 'bash', 'shell'].includes(className)) {
+              language = className;
+              break;
             }
-            
-            codeSamples.push({
-              code: code.trim(),
-              language,
-              context,
-              sourceElement: el.tagName.toLowerCase() + (el.className ? `.${el.className}` : ''),
-              lineNumbers: el.querySelector('.line-number') !== null || 
-                          el.closest('[class*="line-number"]') !== null
-            });
+          }
+          
+          // Get context from surrounding elements, looking past the wrappers
+          let context = '';
+          const prevSibling = [el, ...wrappers]
+            .map(candidate => candidate.previousElementSibling)
+            .find(sibling => sibling && ['H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'P'].includes(sibling.tagName));
+          
+          if (prevSibling) {
+            context = cleanText(composedText(prevSibling)).substring(0, 100);
+          }
+          
+          codeSampleIndexes.set(el, codeSamples.length);
+          codeSamples.push({
+            code: code.trim(),
+            language,
+            context,
+            sourceElement: el.tagName.toLowerCase() + (el.className ? `.${el.className}` : ''),
+            cssPath: cssPath(el),
+            lineNumbers: el.querySelector('.line-number') !== null || 
+                        el.closest('[class*="line-number"]') !== null
           });
         });
         
         // Get full text content for the page
-        const textContent = cleanText(document.body.textContent || '');
+        const textContent = cleanText(composedText(document.body));
+
+        const tableSelector = 'table, [role="table"], [role="grid"]';
+        const tableElements = queryAllDeep(tableSelector);
+        const tableIndexes = new Map(tableElements.map((table, index) => [table, index]));
+
+        // Section tree: each heading owns the blocks up to the next heading
+        // of the same or a higher level. Blocks nested in another block
+        // (a paragraph in a list item, code in a table) belong to that block,
+        // except code and tables in a list or quote, which follow it as
+        // blocks of their own.
+        const rootSection: ContentSection = { heading: '', level: 0, blocks: [], children: [] };
+        const sectionStack: ContentSection[] = [rootSection];
+        const nestedBlockSelector = 'div, p, ul, ol, dl, pre, table, blockquote, h1, h2, h3, h4, h5, h6, section, article';
+        let lastBlockElement: Element | null = null;
+        let lastContainerElement: Element | null = null;
+        composedElements.forEach(el => {
+          if (lastBlockElement?.contains(el)) return;
+          if (lastContainerElement?.contains(el) && !codeSampleIndexes.has(el) && !tableIndexes.has(el)) return;
+
+          const current = sectionStack[sectionStack.length - 1];
+          if (/^H[1-6]$/.test(el.tagName)) {
+            const level = parseInt(el.tagName.charAt(1));
+            while (sectionStack.length > 1 && sectionStack[sectionStack.length - 1].level >= level) {
+              sectionStack.pop();
+            }
+            const section: ContentSection = {
+              heading: cleanText(composedText(el)),
+              level,
+              id: el.id || undefined,
+              blocks: [],
+              children: []
+            };
+            sectionStack[sectionStack.length - 1].children.push(section);
+            sectionStack.push(section);
+          } else if (codeSampleIndexes.has(el)) {
+            current.blocks.push({ kind: 'code', codeSampleIndex: codeSampleIndexes.get(el)! });
+            lastBlockElement = el;
+          } else if (tableIndexes.has(el)) {
+            current.blocks.push({ kind: 'table', tableIndex: tableIndexes.get(el)! });
+            lastBlockElement = el;
+          } else if (el.tagName === 'P') {
+            const text = cleanText(composedText(el));
+            if (text.length > 0) current.blocks.push({ kind: 'paragraph', text });
+            lastBlockElement = el;
+          } else if (el.tagName === 'UL' || el.tagName === 'OL') {
+            const items = Array.from(el.querySelectorAll('li'))
+              .map(li => cleanText(composedText(li)))
+              .filter(text => text.length > 0);
+            if (items.length > 0) {
+              current.blocks.push({ kind: 'list', listType: el.tagName === 'UL' ? 'ul' : 'ol', items });
+            }
+            lastContainerElement = el;
+          } else if (el.tagName === 'BLOCKQUOTE') {
+            const text = cleanText(composedText(el));
+            if (text.length > 0) current.blocks.push({ kind: 'paragraph', text });
+            lastContainerElement = el;
+          } else if (['DIV', 'DD', 'DT'].includes(el.tagName) && !el.querySelector(nestedBlockSelector)) {
+            // Prose in a bare div or a definition list, e.g. a component's description
+            const text = cleanText(composedText(el));
+            if (text.length > 0) current.blocks.push({ kind: 'paragraph', text });
+            lastBlockElement = el;
+          }
+        });
+        semanticContent.sections = rootSection.blocks.length > 0
+          ? [{ ...rootSection, children: [] }, ...rootSection.children]
+          : rootSection.children;
+
+        // Raw table cells, parsed into prop tables outside the browser
+        const collectTables = (): RawTable[] => {
+
+          // Nearest heading above each table, in rendered order
+          const headings = new Map<Element, string>();
+          let lastHeading: string | undefined;
+          composedElements.forEach(el => {
+            if (/^H[1-6]$/.test(el.tagName)) {
+              lastHeading = cleanText(composedText(el));
+            } else if (tableIndexes.has(el) && lastHeading) {
+              headings.set(el, lastHeading);
+            }
+          });
+
+          const rowsOf = (table: Element): Element[] => table instanceof HTMLTableElement
+            ? Array.from(table.rows)
+            : Array.from(table.querySelectorAll('[role="row"]')).filter(row => row.closest(tableSelector) === table);
+          const cellsOf = (row: Element): Element[] => row instanceof HTMLTableRowElement
+            ? Array.from(row.cells)
+            : Array.from(row.querySelectorAll('[role="cell"], [role="gridcell"], [role="columnheader"], [role="rowheader"]'))
+              .filter(cell => cell.closest('[role="row"]') === row);
+
+          // Nested tables are read on their own, so leave them out of the cell text
+          const cellText = (cell: Element) => {
+            if (!cell.querySelector(tableSelector)) return cleanText(composedText(cell));
+            const copy = cell.cloneNode(true) as Element;
+            copy.querySelectorAll(tableSelector).forEach(nested => nested.remove());
+            return cleanText(copy.textContent || '');
+          };
+
+          return tableElements.map((table, tableIndex) => {
+            const rows = rowsOf(table).slice(0, 500).map(row => cellsOf(row).map(cell => ({
+              text: cellText(cell),
+              header: cell.tagName === 'TH' || cell.getAttribute('role') === 'columnheader' || cell.closest('thead') !== null,
+              rowSpan: cell instanceof HTMLTableCellElement ? cell.rowSpan : Number(cell.getAttribute('aria-rowspan')) || 1,
+              colSpan: cell instanceof HTMLTableCellElement ? cell.colSpan : Number(cell.getAttribute('aria-colspan')) || 1
+            })));
+
+            const parentCell = table.parentElement?.closest('td, th, [role="cell"], [role="gridcell"]');
+            const outerTable = parentCell?.closest(tableSelector);
+            const outerRow = parentCell?.closest('tr, [role="row"]');
+            const nestedIn = outerTable && outerRow && tableIndexes.has(outerTable)
+              ? { tableIndex: tableIndexes.get(outerTable)!, row: rowsOf(outerTable).indexOf(outerRow) }
+              : undefined;
+
+            return {
+              location: { tableIndex, selector: cssPath(table), heading: headings.get(table) },
+              rows,
+              ...(nestedIn ? { nestedIn } : {})
+            };
+          });
+        };
+
+        // Custom element tags, as candidate component API data
+        const customElementInfo = new Map<string, CustomElementInfo>();
+        composedElements.forEach(el => {
+          const tagName = el.tagName.toLowerCase();
+          if (!tagName.includes('-')) return;
+
+          let info = customElementInfo.get(tagName);
+          if (!info) {
+            const definition = customElements.get(tagName) as (CustomElementConstructor & {
+              observedAttributes?: unknown;
+              elementProperties?: unknown;
+            }) | undefined;
+            const observedAttributes = Array.isArray(definition?.observedAttributes)
+              ? definition.observedAttributes.filter((name): name is string => typeof name === 'string')
+              : [];
+
+            // Lit keeps its declared properties with their options in a Map
+            const properties: CustomElementProperty[] = [];
+            if (definition?.elementProperties instanceof Map) {
+              definition.elementProperties.forEach((declaration: { attribute?: unknown; type?: unknown }, name: unknown) => {
+                if (typeof name !== 'string') return;
+                properties.push({
+                  name,
+                  attribute: typeof declaration?.attribute === 'string'
+                    ? declaration.attribute
+                    : declaration?.attribute === false ? undefined : name.toLowerCase(),
+                  type: typeof declaration?.type === 'function' ? declaration.type.name.toLowerCase() : undefined
+                });
+              });
+            }
+
+            info = {
+              tagName,
+              defined: definition !== undefined,
+              observedAttributes,
+              properties,
+              attributes: [],
+              slots: [],
+              hasShadowRoot: false,
+              instanceCount: 0
+            };
+            customElementInfo.set(tagName, info);
+          }
+
+          info.instanceCount++;
+          el.getAttributeNames()
+            .filter(name => !['class', 'style', 'id', 'slot'].includes(name) && !name.startsWith('data-'))
+            .forEach(name => {
+              if (!info!.attributes.includes(name)) info!.attributes.push(name);
+            });
+
+          if (el.shadowRoot) {
+            info.hasShadowRoot = true;
+            el.shadowRoot.querySelectorAll('slot').forEach(slot => {
+              const name = slot.getAttribute('name') || 'default';
+              if (!info!.slots.includes(name)) info!.slots.push(name);
+            });
+          }
+        });
         
         return {
           metadata,
           semanticContent,
           codeSamples,
-          textContent
+          textContent,
+          customElements: Array.from(customElementInfo.values()),
+          tables: collectTables()
         };
-      });
+      };
+
+      const extractedData = await page.evaluate(extractDocument);
+      const errors: string[] = [];
+
+      // Live examples are often rendered in iframes (Storybook canvas, embeds)
+      const frames = page.frames()
+        .filter(frame => frame !== page.mainFrame() && isExtractableFrame(frame.url(), page.url(), options.allowedFrameOrigins))
+        .slice(0, MAX_EXTRACTED_FRAMES);
+      for (const frame of frames) {
+        try {
+          mergeFrameContent(extractedData, await frame.evaluate(extractDocument), frame.url());
+        } catch (error) {
+          console.warn(`Failed to extract frame ${frame.url()} of ${url}:`, error);
+          errors.push(`Frame extraction failed for ${frame.url()}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
       
       // Process code samples with language detection
-      const processedCodeSamples: CodeSample[] = extractedData.codeSamples.map((sample, index) => {
-        let detectedLanguage: string | undefined;
-        let confidence = 0;
-        
-        // If no language detected from classes, try automatic detection
-        if (!sample.language && sample.code.length > 20) {
-          try {
-            // Use highlight.js auto-detection
-            const highlighted = hljs.highlightAuto(sample.code);
-            if (highlighted.language && highlighted.relevance > 5) {
-              detectedLanguage = highlighted.language;
-              confidence = highlighted.relevance / 100;
-            }
-          } catch (error) {
-            console.warn('Language detection failed:', error);
-          }
-        }
-        
-        return {
-          id: `code-${Date.now()}-${index}`,
-          ...sample,
-          detectedLanguage,
-          confidence
-        };
-      });
+      // If no language detected from classes, try automatic detection
+      const processedCodeSamples: CodeSample[] = extractedData.codeSamples.map(sample => ({
+        id: getCodeSampleId(sample.code),
+        ...sample,
+        ...(sample.language ? { detectedLanguage: undefined, confidence: 0 } : detectCodeLanguage(sample.code))
+      }));
       
+      // The same snippet can appear more than once (tabs, repeated examples, frames)
+      const { samples: codeSamples, indexMap } = dedupeCodeSamples(processedCodeSamples);
+      const { semanticContent } = extractedData;
+      if (semanticContent.sections) {
+        semanticContent.sections = remapSectionCodeSamples(semanticContent.sections, indexMap);
+      }
+
+      const pageId = `page-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+      const propTables = parsePropTables(extractedData.tables);
+      let screenshots: PageScreenshot[] | undefined;
+      let styles: PageStyleSample | undefined;
+
+      if (options.collectDesignTokens) {
+        try {
+          styles = await collectPageStyles(page);
+        } catch (error) {
+          console.warn(`Failed to collect styles of ${url}:`, error);
+          errors.push(`Style collection failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      if (options.captureScreenshots) {
+        try {
+          screenshots = await capturePageScreenshots(page, pageId);
+        } catch (error) {
+          console.warn(`Failed to capture screenshots of ${url}:`, error);
+          errors.push(`Screenshot capture failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
       return {
-        id: `page-${Date.now()}`,
+        id: pageId,
         url,
         textContent: extractedData.textContent,
-        semanticContent: extractedData.semanticContent,
+        semanticContent,
         metadata: extractedData.metadata,
-        codeSamples: processedCodeSamples,
-        timestamp: new Date().toISOString()
+        codeSamples,
+        timestamp: new Date().toISOString(),
+        // An SPA's document is the same shell for every route, so it says nothing about freshness
+        cache: response && !options.spaMode ? await getCacheInfo(response) : undefined,
+        renderedHash: options.spaMode ? hashContent(extractedData.textContent) : undefined,
+        customElements: extractedData.customElements.length > 0 ? extractedData.customElements : undefined,
+        propTables: propTables.length > 0 ? propTables : undefined,
+        screenshots,
+        styles,
+        ...(errors.length > 0 ? { errors } : {})
       };
     } catch (error) {
+      // Retrying will not get past a login wall
+      if (error instanceof AuthFailedError) {
+        throw error;
+      }
       retries++;
-      if (retries === MAX_RETRIES) {
+      if (retries === options.maxRetries) {
         throw error;
       }
-      await wait(RATE_LIMIT_MS);
+      await wait(options.rateLimitMs);
     }
   }
   
@@ -432,27 +1694,18 @@ async function extractPageContent(page: Page, url: string): Promise<ExtractedPag
 
 /**
  * Legacy function to maintain compatibility with existing code
- * Converts new format to old ContentChunk format
+ * Converts new format to old ContentChunk format, one chunk per section
+ * that fits the analysis budget
  */
 export async function crawlDesignSystemLegacy(
   url: string,
   onProgress: (progress: CrawlProgress) => void,
-  signal?: AbortSignal
+  signal?: AbortSignal,
+  crawlOptions: CrawlOptionsInput = {}
 ): Promise<ContentChunk[]> {
-  const pages = await crawlDesignSystem(url, onProgress, signal);
+  const pages = await crawlDesignSystem(url, onProgress, signal, crawlOptions);
   
-  return pages.map(page => ({
-    id: page.id,
-    content: page.textContent,
-    type: 'html' as const,
-    metadata: {
-      sourceUrl: page.url,
-      title: page.metadata.title,
-      description: page.metadata.description,
-      codeSamples: page.codeSamples.length,
-      timestamp: page.timestamp
-    }
-  }));
+  return chunkPages(pages);
 }
 
 // Keep legacy functions for backward compatibility
@@ -472,59 +1725,76 @@ export function cleanAndChunkContent(content: string): string[] {
     }, []);
 }
 
-interface ExtractedComponentInfo {
-  type: string;
-  props: string[];
-  description: string;
-  examples: string[];
-}
+/**
+ * Read the tables of static HTML as raw cells for the prop table parser
+ */
+function readHtmlTables($: cheerio.CheerioAPI): RawTable[] {
+  const tableElements = $('table').toArray();
+  const tableIndexes = new Map(tableElements.map((table, index) => [table, index]));
+  const cssPathOf = (el: (typeof tableElements)[number]) => [el, ...$(el).parents().toArray()]
+    .reverse()
+    .filter(node => node.tagName !== 'html')
+    .map(node => $(node).siblings(node.tagName).length > 0
+      ? `${node.tagName}:nth-of-type(${$(node).prevAll(node.tagName).length + 1})`
+      : node.tagName)
+    .join(' > ');
+  const rowsOf = (table: (typeof tableElements)[number]) =>
+    $(table).find('tr').toArray().filter(row => $(row).closest('table').get(0) === table);
 
-export function extractComponentInfo(html: string): ExtractedComponentInfo {
-  const $ = cheerio.load(html);
-  
-  // Try to find component type/name from various possible locations
-  const type = $('h1, h2, [class*="title"], [class*="heading"]').first().text().trim() || '';
-  
-  // Look for prop definitions in tables and definition lists
-  const props: string[] = [];
-  
-  // Check tables
-  $('table').each((_, table) => {
-    const headers = $(table).find('th').map((_, th) => $(th).text().toLowerCase()).get();
-    if (headers.some(h => h.includes('prop') || h.includes('parameter'))) {
-      $(table).find('tr').each((_, row) => {
-        const cells = $(row).find('td').map((_, td) => $(td).text().trim()).get();
-        if (cells.length > 0) {
-          props.push(cells.join(' | '));
-        }
-      });
+  // Nearest heading above each table, in document order
+  const headings = new Map<(typeof tableElements)[number], string>();
+  let lastHeading: string | undefined;
+  $('h1, h2, h3, h4, h5, h6, table').each((_, el) => {
+    if (el.tagName === 'table') {
+      if (lastHeading) headings.set(el, lastHeading);
+    } else {
+      lastHeading = $(el).text().trim().replace(/\s+/g, ' ');
     }
   });
-  
-  // Check definition lists
-  $('dl').each((_, dl) => {
-    $(dl).find('dt').each((index, dt) => {
-      const dd = $(dl).find('dd').eq(index);
-      if (dt && dd.length) {
-        props.push(`${$(dt).text().trim()} | ${dd.text().trim()}`);
-      }
-    });
+
+  return tableElements.map((table, tableIndex) => {
+    const rows = rowsOf(table).map(row => $(row).children('td, th').toArray().map(cell => {
+      const copy = $(cell).clone();
+      copy.find('table').remove();
+      return {
+        text: copy.text().trim().replace(/\s+/g, ' '),
+        header: cell.tagName === 'th' || $(cell).closest('thead').length > 0,
+        rowSpan: Number($(cell).attr('rowspan')) || 1,
+        colSpan: Number($(cell).attr('colspan')) || 1
+      };
+    }));
+
+    const parentCell = $(table).parent().closest('td, th');
+    const outerTable = parentCell.closest('table').get(0) as (typeof tableElements)[number] | undefined;
+    const outerRow = parentCell.closest('tr').get(0) as (typeof tableElements)[number] | undefined;
+    const nestedIn = outerTable && outerRow && tableIndexes.has(outerTable)
+      ? { tableIndex: tableIndexes.get(outerTable)!, row: rowsOf(outerTable).indexOf(outerRow) }
+      : undefined;
+
+    return {
+      location: { tableIndex, selector: cssPathOf(table), heading: headings.get(table) },
+      rows,
+      ...(nestedIn ? { nestedIn } : {})
+    };
   });
-  
-  // Get component description from various possible locations
-  let description = '';
-  $('p, [class*="description"], [class*="intro"]').each((_, el) => {
-    const text = $(el).text().trim();
-    if (text.length > description.length && !text.includes('import') && !text.includes('require')) {
-      description = text;
-    }
+}
+
+/**
+ * Analyse the component documented by a static HTML page with the
+ * rule-based analyzer, or null when the page documents none
+ */
+export function extractComponentInfo(html: string, url = ''): AnalyzedComponent | null {
+  const $ = cheerio.load(html);
+
+  return analyzeWithRules({
+    id: hashContent(url || html).slice(0, 12),
+    sourceUrl: url,
+    title: $('title').first().text().trim() || undefined,
+    headings: $('h1, h2').map((_, heading) => $(heading).text().trim()).get().filter(Boolean).slice(0, 1),
+    description: $('meta[name="description"]').attr('content')?.trim(),
+    paragraphs: $('main p, article p, p').map((_, paragraph) => $(paragraph).text().trim()).get(),
+    codeSamples: $('pre code, pre').map((_, code) => ({ code: $(code).text().trim() })).get()
+      .filter((sample, index, all) => sample.code && all.findIndex(other => other.code === sample.code) === index),
+    tableProps: propsFromTables(parsePropTables(readHtmlTables($)).flatMap(table => table.props))
   });
-  
-  // Extract code examples
-  const examples = $('pre code, [class*="example"] code, [class*="preview"] code')
-    .map((_, code) => $(code).text().trim())
-    .get()
-    .filter(code => code.length > 0);
-  
-  return { type, props, description, examples };
 }
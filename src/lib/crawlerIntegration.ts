@@ -7,6 +7,8 @@
 
 import { ExtractedPageContent, CrawlProgress } from '../types/types';
 import { autoSaveManager } from './dataIntegration';
+import { CrawlOptionsInput } from './crawlOptions';
+import { ApiError } from './api';
 
 /**
  * Enhanced crawler that integrates with the data management system
@@ -27,24 +29,45 @@ export class IntegratedCrawler {
   /**
    * Crawl a design system and update the data management system in real-time
    */
-  async crawlWithIntegration(url: string, signal?: AbortSignal): Promise<ExtractedPageContent[]> {
+  async crawlWithIntegration(
+    url: string,
+    signal?: AbortSignal,
+    options?: CrawlOptionsInput
+  ): Promise<ExtractedPageContent[]> {
+    return this.requestCrawl('/api/crawl-enhanced', { url, options }, url, signal);
+  }
+
+  /**
+   * Continue a checkpointed crawl and update the data management system
+   */
+  async resumeWithIntegration(crawlId: string, signal?: AbortSignal): Promise<ExtractedPageContent[]> {
+    return this.requestCrawl('/api/crawl-enhanced/resume', { crawlId }, crawlId, signal);
+  }
+
+  private async requestCrawl(
+    endpoint: string,
+    body: Record<string, unknown>,
+    sourceId: string,
+    signal?: AbortSignal
+  ): Promise<ExtractedPageContent[]> {
     this.currentPages = [];
     
     try {
-      const response = await fetch('/api/crawl-enhanced', {
+      const response = await fetch(endpoint, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ url }),
+        body: JSON.stringify(body),
         signal
       });
 
+      const data = await response.json();
+
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        // Keep the route's code, e.g. 'auth-failed' when the crawl hit a login wall
+        throw new ApiError(data.error || `HTTP error! status: ${response.status}`, response.status, data.code);
       }
-
-      const data = await response.json();
       
       if (data.success && data.pages) {
         this.currentPages = data.pages;
@@ -60,7 +83,8 @@ export class IntegratedCrawler {
         // Final progress update
         if (this.onProgressUpdate) {
           this.onProgressUpdate({
-            sourceId: url,
+            sourceId,
+            crawlId: data.crawlId,
             pagesProcessed: this.currentPages.length,
             totalPages: this.currentPages.length,
             componentsFound: this.currentPages.length,
@@ -111,7 +135,7 @@ export function useCrawlerIntegration() {
     crawler.current = new IntegratedCrawler(setPages, setProgress);
   }, []);
 
-  const crawlUrl = useCallback(async (url: string) => {
+  const crawlUrl = useCallback(async (url: string, options?: CrawlOptionsInput) => {
     if (!crawler.current) return;
 
     setIsLoading(true);
@@ -119,7 +143,7 @@ export function useCrawlerIntegration() {
     setProgress(null);
 
     try {
-      await crawler.current.crawlWithIntegration(url);
+      await crawler.current.crawlWithIntegration(url, undefined, options);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Crawling failed');
     } finally {
@@ -127,6 +151,22 @@ export function useCrawlerIntegration() {
     }
   }, []);
 
+  const resumeCrawl = useCallback(async (crawlId: string) => {
+    if (!crawler.current) return;
+
+    setIsLoading(true);
+    setError(null);
+    setProgress(null);
+
+    try {
+      await crawler.current.resumeWithIntegration(crawlId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Resuming crawl failed');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
   const clearData = useCallback(() => {
     if (crawler.current) {
       crawler.current.clearPages();
@@ -141,6 +181,7 @@ export function useCrawlerIntegration() {
     error,
     progress,
     crawlUrl,
+    resumeCrawl,
     clearData,
     setPages // Allow manual page updates
   };
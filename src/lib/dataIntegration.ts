@@ -5,9 +5,10 @@
  * and integrate crawling results with the data management system.
  */
 
-import { ExtractedPageContent, Component, ContentChunk, SemanticContent, CodeSample, ComponentProp } from '../types/types';
+import { ExtractedPageContent, Component, ContentChunk, SemanticContent, CodeSample, ComponentProp, PageScreenshot, CustomElementInfo } from '../types/types';
 import { saveToLocalStorage, loadFromLocalStorage } from './export';
 import { sanitizePageContent, generateDataInsights } from './dataUtils';
+import { analyzePageWithRules } from './ruleBasedAnalyzer';
 
 // ==================== DATA CONVERSION UTILITIES ====================
 
@@ -54,50 +55,57 @@ export function convertPagesToComponents(pages: ExtractedPageContent[]): Compone
  * Extract component information from a page
  */
 function extractComponentsFromPage(page: ExtractedPageContent): Component[] {
-  const components: Component[] = [];
-  
-  // Look for component patterns in headings and code samples
-  page.semanticContent.headings.forEach(heading => {
-    if (isComponentHeading(heading.text)) {
-      const component: Component = {
-        id: `component-${page.id}-${heading.text.toLowerCase().replace(/\s+/g, '-')}`,
-        sourceId: page.url,
-        name: heading.text,
-        description: findDescriptionForHeading(page, heading.text),
-        props: extractPropsFromPage(page),
-        codeSnippets: extractExamplesFromPage(page, heading.text).map(code => ({ code, description: `Example for ${heading.text}` })),
-        relationships: [],
-        metadata: { sourceUrl: page.url }
-      };
-      
-      components.push(component);
-    }
-  });
+  // Components read from the source (e.g. Storybook argTypes) beat guessing from the DOM
+  if (page.components && page.components.length > 0) {
+    return page.components;
+  }
 
-  // Also check for components in code samples
-  page.codeSamples.forEach(sample => {
-    if (isComponentCode(sample.code)) {
-      const componentName = extractComponentNameFromCode(sample.code);
-      if (componentName) {
-        const component: Component = {
-          id: `component-code-${page.id}-${componentName.toLowerCase().replace(/\s+/g, '-')}`,
-          sourceId: page.url,
-          name: componentName,
-          description: sample.context || '',
-          props: extractPropsFromCode(sample.code),
-          codeSnippets: [{ code: sample.code, description: `Example for ${componentName}` }],
-          relationships: [],
-          metadata: { sourceUrl: page.url }
-        };
-        
-        components.push(component);
-      }
-    }
-  });
+  // Prop tables, declared props types and JSX usage, read per section
+  const components = analyzePageWithRules(page).map(component => ({
+    ...component,
+    metadata: withScreenshot(component.metadata, findComponentScreenshot(page.screenshots, component.name))
+  }));
+
+  // Registered web components, with their API read from the element definitions
+  page.customElements
+    ?.filter(element => element.defined)
+    .forEach(element => components.push(customElementToComponent(page, element)));
 
   return components;
 }
 
+function customElementToComponent(page: ExtractedPageContent, element: CustomElementInfo): Component {
+  const props: ComponentProp[] = element.properties.map(property => ({
+    name: property.name,
+    type: property.type || 'unknown',
+    required: false,
+    description: property.attribute && property.attribute !== property.name ? `Attribute: ${property.attribute}` : ''
+  }));
+
+  // Attributes not covered by a declared property are plain string attributes
+  const covered = new Set(element.properties.flatMap(property => [property.name.toLowerCase(), property.attribute]));
+  [...element.observedAttributes, ...element.attributes]
+    .filter((attribute, index, all) => all.indexOf(attribute) === index && !covered.has(attribute))
+    .forEach(attribute => props.push({ name: attribute, type: 'string', required: false, description: '' }));
+
+  return {
+    id: `component-element-${page.id}-${element.tagName}`,
+    sourceId: page.url,
+    name: element.tagName,
+    description: '',
+    props,
+    codeSnippets: extractExamplesFromPage(page, `<${element.tagName}`).map(code => ({ code, description: `Example for <${element.tagName}>` })),
+    relationships: [],
+    metadata: withScreenshot({
+      sourceUrl: page.url,
+      tagName: element.tagName,
+      extractedWith: 'custom-elements',
+      shadowDom: element.hasShadowRoot,
+      ...(element.slots.length > 0 ? { slots: element.slots.join(', ') } : {})
+    }, findComponentScreenshot(page.screenshots, element.tagName))
+  };
+}
+
 // ==================== AUTO-SAVE UTILITIES ====================
 
 /**
@@ -374,44 +382,21 @@ function detectLanguageFromCode(code: string): string | undefined {
   return undefined;
 }
 
-function isComponentHeading(text: string): boolean {
-  const componentWords = ['button', 'input', 'modal', 'card', 'form', 'header', 'footer', 'nav', 'component'];
-  const lowercaseText = text.toLowerCase();
-  return componentWords.some(word => lowercaseText.includes(word));
-}
+/**
+ * Pick the screenshot that best illustrates a component: an example under a
+ * heading naming it, otherwise the first example, otherwise the whole page
+ */
+function findComponentScreenshot(screenshots: PageScreenshot[] = [], componentName: string): PageScreenshot | undefined {
+  const name = componentName.toLowerCase();
+  const examples = screenshots.filter(screenshot => screenshot.kind === 'example');
 
-function findDescriptionForHeading(page: ExtractedPageContent, heading: string): string {
-  // Look for paragraphs that follow the heading
-  const headingIndex = page.semanticContent.headings.findIndex(h => h.text === heading);
-  if (headingIndex >= 0 && headingIndex < page.semanticContent.paragraphs.length) {
-    return page.semanticContent.paragraphs[headingIndex] || '';
-  }
-  return '';
+  return examples.find(screenshot => screenshot.label?.toLowerCase().includes(name))
+    || examples[0]
+    || screenshots.find(screenshot => screenshot.kind === 'page');
 }
 
-function extractPropsFromPage(page: ExtractedPageContent): ComponentProp[] {
-  // Look for prop definitions in the text content
-  const props: ComponentProp[] = [];
-  
-  // Simple pattern matching for props
-  const propPatterns = [
-    /(\w+):\s*(string|number|boolean|object)/gi,
-    /(\w+)\s*\|\s*(string|number|boolean)/gi
-  ];
-
-  propPatterns.forEach(pattern => {
-    const matches = page.textContent.matchAll(pattern);
-    for (const match of matches) {
-      props.push({
-        name: match[1],
-        type: match[2],
-        required: false,
-        description: ''
-      });
-    }
-  });
-
-  return props;
+function withScreenshot(metadata: Component['metadata'], screenshot?: PageScreenshot): Component['metadata'] {
+  return screenshot ? { ...metadata, screenshot: screenshot.url } : metadata;
 }
 
 function extractExamplesFromPage(page: ExtractedPageContent, componentName: string): string[] {
@@ -420,55 +405,6 @@ function extractExamplesFromPage(page: ExtractedPageContent, componentName: stri
     .map(sample => sample.code);
 }
 
-function isComponentCode(code: string): boolean {
-  // Check if code looks like a component definition
-  return code.includes('export') && (
-    code.includes('function') || 
-    code.includes('const') || 
-    code.includes('class')
-  );
-}
-
-function extractComponentNameFromCode(code: string): string | null {
-  // Try to extract component name from various patterns
-  const patterns = [
-    /export\s+(?:default\s+)?(?:function\s+)?(\w+)/,
-    /const\s+(\w+)\s*=.*?=>/,
-    /class\s+(\w+)/
-  ];
-
-  for (const pattern of patterns) {
-    const match = code.match(pattern);
-    if (match && match[1]) {
-      return match[1];
-    }
-  }
-
-  return null;
-}
-
-function extractPropsFromCode(code: string): ComponentProp[] {
-  const props: ComponentProp[] = [];
-  
-  // Look for interface or type definitions
-  const interfaceMatch = code.match(/interface\s+\w+Props\s*{([^}]+)}/);
-  if (interfaceMatch) {
-    const propsText = interfaceMatch[1];
-    const propMatches = propsText.matchAll(/(\w+)(\?)?\s*:\s*([^;,\n]+)/g);
-    
-    for (const match of propMatches) {
-      props.push({
-        name: match[1],
-        type: match[3].trim(),
-        required: !match[2], // No ? means required
-        description: ''
-      });
-    }
-  }
-
-  return props;
-}
-
 // Export singleton instances
 export const autoSaveManager = new AutoSaveManager();
 export const bulkDataManager = new BulkDataManager();
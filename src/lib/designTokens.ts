@@ -0,0 +1,429 @@
+/**
+ * Design Token Harvesting
+ *
+ * Collects CSS custom properties and the computed colours, fonts, spacing,
+ * radii and shadows used by component examples on rendered pages, then
+ * clusters them into one normalized token set per source. Token sets are
+ * stored under `<data dir>/design-tokens` so palettes and type scales of
+ * different design systems can be compared.
+ */
+
+import type { Page } from 'puppeteer';
+import {
+  DesignToken,
+  DesignTokenCategory,
+  DesignTokenSet,
+  DesignTokenVariable,
+  ExtractedPageContent,
+  PageStyleSample
+} from '../types/types';
+import { EXAMPLE_SELECTORS } from './screenshots';
+import { hashContent } from './pageCache';
+import { listDataFiles, readJsonFile, writeJsonFile } from './storage';
+
+const TOKEN_DIR = 'design-tokens';
+const MAX_STYLED_ELEMENTS = 2000;
+// Colours closer than this (euclidean distance in RGB) are one token
+const COLOR_MERGE_DISTANCE = 6;
+
+export const TOKEN_CATEGORIES: DesignTokenCategory[] = ['color', 'fontFamily', 'fontSize', 'spacing', 'radius', 'shadow'];
+
+// Custom property names hint at what a value is for when the value alone does not
+const VARIABLE_NAME_HINTS: Array<[RegExp, DesignTokenCategory]> = [
+  [/shadow|elevation/i, 'shadow'],
+  [/radius|rounded|corner/i, 'radius'],
+  [/font-?family|typeface|font-?(sans|serif|mono)/i, 'fontFamily'],
+  [/font-?size|text-?size|type-?scale|-fs-/i, 'fontSize'],
+  [/space|spacing|gap|gutter|padding|margin|inset|size-\d/i, 'spacing'],
+  [/colou?r|bg|background|foreground|fg|border|text|brand|primary|secondary|accent|neutral|gray|grey/i, 'color']
+];
+
+export interface DesignTokenComparison {
+  sources: string[];
+  categories: Record<DesignTokenCategory, {
+    shared: string[]; // Values every source uses
+    unique: Record<string, string[]>; // Values only one source uses, by source URL
+  }>;
+}
+
+interface Rgba {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+/**
+ * Read custom properties declared on `:root`, theme selectors and in
+ * prefers-color-scheme blocks, and count the computed styles of elements
+ * inside example regions (the whole body when a page has none).
+ * `rootSelectors` overrides where elements are sampled.
+ */
+export async function collectPageStyles(page: Page, rootSelectors: string[] = EXAMPLE_SELECTORS): Promise<PageStyleSample> {
+  return page.evaluate((selectors: string[], maxElements: number) => {
+    const customProperties: PageStyleSample['customProperties'] = [];
+    // Root elements, theme attributes and whole dark/light class tokens, so not `.highlight` or `.spotlight`
+    const themeScope = /:root|(^|,)\s*(html|body)\b|\[data-(theme|mode|color-scheme|color-mode)\b|\.(theme-)?(dark|light)(-(theme|mode))?(?![\w-])/i;
+
+    const visitRules = (rules: CSSRuleList, colorScheme: boolean) => {
+      for (const rule of Array.from(rules)) {
+        if (rule instanceof CSSStyleRule) {
+          if (!colorScheme && !themeScope.test(rule.selectorText)) continue;
+          for (const property of Array.from(rule.style)) {
+            if (property.startsWith('--')) {
+              customProperties.push({
+                name: property,
+                value: rule.style.getPropertyValue(property).trim(),
+                scope: rule.selectorText
+              });
+            }
+          }
+        } else if ('cssRules' in rule) {
+          // @media, @layer and @supports blocks; every rule under prefers-color-scheme themes the page
+          const media = rule instanceof CSSMediaRule && /prefers-color-scheme/i.test(rule.media.mediaText);
+          visitRules((rule as CSSGroupingRule).cssRules, colorScheme || media);
+        }
+      }
+    };
+
+    for (const sheet of Array.from(document.styleSheets)) {
+      try {
+        visitRules(sheet.cssRules, false);
+      } catch {
+        // Cross-origin stylesheets cannot be read
+      }
+    }
+
+    // Themes applied by script usually set their variables inline on <html>
+    const inlineStyle = document.documentElement.style;
+    for (const property of Array.from(inlineStyle)) {
+      if (property.startsWith('--')) {
+        customProperties.push({ name: property, value: inlineStyle.getPropertyValue(property).trim(), scope: 'html[style]' });
+      }
+    }
+
+    const roots = Array.from(document.querySelectorAll(selectors.join(',')));
+    const elements = new Set<Element>();
+    for (const root of roots.length > 0 ? roots : [document.body]) {
+      for (const element of [root, ...Array.from(root.querySelectorAll('*'))]) {
+        if (elements.size >= maxElements) break;
+        elements.add(element);
+      }
+    }
+
+    const usage: PageStyleSample['usage'] = {
+      color: {}, fontFamily: {}, fontSize: {}, spacing: {}, radius: {}, shadow: {}
+    };
+    const count = (category: keyof PageStyleSample['usage'], value: string) => {
+      usage[category][value] = (usage[category][value] || 0) + 1;
+    };
+    const isEmpty = (value: string) => !value || ['0px', 'none', 'normal', 'auto', 'rgba(0, 0, 0, 0)', 'transparent'].includes(value);
+
+    const spacingProperties = [
+      'padding-top', 'padding-right', 'padding-bottom', 'padding-left',
+      'margin-top', 'margin-right', 'margin-bottom', 'margin-left',
+      'row-gap', 'column-gap'
+    ];
+
+    elements.forEach(element => {
+      const style = window.getComputedStyle(element);
+      if (style.display === 'none' || style.visibility === 'hidden') return;
+
+      if (element.textContent?.trim()) {
+        count('color', style.color);
+        count('fontFamily', style.fontFamily);
+        count('fontSize', style.fontSize);
+      }
+      if (!isEmpty(style.backgroundColor)) count('color', style.backgroundColor);
+      if (parseFloat(style.borderTopWidth) > 0 && style.borderTopStyle !== 'none' && !isEmpty(style.borderTopColor)) {
+        count('color', style.borderTopColor);
+      }
+
+      spacingProperties.forEach(property => {
+        const value = style.getPropertyValue(property);
+        if (!isEmpty(value) && !value.startsWith('-')) count('spacing', value);
+      });
+
+      if (!isEmpty(style.borderRadius)) count('radius', style.borderRadius);
+      if (!isEmpty(style.boxShadow)) count('shadow', style.boxShadow);
+    });
+
+    return { customProperties, usage };
+  }, rootSelectors, MAX_STYLED_ELEMENTS);
+}
+
+function parseColor(value: string): Rgba | null {
+  const rgb = value.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)$/i);
+  if (rgb) {
+    const alpha = rgb[4] === undefined ? 1 : rgb[4].endsWith('%') ? parseFloat(rgb[4]) / 100 : parseFloat(rgb[4]);
+    return { r: Math.round(Number(rgb[1])), g: Math.round(Number(rgb[2])), b: Math.round(Number(rgb[3])), a: alpha };
+  }
+
+  const hex = value.match(/^#([0-9a-f]{3,8})$/i);
+  if (hex && [3, 4, 6, 8].includes(hex[1].length)) {
+    const digits = hex[1].length <= 4 ? hex[1].split('').map(digit => digit + digit).join('') : hex[1];
+    return {
+      r: parseInt(digits.slice(0, 2), 16),
+      g: parseInt(digits.slice(2, 4), 16),
+      b: parseInt(digits.slice(4, 6), 16),
+      a: digits.length === 8 ? parseInt(digits.slice(6, 8), 16) / 255 : 1
+    };
+  }
+
+  return null;
+}
+
+function formatColor({ r, g, b, a }: Rgba): string {
+  const hex = [r, g, b].map(channel => channel.toString(16).padStart(2, '0')).join('');
+  return a >= 1 ? `#${hex}` : `#${hex}${Math.round(a * 255).toString(16).padStart(2, '0')}`;
+}
+
+function colorDistance(a: Rgba, b: Rgba): number {
+  return Math.sqrt((a.r - b.r) ** 2 + (a.g - b.g) ** 2 + (a.b - b.b) ** 2);
+}
+
+function parsePixels(value: string): number | null {
+  const match = value.match(/^(-?[\d.]+)px$/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Bring a raw CSS value into the form tokens are compared in: hex colours,
+ * rounded pixel sizes, collapsed whitespace. Returns null for values that
+ * carry no token information.
+ */
+export function normalizeTokenValue(category: DesignTokenCategory, value: string): string | null {
+  const trimmed = value.trim().replace(/\s+/g, ' ');
+  if (!trimmed) return null;
+
+  switch (category) {
+    case 'color': {
+      const color = parseColor(trimmed);
+      if (!color) return trimmed.toLowerCase();
+      return color.a === 0 ? null : formatColor(color);
+    }
+    case 'fontSize':
+    case 'spacing': {
+      const pixels = parsePixels(trimmed);
+      if (pixels === null) return trimmed;
+      const rounded = Math.round(pixels * 2) / 2;
+      return rounded <= 0 ? null : `${rounded}px`;
+    }
+    case 'radius': {
+      // Collapse `4px 4px 4px 4px` to `4px`
+      const parts = trimmed.split(' ');
+      return parts.every(part => part === parts[0]) ? parts[0] : trimmed;
+    }
+    case 'shadow':
+      return trimmed.replace(/rgba?\([^)]*\)/gi, match => {
+        const color = parseColor(match);
+        return color ? formatColor(color) : match;
+      });
+    case 'fontFamily':
+      return trimmed.replace(/"/g, "'");
+  }
+}
+
+function guessVariableCategory(name: string, value: string): DesignTokenCategory | undefined {
+  if (parseColor(value)) return 'color';
+  return VARIABLE_NAME_HINTS.find(([pattern]) => pattern.test(name))?.[1];
+}
+
+function numericValue(value: string): number {
+  const match = value.match(/-?[\d.]+/);
+  return match ? Number(match[0]) : Number.POSITIVE_INFINITY;
+}
+
+function tokenName(category: DesignTokenCategory, value: string, index: number): string {
+  switch (category) {
+    case 'color':
+      return `color-${index + 1}`;
+    case 'fontFamily':
+      return `font-${value.split(',')[0].replace(/['"]/g, '').trim().toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+    case 'fontSize':
+      return `font-size-${value.replace(/px$/, '').replace('.', '_')}`;
+    case 'spacing':
+      return `space-${value.replace(/px$/, '').replace('.', '_')}`;
+    case 'radius':
+      return `radius-${index + 1}`;
+    case 'shadow':
+      return `shadow-${index + 1}`;
+  }
+}
+
+/**
+ * Cluster the style samples of a crawl into a design token set. Identical
+ * normalized values are merged, near-identical colours are folded into the
+ * most used one, and tokens are named after a custom property holding their
+ * value when there is one.
+ */
+export function buildDesignTokenSet(sourceUrl: string, pages: ExtractedPageContent[]): DesignTokenSet {
+  const sampledPages = pages.filter(page => page.styles);
+
+  // Custom properties, keyed by name; the value from :root wins over themes
+  const variables = new Map<string, DesignTokenVariable>();
+  const rootValues = new Set<string>();
+  sampledPages.forEach(page => {
+    page.styles!.customProperties.forEach(({ name, value, scope }) => {
+      const isRoot = scope.includes(':root');
+      const existing = variables.get(name);
+
+      if (!existing) {
+        variables.set(name, { name, value, scopes: [scope] });
+      } else {
+        if (!existing.scopes.includes(scope)) existing.scopes.push(scope);
+        if (isRoot && !rootValues.has(name)) existing.value = value;
+      }
+      if (isRoot) rootValues.add(name);
+    });
+  });
+  variables.forEach(variable => {
+    // Follow one level of aliasing such as `--button-bg: var(--primary)`
+    const reference = variable.value.match(/^var\(\s*(--[\w-]+)\s*\)$/);
+    const target = reference && variables.get(reference[1]);
+    if (target) variable.value = target.value;
+  });
+  variables.forEach(variable => {
+    variable.category = guessVariableCategory(variable.name, variable.value);
+    if (variable.category) {
+      variable.value = normalizeTokenValue(variable.category, variable.value) ?? variable.value;
+    }
+  });
+
+  const tokens = {} as Record<DesignTokenCategory, DesignToken[]>;
+
+  TOKEN_CATEGORIES.forEach(category => {
+    const totals = new Map<string, { usageCount: number; pages: Set<string> }>();
+
+    sampledPages.forEach(page => {
+      Object.entries(page.styles!.usage[category] || {}).forEach(([rawValue, count]) => {
+        const value = normalizeTokenValue(category, rawValue);
+        if (!value) return;
+
+        const total = totals.get(value) || { usageCount: 0, pages: new Set<string>() };
+        total.usageCount += count;
+        total.pages.add(page.id);
+        totals.set(value, total);
+      });
+    });
+
+    let categoryTokens: DesignToken[] = Array.from(totals.entries())
+      .sort(([, a], [, b]) => b.usageCount - a.usageCount)
+      .map(([value, total]) => ({
+        name: '',
+        category,
+        value,
+        usageCount: total.usageCount,
+        pageCount: total.pages.size
+      }));
+
+    if (category === 'color') {
+      categoryTokens = clusterColors(categoryTokens);
+    }
+
+    if (category === 'fontSize' || category === 'spacing' || category === 'radius') {
+      // Scales read smallest to largest
+      categoryTokens.sort((a, b) => numericValue(a.value) - numericValue(b.value));
+    }
+
+    categoryTokens.forEach((token, index) => {
+      const values = [token.value, ...(token.aliases || [])];
+      const holders = Array.from(variables.values())
+        .filter(variable => variable.category === category && values.includes(variable.value))
+        .map(variable => variable.name);
+
+      if (holders.length > 0) token.variables = holders;
+      token.name = holders[0]?.replace(/^--/, '') || tokenName(category, token.value, index);
+    });
+
+    tokens[category] = categoryTokens;
+  });
+
+  return {
+    sourceUrl,
+    generatedAt: new Date().toISOString(),
+    pageCount: sampledPages.length,
+    tokens,
+    variables: Array.from(variables.values()).sort((a, b) => a.name.localeCompare(b.name))
+  };
+}
+
+/**
+ * Fold colours into the most used colour within COLOR_MERGE_DISTANCE of them.
+ * Expects tokens sorted by usage, most used first.
+ */
+function clusterColors(tokens: DesignToken[]): DesignToken[] {
+  const clusters: Array<{ token: DesignToken; color: Rgba | null }> = [];
+
+  tokens.forEach(token => {
+    const color = parseColor(token.value);
+    const cluster = color && clusters.find(candidate =>
+      candidate.color &&
+      Math.abs(candidate.color.a - color.a) < 0.05 &&
+      colorDistance(candidate.color, color) <= COLOR_MERGE_DISTANCE
+    );
+
+    if (cluster) {
+      cluster.token.usageCount += token.usageCount;
+      cluster.token.pageCount = Math.max(cluster.token.pageCount, token.pageCount);
+      cluster.token.aliases = [...(cluster.token.aliases || []), token.value];
+    } else {
+      clusters.push({ token: { ...token }, color });
+    }
+  });
+
+  return clusters.map(cluster => cluster.token);
+}
+
+/**
+ * Which token values the given sources share and which are unique to one
+ */
+export function compareDesignTokens(sets: DesignTokenSet[]): DesignTokenComparison {
+  const categories = {} as DesignTokenComparison['categories'];
+
+  TOKEN_CATEGORIES.forEach(category => {
+    const valuesBySource = sets.map(set => new Set(set.tokens[category]?.map(token => token.value) || []));
+    const allValues = new Set(valuesBySource.flatMap(values => Array.from(values)));
+
+    categories[category] = {
+      shared: Array.from(allValues).filter(value => valuesBySource.every(values => values.has(value))),
+      unique: Object.fromEntries(sets.map((set, index) => [
+        set.sourceUrl,
+        Array.from(valuesBySource[index]).filter(value =>
+          valuesBySource.every((values, other) => other === index || !values.has(value))
+        )
+      ]))
+    };
+  });
+
+  return { sources: sets.map(set => set.sourceUrl), categories };
+}
+
+// The readable part is for people browsing the directory; the hash keeps
+// sources such as my-site.com/ui and my.site.com/ui apart
+function tokenFile(sourceUrl: string): string {
+  const parsed = new URL(sourceUrl);
+  const key = `${parsed.host}${parsed.pathname}`.replace(/\/+$/, '');
+  return `${key.replace(/[^a-z0-9]+/gi, '_').slice(0, 80)}-${hashContent(key).slice(0, 16)}.json`;
+}
+
+export async function saveDesignTokens(tokenSet: DesignTokenSet): Promise<void> {
+  await writeJsonFile(tokenSet, TOKEN_DIR, tokenFile(tokenSet.sourceUrl));
+}
+
+export async function loadDesignTokens(sourceUrl: string): Promise<DesignTokenSet | null> {
+  return readJsonFile<DesignTokenSet>(TOKEN_DIR, tokenFile(sourceUrl));
+}
+
+export async function listDesignTokenSets(): Promise<DesignTokenSet[]> {
+  const files = await listDataFiles(TOKEN_DIR);
+  const sets = await Promise.all(
+    files
+      .filter(file => file.endsWith('.json'))
+      .map(file => readJsonFile<DesignTokenSet>(TOKEN_DIR, file).catch(() => null))
+  );
+
+  return sets
+    .filter((set): set is DesignTokenSet => set !== null)
+    .sort((a, b) => a.sourceUrl.localeCompare(b.sourceUrl));
+}
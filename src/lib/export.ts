@@ -1,10 +1,12 @@
-import { ExtractedPageContent } from '../types/types';
+import { ContentSection, ExtractedPageContent, PropTable } from '../types/types';
 
 export interface ExportOptions {
   format: 'json' | 'csv' | 'markdown' | 'html';
   includeCodeSamples?: boolean;
   includeMetadata?: boolean;
   includeSemanticContent?: boolean;
+  includeScreenshots?: boolean;
+  assetBaseUrl?: string; // Origin that serves /api/screenshots, so exported HTML works outside the app
   minifyJson?: boolean;
   separateCodeFiles?: boolean;
   filename?: string;
@@ -211,8 +213,14 @@ function exportToMarkdown(
     lines.push(`**Render Time:** ${page.renderTime || 0}ms`);
     lines.push('');
 
-    // Semantic content
-    if (options.includeSemanticContent !== false && page.semanticContent.headings.length > 0) {
+    // Semantic content, following the page's section tree when it has one
+    const sections = options.includeSemanticContent !== false ? page.semanticContent.sections ?? [] : [];
+    const inlinedSamples = options.includeCodeSamples !== false ? getSectionCodeIndexes(sections) : new Set<number>();
+    if (sections.length > 0) {
+      lines.push('### Content');
+      lines.push('');
+      appendSectionsMarkdown(lines, sections, page, options);
+    } else if (options.includeSemanticContent !== false && page.semanticContent.headings.length > 0) {
       lines.push('### Headings');
       lines.push('');
       page.semanticContent.headings.forEach(heading => {
@@ -222,11 +230,12 @@ function exportToMarkdown(
       lines.push('');
     }
 
-    // Code samples
-    if (options.includeCodeSamples !== false && page.codeSamples.length > 0) {
-      lines.push('### Code Samples');
+    // Code samples not already shown in their section
+    const remainingSamples = page.codeSamples.filter((_, sampleIndex) => !inlinedSamples.has(sampleIndex));
+    if (options.includeCodeSamples !== false && remainingSamples.length > 0) {
+      lines.push(inlinedSamples.size > 0 ? '### Other Code Samples' : '### Code Samples');
       lines.push('');
-      page.codeSamples.forEach((sample, sampleIndex) => {
+      remainingSamples.forEach((sample, sampleIndex) => {
         const language = sample.language || sample.detectedLanguage || '';
         lines.push(`#### Sample ${sampleIndex + 1}`);
         if (sample.context) {
@@ -304,6 +313,13 @@ function exportToHtml(
     .stat { text-align: center; }
     .stat-value { font-size: 2em; font-weight: bold; color: #0366d6; }
     .stat-label { font-size: 0.9em; color: #666; }
+    .screenshots { display: grid; grid-template-columns: repeat(auto-fill, minmax(240px, 1fr)); gap: 16px; margin: 15px 0; }
+    .screenshots figure { margin: 0; border: 1px solid #e1e4e8; border-radius: 6px; padding: 8px; background: #fff; }
+    .screenshots img { width: 100%; height: auto; display: block; }
+    .screenshots figcaption { font-size: 0.85em; color: #666; margin-top: 6px; }
+    .content-section .content-section { margin-left: 16px; }
+    .prop-table { border-collapse: collapse; margin: 10px 0; }
+    .prop-table th, .prop-table td { border: 1px solid #e1e4e8; padding: 4px 8px; text-align: left; vertical-align: top; }
   </style>
 </head>
 <body>
@@ -343,7 +359,10 @@ function exportToHtml(
     ${page.metadata.description ? `<p><strong>Description:</strong> ${escapeHtml(page.metadata.description)}</p>` : ''}
     <p><strong>Render Time:</strong> ${page.renderTime || 0}ms</p>
 
-    ${options.includeSemanticContent !== false && page.semanticContent.headings.length > 0 ? `
+    ${options.includeSemanticContent !== false && page.semanticContent.sections?.length ? `
+    <h3>Content</h3>
+    ${renderSectionsHtml(page.semanticContent.sections, page, options)}
+    ` : options.includeSemanticContent !== false && page.semanticContent.headings.length > 0 ? `
     <h3>Headings</h3>
     <ul>
       ${page.semanticContent.headings.map(heading => 
@@ -352,9 +371,23 @@ function exportToHtml(
     </ul>
     ` : ''}
 
-    ${options.includeCodeSamples !== false && page.codeSamples.length > 0 ? `
-    <h3>Code Samples</h3>
-    ${page.codeSamples.map((sample, sampleIndex) => `
+    ${options.includeScreenshots !== false && page.screenshots && page.screenshots.length > 0 ? `
+    <h3>Screenshots</h3>
+    <div class="screenshots">
+      ${page.screenshots.map(screenshot => `
+      <figure>
+        <a href="${escapeHtml(`${options.assetBaseUrl || ''}${screenshot.url}`)}" target="_blank">
+          <img src="${escapeHtml(`${options.assetBaseUrl || ''}${screenshot.url}`)}" alt="${escapeHtml(screenshot.label || (screenshot.kind === 'page' ? 'Full page' : 'Example'))}" loading="lazy">
+        </a>
+        <figcaption>${escapeHtml(screenshot.kind === 'page' ? 'Full page' : screenshot.label || 'Example')}</figcaption>
+      </figure>
+      `).join('\n      ')}
+    </div>
+    ` : ''}
+
+    ${options.includeCodeSamples !== false && getRemainingSamples(page, options).length > 0 ? `
+    <h3>${getRemainingSamples(page, options).length < page.codeSamples.length ? 'Other Code Samples' : 'Code Samples'}</h3>
+    ${getRemainingSamples(page, options).map((sample, sampleIndex) => `
     <div class="code-sample">
       <h4>Sample ${sampleIndex + 1}</h4>
       ${sample.context ? `<p><strong>Context:</strong> ${escapeHtml(sample.context)}</p>` : ''}
@@ -386,6 +419,110 @@ function exportToHtml(
   };
 }
 
+/**
+ * Indexes of the code samples placed in a section tree
+ */
+function getSectionCodeIndexes(sections: ContentSection[]): Set<number> {
+  const indexes = new Set<number>();
+  const visit = (section: ContentSection) => {
+    section.blocks.forEach(block => {
+      if (block.kind === 'code') indexes.add(block.codeSampleIndex);
+    });
+    section.children.forEach(visit);
+  };
+  sections.forEach(visit);
+  return indexes;
+}
+
+/**
+ * Code samples still to list after the section tree showed its own inline
+ */
+function getRemainingSamples(page: ExtractedPageContent, options: ExportOptions) {
+  const sections = options.includeSemanticContent !== false ? page.semanticContent.sections ?? [] : [];
+  const inlined = getSectionCodeIndexes(sections);
+  return page.codeSamples.filter((_, sampleIndex) => !inlined.has(sampleIndex));
+}
+
+function findPropTable(page: ExtractedPageContent, tableIndex: number): PropTable | undefined {
+  return page.propTables?.find(table => table.location.tableIndex === tableIndex);
+}
+
+function appendSectionsMarkdown(
+  lines: string[],
+  sections: ContentSection[],
+  page: ExtractedPageContent,
+  options: ExportOptions
+): void {
+  const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+  sections.forEach(section => {
+    if (section.heading) {
+      // Page-level headings in the report are ## and ###, so sections start below them
+      lines.push(`${'#'.repeat(Math.min(section.level + 3, 6))} ${section.heading}`);
+      lines.push('');
+    }
+
+    section.blocks.forEach(block => {
+      if (block.kind === 'paragraph') {
+        lines.push(block.text);
+        lines.push('');
+      } else if (block.kind === 'list') {
+        block.items.forEach((item, itemIndex) => {
+          lines.push(block.listType === 'ol' ? `${itemIndex + 1}. ${item}` : `- ${item}`);
+        });
+        lines.push('');
+      } else if (block.kind === 'code' && options.includeCodeSamples !== false) {
+        const sample = page.codeSamples[block.codeSampleIndex];
+        if (!sample) return;
+        lines.push(`\`\`\`${sample.language || sample.detectedLanguage || ''}`);
+        lines.push(sample.code);
+        lines.push('```');
+        lines.push('');
+      } else if (block.kind === 'table') {
+        const table = findPropTable(page, block.tableIndex);
+        if (!table) return;
+        lines.push('| Prop | Type | Default | Required | Description |');
+        lines.push('| --- | --- | --- | --- | --- |');
+        table.props.forEach(prop => {
+          lines.push(`| ${escapeCell(prop.name)} | ${escapeCell(prop.type)} | ${escapeCell(prop.defaultValue || '')} | ${prop.required ? 'Yes' : ''} | ${escapeCell(prop.description)} |`);
+        });
+        lines.push('');
+      }
+    });
+
+    appendSectionsMarkdown(lines, section.children, page, options);
+  });
+}
+
+function renderSectionsHtml(sections: ContentSection[], page: ExtractedPageContent, options: ExportOptions): string {
+  return sections.map(section => {
+    const tag = `h${Math.min(section.level + 3, 6)}`;
+    const blocks = section.blocks.map(block => {
+      if (block.kind === 'paragraph') return `<p>${escapeHtml(block.text)}</p>`;
+      if (block.kind === 'list') {
+        return `<${block.listType}>${block.items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</${block.listType}>`;
+      }
+      if (block.kind === 'code') {
+        const sample = page.codeSamples[block.codeSampleIndex];
+        return sample && options.includeCodeSamples !== false
+          ? `<div class="code-sample"><pre><code>${escapeHtml(sample.code)}</code></pre></div>`
+          : '';
+      }
+      const table = findPropTable(page, block.tableIndex);
+      return table ? `<table class="prop-table">
+        <tr><th>Prop</th><th>Type</th><th>Default</th><th>Required</th><th>Description</th></tr>
+        ${table.props.map(prop => `<tr><td><code>${escapeHtml(prop.name)}</code></td><td><code>${escapeHtml(prop.type)}</code></td><td>${escapeHtml(prop.defaultValue || '')}</td><td>${prop.required ? 'Yes' : ''}</td><td>${escapeHtml(prop.description)}</td></tr>`).join('\n        ')}
+      </table>` : '';
+    }).join('\n');
+
+    return `<section class="content-section">
+      ${section.heading ? `<${tag}>${escapeHtml(section.heading)}</${tag}>` : ''}
+      ${blocks}
+      ${renderSectionsHtml(section.children, page, options)}
+    </section>`;
+  }).join('\n');
+}
+
 /**
  * Create separate files for code samples
  */
@@ -559,6 +696,7 @@ interface CompressedPage {
     a: string[];
     ar: string[];
     lm: Array<{ role: string; label?: string; content?: string }>;
+    sc?: ContentSection[];
   };
   m: Record<string, unknown> | undefined;
   c: Array<{
@@ -599,7 +737,8 @@ function compressPages(pages: ExtractedPageContent[]): CompressedData {
         l: page.semanticContent.lists,
         a: page.semanticContent.altTexts,
         ar: page.semanticContent.ariaLabels,
-        lm: page.semanticContent.landmarks
+        lm: page.semanticContent.landmarks,
+        sc: page.semanticContent.sections
       },
       m: page.metadata as Record<string, unknown> | undefined,
       c: page.codeSamples,
@@ -626,7 +765,8 @@ function decompressPages(compressed: CompressedData): ExtractedPageContent[] {
       lists: p.s.l || [],
       altTexts: p.s.a || [],
       ariaLabels: p.s.ar || [],
-      landmarks: p.s.lm || []
+      landmarks: p.s.lm || [],
+      sections: p.s.sc
     },
     metadata: p.m || {},
     codeSamples: p.c || [],
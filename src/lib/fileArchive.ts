@@ -0,0 +1,154 @@
+/**
+ * File Archives
+ *
+ * Reads the files of zip and (gzipped) tar archives in memory, so exported
+ * documentation can be ingested without unpacking it. Supports stored and
+ * deflated zip entries and ustar/GNU/pax tar headers; zip64 and encrypted
+ * archives are rejected.
+ */
+
+import { promises as fs } from 'fs';
+import { gunzipSync, inflateRawSync } from 'zlib';
+
+const ARCHIVE_FILE = /\.(zip|tar|tgz|tar\.gz)$/i;
+const MAX_ARCHIVE_BYTES = 200 * 1024 * 1024;
+const MAX_ENTRY_BYTES = 10 * 1024 * 1024;
+
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+const ZIP_DIRECTORY_ENTRY = 0x02014b50;
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const TAR_BLOCK = 512;
+
+export function isArchiveFile(filePath: string): boolean {
+  return ARCHIVE_FILE.test(filePath);
+}
+
+function normalizeEntryPath(name: string): string {
+  return name.replace(/\\/g, '/').replace(/^(\.\/|\/)+/, '');
+}
+
+function readZipEntries(data: Buffer, include: (entryPath: string) => boolean): Map<string, Buffer> {
+  // The end-of-directory record sits at the end, before an optional comment
+  let end = -1;
+  for (let offset = data.length - 22; offset >= Math.max(0, data.length - 22 - 0xffff); offset--) {
+    if (data.readUInt32LE(offset) === ZIP_END_OF_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('Not a zip archive');
+
+  const entryCount = data.readUInt16LE(end + 10);
+  let offset = data.readUInt32LE(end + 16);
+  if (offset === 0xffffffff) throw new Error('Zip64 archives are not supported');
+
+  const entries = new Map<string, Buffer>();
+  for (let index = 0; index < entryCount; index++) {
+    if (data.readUInt32LE(offset) !== ZIP_DIRECTORY_ENTRY) throw new Error('Corrupt zip central directory');
+
+    const flags = data.readUInt16LE(offset + 8);
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const size = data.readUInt32LE(offset + 24);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const name = normalizeEntryPath(data.toString('utf8', offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/') || !include(name)) continue;
+    if (flags & 0x1) throw new Error(`Zip entry ${name} is encrypted`);
+    if (size > MAX_ENTRY_BYTES) {
+      console.warn(`Skipping archive entry ${name}: larger than ${MAX_ENTRY_BYTES} bytes`);
+      continue;
+    }
+
+    if (data.readUInt32LE(localOffset) !== ZIP_LOCAL_HEADER) throw new Error(`Corrupt zip entry ${name}`);
+    const dataStart = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+    const compressed = data.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      entries.set(name, Buffer.from(compressed));
+    } else if (method === 8) {
+      // The declared size is not trusted: a zip bomb would declare a small one
+      try {
+        entries.set(name, inflateRawSync(compressed, { maxOutputLength: MAX_ENTRY_BYTES }));
+      } catch (error) {
+        console.warn(`Skipping archive entry ${name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    } else {
+      console.warn(`Skipping archive entry ${name}: unsupported compression method ${method}`);
+    }
+  }
+  return entries;
+}
+
+function readTarString(block: Buffer, start: number, length: number): string {
+  const raw = block.subarray(start, start + length);
+  const nul = raw.indexOf(0);
+  return raw.toString('utf8', 0, nul < 0 ? raw.length : nul);
+}
+
+function readTarEntries(data: Buffer, include: (entryPath: string) => boolean): Map<string, Buffer> {
+  const entries = new Map<string, Buffer>();
+  let offset = 0;
+  let longName: string | null = null;
+
+  while (offset + TAR_BLOCK <= data.length) {
+    const header = data.subarray(offset, offset + TAR_BLOCK);
+    if (header.every(byte => byte === 0)) break; // End-of-archive marker
+
+    const size = parseInt(readTarString(header, 124, 12).trim() || '0', 8);
+    const type = String.fromCharCode(header[156] || 48);
+    const prefix = readTarString(header, 257, 6).startsWith('ustar') ? readTarString(header, 345, 155) : '';
+    const headerName = prefix ? `${prefix}/${readTarString(header, 0, 100)}` : readTarString(header, 0, 100);
+    const body = data.subarray(offset + TAR_BLOCK, offset + TAR_BLOCK + size);
+    offset += TAR_BLOCK + Math.ceil(size / TAR_BLOCK) * TAR_BLOCK;
+
+    if (type === 'L') {
+      // GNU long name of the next entry
+      longName = body.toString('utf8').replace(/\0+$/, '');
+      continue;
+    }
+    if (type === 'x') {
+      // pax header; only the path matters here
+      longName = body.toString('utf8').match(/^\d+ path=(.*)$/m)?.[1] ?? longName;
+      continue;
+    }
+
+    const name = normalizeEntryPath(longName ?? headerName);
+    longName = null;
+    if ((type !== '0' && type !== '7') || !include(name)) continue;
+    if (size > MAX_ENTRY_BYTES) {
+      console.warn(`Skipping archive entry ${name}: larger than ${MAX_ENTRY_BYTES} bytes`);
+      continue;
+    }
+    entries.set(name, Buffer.from(body));
+  }
+  return entries;
+}
+
+/**
+ * Read the files of an archive that pass `include`, keyed by their path
+ * inside the archive
+ */
+export async function readArchiveEntries(
+  archivePath: string,
+  include: (entryPath: string) => boolean = () => true
+): Promise<Map<string, Buffer>> {
+  const stats = await fs.stat(archivePath);
+  if (stats.size > MAX_ARCHIVE_BYTES) {
+    throw new Error(`Archive ${archivePath} is larger than ${MAX_ARCHIVE_BYTES} bytes`);
+  }
+
+  let data = await fs.readFile(archivePath);
+  if (/\.zip$/i.test(archivePath)) {
+    return readZipEntries(data, include);
+  }
+
+  if (data[0] === 0x1f && data[1] === 0x8b) {
+    data = gunzipSync(data, { maxOutputLength: MAX_ARCHIVE_BYTES });
+  }
+  return readTarEntries(data, include);
+}
@@ -0,0 +1,241 @@
+/**
+ * LLM Providers
+ *
+ * The models behind /api/analyze. A provider turns a prompt into text and
+ * lists the models its server offers; which one is used, and where it lives,
+ * comes from the environment so each deployment (.env.development,
+ * .env.production, ...) can point at its own server:
+ *
+ * - LLM_PROVIDER: ollama (default), openai-compatible or mock
+ * - LLM_BASE_URL: server URL, e.g. http://localhost:8080/v1 for llama.cpp
+ * - LLM_MODEL: model name passed to the server
+ * - LLM_API_KEY: bearer token for OpenAI-compatible servers that need one
+ * - LLM_TIMEOUT_MS: per-request timeout
+ */
+
+export type LlmProviderName = 'ollama' | 'openai-compatible' | 'mock';
+
+export const LLM_PROVIDERS: LlmProviderName[] = ['ollama', 'openai-compatible', 'mock'];
+
+export interface LlmProviderConfig {
+  provider: LlmProviderName;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  timeoutMs: number;
+}
+
+export interface LlmGenerateOptions {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  timeoutMs?: number;
+  jsonSchema?: Record<string, unknown>; // Constrain the reply to JSON matching this schema
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly model: string;
+  readonly baseUrl: string;
+  generate: (prompt: string, options?: LlmGenerateOptions) => Promise<string>;
+  listModels: () => Promise<string[]>;
+}
+
+export class LlmProviderError extends Error {
+  readonly provider: LlmProviderName;
+  readonly status?: number;
+
+  constructor(message: string, provider: LlmProviderName, status?: number) {
+    super(message);
+    this.name = 'LlmProviderError';
+    this.provider = provider;
+    this.status = status;
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+const PROVIDER_DEFAULTS: Record<LlmProviderName, { baseUrl: string; model: string }> = {
+  ollama: { baseUrl: 'http://localhost:11434', model: 'llama3:latest' },
+  // llama.cpp's server listens on 8080; vLLM (8000) and LM Studio (1234) need LLM_BASE_URL
+  'openai-compatible': { baseUrl: 'http://localhost:8080/v1', model: 'default' },
+  mock: { baseUrl: 'mock://', model: 'mock' }
+};
+
+/**
+ * Read the provider configuration from environment variables
+ */
+export function getLlmProviderConfig(env: Record<string, string | undefined> = process.env): LlmProviderConfig {
+  const provider = (env.LLM_PROVIDER || 'ollama').trim().toLowerCase() as LlmProviderName;
+  if (!LLM_PROVIDERS.includes(provider)) {
+    throw new Error(`LLM_PROVIDER must be one of: ${LLM_PROVIDERS.join(', ')}`);
+  }
+
+  const timeoutMs = env.LLM_TIMEOUT_MS ? Number(env.LLM_TIMEOUT_MS) : DEFAULT_TIMEOUT_MS;
+  if (!Number.isInteger(timeoutMs) || timeoutMs <= 0) {
+    throw new Error('LLM_TIMEOUT_MS must be a positive integer');
+  }
+
+  return {
+    provider,
+    baseUrl: (env.LLM_BASE_URL || PROVIDER_DEFAULTS[provider].baseUrl).replace(/\/+$/, ''),
+    model: env.LLM_MODEL || PROVIDER_DEFAULTS[provider].model,
+    apiKey: env.LLM_API_KEY || undefined,
+    timeoutMs
+  };
+}
+
+async function requestJson<T>(
+  provider: LlmProviderName,
+  url: string,
+  init: Omit<RequestInit, 'signal'> & { timeoutMs: number; signal?: AbortSignal }
+): Promise<T> {
+  const { timeoutMs, signal, ...rest } = init;
+  const timeout = AbortSignal.timeout(timeoutMs);
+  let response: Response;
+  try {
+    response = await fetch(url, { ...rest, signal: signal ? AbortSignal.any([signal, timeout]) : timeout });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    const reason = error instanceof Error ? (error.cause instanceof Error ? error.cause.message : error.message) : String(error);
+    throw new LlmProviderError(`${provider} server at ${url} is unreachable: ${reason}`, provider);
+  }
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new LlmProviderError(
+      `${provider} request to ${url} failed with ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`,
+      provider,
+      response.status
+    );
+  }
+  return response.json() as Promise<T>;
+}
+
+function createOllamaProvider(config: LlmProviderConfig): LlmProvider {
+  return {
+    name: 'ollama',
+    model: config.model,
+    baseUrl: config.baseUrl,
+    generate: async (prompt, options = {}) => {
+      const result = await requestJson<{ response?: string }>('ollama', `${config.baseUrl}/api/generate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        timeoutMs: options.timeoutMs ?? config.timeoutMs,
+        signal: options.signal,
+        body: JSON.stringify({
+          model: config.model,
+          prompt,
+          stream: false,
+          format: options.jsonSchema,
+          options: {
+            temperature: options.temperature,
+            top_p: options.topP,
+            num_predict: options.maxTokens
+          }
+        })
+      });
+      return result.response ?? '';
+    },
+    listModels: async () => {
+      const result = await requestJson<{ models?: Array<{ name: string }> }>('ollama', `${config.baseUrl}/api/tags`, {
+        method: 'GET',
+        timeoutMs: Math.min(config.timeoutMs, 5000)
+      });
+      return (result.models ?? []).map(model => model.name);
+    }
+  };
+}
+
+/**
+ * Servers speaking the OpenAI chat completions API: llama.cpp, vLLM,
+ * LM Studio and the like. `baseUrl` includes the `/v1` prefix.
+ */
+function createOpenAiCompatibleProvider(config: LlmProviderConfig): LlmProvider {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+  return {
+    name: 'openai-compatible',
+    model: config.model,
+    baseUrl: config.baseUrl,
+    generate: async (prompt, options = {}) => {
+      const result = await requestJson<{ choices?: Array<{ message?: { content?: string } }> }>(
+        'openai-compatible',
+        `${config.baseUrl}/chat/completions`,
+        {
+          method: 'POST',
+          headers,
+          timeoutMs: options.timeoutMs ?? config.timeoutMs,
+          signal: options.signal,
+          body: JSON.stringify({
+            model: config.model,
+            messages: [{ role: 'user', content: prompt }],
+            stream: false,
+            temperature: options.temperature,
+            top_p: options.topP,
+            max_tokens: options.maxTokens,
+            response_format: options.jsonSchema
+              ? { type: 'json_schema', json_schema: { name: 'response', strict: true, schema: options.jsonSchema } }
+              : undefined
+          })
+        }
+      );
+      return result.choices?.[0]?.message?.content ?? '';
+    },
+    listModels: async () => {
+      const result = await requestJson<{ data?: Array<{ id: string }> }>('openai-compatible', `${config.baseUrl}/models`, {
+        method: 'GET',
+        headers,
+        timeoutMs: Math.min(config.timeoutMs, 5000)
+      });
+      return (result.data ?? []).map(model => model.id);
+    }
+  };
+}
+
+/**
+ * Answers without a server: the same prompt always gives the same reply.
+ * Replies are component JSON naming the first component-like identifier in
+ * the prompt's content, or LLM_MOCK_RESPONSE verbatim when it is set.
+ */
+function createMockProvider(config: LlmProviderConfig, fixedResponse?: string): LlmProvider {
+  return {
+    name: 'mock',
+    model: config.model,
+    baseUrl: config.baseUrl,
+    generate: async (prompt, options = {}) => {
+      options.signal?.throwIfAborted();
+      if (fixedResponse !== undefined) return fixedResponse;
+
+      const name = prompt.match(/\b(?:function|class|const|interface|type)\s+([A-Z][A-Za-z0-9]*)/)?.[1]
+        ?? prompt.match(/^#{1,3}\s+([A-Z][A-Za-z0-9]*)/m)?.[1]
+        ?? 'MockComponent';
+      const props = [...prompt.matchAll(/^\s*([a-z][A-Za-z0-9]*)(\?)?:\s*([^;,\n]+)/gm)]
+        .slice(0, 10)
+        .map(([, propName, optional, type]) => ({
+          name: propName,
+          type: type.trim(),
+          required: !optional,
+          description: ''
+        }));
+
+      return JSON.stringify({ componentName: name, description: `${name} component`, props });
+    },
+    listModels: async () => [config.model]
+  };
+}
+
+/**
+ * Create the configured provider (from the environment unless a config is given)
+ */
+export function createLlmProvider(config: LlmProviderConfig = getLlmProviderConfig()): LlmProvider {
+  switch (config.provider) {
+    case 'ollama':
+      return createOllamaProvider(config);
+    case 'openai-compatible':
+      return createOpenAiCompatibleProvider(config);
+    case 'mock':
+      return createMockProvider(config, process.env.LLM_MOCK_RESPONSE);
+  }
+}
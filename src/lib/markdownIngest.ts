@@ -0,0 +1,492 @@
+/**
+ * Markdown Ingestion
+ *
+ * Turns Markdown and MDX documentation, from a local directory or an
+ * archive, into extracted pages without a browser: headings, paragraphs,
+ * lists and fenced code with its language tag, frontmatter as page metadata
+ * and MDX JSX blocks as code samples. Parsing uses remark; pipe tables,
+ * which remark only understands with GFM, are read here and go through the
+ * usual prop table parser.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import { visit } from 'unist-util-visit';
+import type { Code, List, Nodes, Paragraph } from 'mdast';
+import { CodeSample, ContentSection, ExtractedPageContent, PageMetadata, SectionBlock, SemanticContent } from '../types/types';
+import { dedupeCodeSamples, detectCodeLanguage, getCodeSampleId, remapSectionCodeSamples } from './codeSamples';
+import { RawTable, RawTableCell, parsePropTables } from './propTables';
+import { getSourceFileUrl, listRepoFiles } from './sourceRepo';
+import { isArchiveFile, readArchiveEntries } from './fileArchive';
+
+const MARKDOWN_FILE = /\.(md|mdx|markdown)$/i;
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+// Meta of the fenced blocks MDX JSX is rewritten into
+const MDX_JSX_META = 'mdx-jsx';
+
+/**
+ * Files of a documentation directory or archive, read on demand
+ */
+export interface MarkdownSource {
+  files: string[]; // Paths relative to the directory or inside the archive
+  read: (file: string) => Promise<string>;
+  url: (file: string) => string;
+}
+
+export function isMarkdownFile(fileName: string): boolean {
+  return MARKDOWN_FILE.test(fileName);
+}
+
+/**
+ * List the Markdown/MDX files of a directory, or of a zip or tar archive
+ * (entries are then addressed as `<archive URL>!/<entry path>`)
+ */
+export async function openMarkdownSource(rootPath: string): Promise<MarkdownSource> {
+  if (isArchiveFile(rootPath)) {
+    const entries = await readArchiveEntries(rootPath, isMarkdownFile);
+    const archiveUrl = pathToFileURL(rootPath).toString();
+    return {
+      files: Array.from(entries.keys()).sort(),
+      read: async file => entries.get(file)?.toString('utf8') ?? '',
+      url: file => `${archiveUrl}!/${encodeURI(file)}`
+    };
+  }
+
+  return {
+    files: await listRepoFiles(rootPath, isMarkdownFile),
+    read: file => fs.readFile(path.join(rootPath, file), 'utf8'),
+    url: file => getSourceFileUrl(rootPath, file)
+  };
+}
+
+function splitInlineList(value: string): string[] {
+  return (value.match(/"(?:[^"\\]|\\.)*"|'[^']*'|[^,]+/g) ?? []).map(item => item.trim()).filter(Boolean);
+}
+
+function parseYamlScalar(value: string): unknown {
+  const trimmed = value.trim();
+  if (/^".*"$/.test(trimmed)) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return trimmed.slice(1, -1);
+    }
+  }
+  if (/^'.*'$/.test(trimmed)) return trimmed.slice(1, -1).replace(/''/g, "'");
+  if (/^\[.*\]$/.test(trimmed)) return splitInlineList(trimmed.slice(1, -1)).map(parseYamlScalar);
+
+  const unquoted = trimmed.replace(/\s+#.*$/, '');
+  if (/^(true|false)$/i.test(unquoted)) return unquoted.toLowerCase() === 'true';
+  if (/^-?\d+(\.\d+)?$/.test(unquoted)) return Number(unquoted);
+  if (/^(null|~)?$/.test(unquoted)) return null;
+  return unquoted;
+}
+
+/**
+ * Split YAML frontmatter off a document. Covers what documentation
+ * frontmatter uses: scalars, inline and block lists, block scalars and one
+ * level of nested keys.
+ */
+export function parseFrontmatter(source: string): { data: Record<string, unknown>; body: string } {
+  const match = source.match(FRONTMATTER);
+  if (!match) return { data: {}, body: source };
+
+  const data: Record<string, unknown> = {};
+  const lines = match[1].split(/\r?\n/);
+
+  for (let index = 0; index < lines.length; index++) {
+    const entry = lines[index].match(/^([^\s#:][^:]*):(?:\s+(.*))?$/);
+    if (!entry) continue;
+
+    const key = entry[1].trim();
+    const value = (entry[2] ?? '').trim();
+
+    // Indented lines (and unindented list items) that follow belong to the key
+    const nested: string[] = [];
+    while (index + 1 < lines.length && /^(\s+\S|-\s|\s*$)/.test(lines[index + 1])) {
+      nested.push(lines[++index]);
+    }
+
+    if (/^[|>][+-]?$/.test(value)) {
+      const indent = Math.min(...nested.filter(line => line.trim()).map(line => line.match(/^\s*/)![0].length));
+      const text = nested.map(line => line.slice(indent));
+      data[key] = value.startsWith('|')
+        ? text.join('\n').trim()
+        : text.join(' ').replace(/\s+/g, ' ').trim();
+    } else if (value) {
+      data[key] = parseYamlScalar(value);
+    } else if (nested.some(line => /^\s*-\s/.test(line))) {
+      data[key] = nested
+        .filter(line => /^\s*-\s/.test(line))
+        .map(line => parseYamlScalar(line.replace(/^\s*-\s/, '')));
+    } else if (nested.some(line => line.trim())) {
+      const object: Record<string, unknown> = {};
+      nested.forEach(line => {
+        const field = line.match(/^\s+([^\s#:][^:]*):\s*(.*)$/);
+        if (field) object[field[1].trim()] = parseYamlScalar(field[2]);
+      });
+      data[key] = object;
+    } else {
+      data[key] = null;
+    }
+  }
+
+  return { data, body: source.slice(match[0].length) };
+}
+
+/**
+ * Length of the balanced JSX element at the start of `text`, or null when
+ * it never closes
+ */
+function jsxElementLength(text: string): number | null {
+  let depth = 0;
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text[index];
+
+    if (char === '{' && depth > 0) {
+      // Expressions in children are skipped; elements inside them balance on their own
+      let braces = 0;
+      for (; index < text.length; index++) {
+        if (text[index] === '{') braces++;
+        if (text[index] === '}' && --braces === 0) break;
+      }
+      index++;
+      continue;
+    }
+
+    if (char === '<' && text[index + 1] === '/') {
+      const close = text.indexOf('>', index);
+      if (close < 0) return null;
+      depth--;
+      index = close + 1;
+      if (depth === 0) return index;
+      continue;
+    }
+
+    if (char === '<' && /[A-Za-z>]/.test(text[index + 1] ?? '')) {
+      // Scan to the end of the opening tag, past attribute strings and expressions
+      let end = index + 1;
+      let braces = 0;
+      let quote: string | null = null;
+      for (; end < text.length; end++) {
+        const tagChar = text[end];
+        if (quote) {
+          if (tagChar === quote) quote = null;
+        } else if (tagChar === '"' || tagChar === "'" || tagChar === '`') {
+          quote = tagChar;
+        } else if (tagChar === '{') {
+          braces++;
+        } else if (tagChar === '}') {
+          braces--;
+        } else if (tagChar === '>' && braces === 0) {
+          break;
+        }
+      }
+      if (end >= text.length) return null;
+
+      if (text[end - 1] !== '/') depth++;
+      index = end + 1;
+      if (depth === 0) return index;
+      continue;
+    }
+
+    index++;
+  }
+
+  return null;
+}
+
+/**
+ * Prepare MDX for the Markdown parser: ESM `import`/`export` statements are
+ * dropped, and JSX blocks starting with a component or fragment are
+ * rewritten into fenced `jsx` code so they come out as code samples
+ */
+function rewriteMdx(body: string): string {
+  const lines = body.split('\n');
+  const output: string[] = [];
+  let fence: string | null = null;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+
+    if (fence) {
+      output.push(line);
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length && line.trim() === fenceMatch[1]) {
+        fence = null;
+      }
+      continue;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      output.push(line);
+      continue;
+    }
+
+    // ESM statements run to the next blank line
+    if (/^(import|export)\s/.test(line)) {
+      while (index + 1 < lines.length && lines[index + 1].trim() !== '') index++;
+      continue;
+    }
+
+    if (/^\s{0,3}<([A-Z]|>)/.test(line)) {
+      const rest = lines.slice(index).join('\n').trimStart();
+      const length = jsxElementLength(rest);
+      if (length !== null) {
+        const lineCount = rest.slice(0, length).split('\n').length;
+        const block = lines.slice(index, index + lineCount).join('\n');
+        const longestTicks = Math.max(0, ...(block.match(/`+/g) ?? []).map(ticks => ticks.length));
+        const ticks = '`'.repeat(Math.max(3, longestTicks + 1));
+        output.push(`${ticks}jsx ${MDX_JSX_META}`, block, ticks);
+        index += lineCount - 1;
+        continue;
+      }
+    }
+
+    output.push(line);
+  }
+
+  return output.join('\n');
+}
+
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function nodeText(node: Nodes): string {
+  if (node.type === 'text' || node.type === 'inlineCode') return node.value;
+  if (node.type === 'image') return node.alt ?? '';
+  if (node.type === 'break') return ' ';
+  if ('children' in node) {
+    const blockContainer = ['root', 'blockquote', 'list', 'listItem'].includes(node.type);
+    return node.children.map(child => nodeText(child)).join(blockContainer ? ' ' : '');
+  }
+  return '';
+}
+
+function listItems(list: List): string[] {
+  return list.children
+    .map(item => cleanText(item.children.filter(child => child.type !== 'list').map(nodeText).join(' ')))
+    .filter(text => text.length > 0);
+}
+
+function cleanInlineMarkdown(text: string): string {
+  return cleanText(text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/(\*\*|__)(.*?)\1/g, '$2')
+    .replace(/<br\s*\/?>/gi, ' '));
+}
+
+function splitTableRow(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  return trimmed.split(/(?<!\\)\|/).map(cell => cleanInlineMarkdown(cell.replace(/\\\|/g, '|')));
+}
+
+/**
+ * Cells of a GFM pipe table, which remark without GFM leaves as a paragraph
+ */
+function readPipeTable(source: string): RawTableCell[][] | null {
+  const lines = source.split('\n').filter(line => line.trim());
+  if (lines.length < 2 || !TABLE_DELIMITER.test(lines[1]) || !lines.every(line => line.includes('|'))) {
+    return null;
+  }
+
+  const toCells = (line: string, header: boolean): RawTableCell[] =>
+    splitTableRow(line).map(text => ({ text, header, rowSpan: 1, colSpan: 1 }));
+  return [toCells(lines[0], true), ...lines.slice(2).map(line => toCells(line, false))];
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\s-]/gu, '').trim().replace(/\s+/g, '-');
+}
+
+function stringValue(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function stringList(value: unknown): string[] | undefined {
+  if (Array.isArray(value)) return value.map(String).filter(Boolean);
+  if (typeof value === 'string') return value.split(',').map(item => item.trim()).filter(Boolean);
+  return undefined;
+}
+
+function frontmatterMetadata(data: Record<string, unknown>, firstHeading?: string): PageMetadata {
+  const metadata: PageMetadata = {
+    title: stringValue(data.title) ?? firstHeading,
+    description: stringValue(data.description) ?? stringValue(data.summary),
+    keywords: stringList(data.keywords ?? data.tags),
+    author: stringValue(data.author),
+    canonicalUrl: stringValue(data.canonical) ?? stringValue(data.canonicalUrl),
+    language: stringValue(data.lang) ?? stringValue(data.language),
+    ...(Object.keys(data).length > 0 ? { frontmatter: data } : {})
+  };
+
+  return Object.fromEntries(
+    Object.entries(metadata).filter(([, value]) => value !== undefined)
+  ) as PageMetadata;
+}
+
+/**
+ * Parse one Markdown or MDX document into an extracted page
+ */
+export function parseMarkdownDocument(source: string, url: string, options: { mdx?: boolean } = {}): ExtractedPageContent {
+  const { data, body } = parseFrontmatter(source);
+  const markdown = options.mdx ? rewriteMdx(body) : body;
+  const tree = unified().use(remarkParse).parse(markdown);
+
+  const semanticContent: SemanticContent = {
+    headings: [],
+    paragraphs: [],
+    lists: [],
+    altTexts: [],
+    ariaLabels: [],
+    landmarks: []
+  };
+  const samples: CodeSample[] = [];
+  const sampleIndexes = new Map<Code, number>();
+  const tables: RawTable[] = [];
+  const tableIndexes = new Map<Paragraph, number>();
+  const headingIds = new Map<Nodes, string>();
+  const slugCounts = new Map<string, number>();
+  let lastHeading: string | undefined;
+
+  visit(tree, (node, index, parent) => {
+    if (node.type === 'heading') {
+      const text = cleanText(nodeText(node));
+      // Same scheme as GitHub's heading anchors, numbering repeats
+      const slug = slugify(text);
+      const count = slugCounts.get(slug) ?? 0;
+      slugCounts.set(slug, count + 1);
+      const id = count > 0 ? `${slug}-${count}` : slug;
+
+      headingIds.set(node, id);
+      semanticContent.headings.push({ level: node.depth, text, id });
+      lastHeading = text;
+    } else if (node.type === 'paragraph') {
+      const start = node.position?.start.offset;
+      const end = node.position?.end.offset;
+      const rows = start !== undefined && end !== undefined ? readPipeTable(markdown.slice(start, end)) : null;
+      if (rows) {
+        tableIndexes.set(node, tables.length);
+        tables.push({
+          location: {
+            tableIndex: tables.length,
+            selector: `table:nth-of-type(${tables.length + 1})`,
+            ...(lastHeading ? { heading: lastHeading } : {})
+          },
+          rows
+        });
+        return 'skip';
+      }
+
+      // Paragraphs of list items are read with their list
+      const text = cleanText(nodeText(node));
+      if (text && parent?.type !== 'listItem') semanticContent.paragraphs.push(text);
+    } else if (node.type === 'list') {
+      const items = listItems(node);
+      if (items.length > 0) semanticContent.lists.push({ type: node.ordered ? 'ol' : 'ul', items });
+    } else if (node.type === 'image' && node.alt) {
+      semanticContent.altTexts.push(node.alt);
+    } else if (node.type === 'code' && node.value.trim()) {
+      const previous = parent && index !== undefined && index > 0 ? parent.children[index - 1] : undefined;
+      const isJsx = node.meta === MDX_JSX_META;
+      const language = node.lang || undefined;
+
+      sampleIndexes.set(node, samples.length);
+      samples.push({
+        id: getCodeSampleId(node.value),
+        code: node.value.trim(),
+        language,
+        ...(language ? { confidence: 0 } : detectCodeLanguage(node.value)),
+        context: previous ? cleanText(nodeText(previous)).substring(0, 100) || undefined : undefined,
+        sourceElement: isJsx ? 'mdx-jsx' : 'markdown'
+      });
+    }
+  });
+
+  // Code samples and tables inside a list or blockquote (e.g. the steps of an
+  // install guide), which would otherwise belong to no section
+  const nestedBlocks = (container: Nodes): SectionBlock[] => {
+    const blocks: SectionBlock[] = [];
+    visit(container, node => {
+      if (node.type === 'code' && sampleIndexes.has(node)) {
+        blocks.push({ kind: 'code', codeSampleIndex: sampleIndexes.get(node)! });
+      } else if (node.type === 'paragraph' && tableIndexes.has(node)) {
+        blocks.push({ kind: 'table', tableIndex: tableIndexes.get(node)! });
+      }
+    });
+    return blocks;
+  };
+
+  // Section tree over the document's top-level blocks, as for rendered pages
+  const rootSection: ContentSection = { heading: '', level: 0, blocks: [], children: [] };
+  const sectionStack: ContentSection[] = [rootSection];
+  tree.children.forEach(node => {
+    const current = sectionStack[sectionStack.length - 1];
+
+    if (node.type === 'heading') {
+      while (sectionStack.length > 1 && sectionStack[sectionStack.length - 1].level >= node.depth) {
+        sectionStack.pop();
+      }
+      const section: ContentSection = {
+        heading: cleanText(nodeText(node)),
+        level: node.depth,
+        id: headingIds.get(node),
+        blocks: [],
+        children: []
+      };
+      sectionStack[sectionStack.length - 1].children.push(section);
+      sectionStack.push(section);
+    } else if (node.type === 'code' && sampleIndexes.has(node)) {
+      current.blocks.push({ kind: 'code', codeSampleIndex: sampleIndexes.get(node)! });
+    } else if (node.type === 'paragraph' && tableIndexes.has(node)) {
+      current.blocks.push({ kind: 'table', tableIndex: tableIndexes.get(node)! });
+    } else if (node.type === 'paragraph') {
+      const text = cleanText(nodeText(node));
+      if (text) current.blocks.push({ kind: 'paragraph', text });
+    } else if (node.type === 'blockquote') {
+      const text = cleanText(nodeText(node));
+      if (text) current.blocks.push({ kind: 'paragraph', text });
+      current.blocks.push(...nestedBlocks(node));
+    } else if (node.type === 'list') {
+      const items = listItems(node);
+      if (items.length > 0) current.blocks.push({ kind: 'list', listType: node.ordered ? 'ol' : 'ul', items });
+      current.blocks.push(...nestedBlocks(node));
+    }
+  });
+
+  const sections = rootSection.blocks.length > 0
+    ? [{ ...rootSection, children: [] }, ...rootSection.children]
+    : rootSection.children;
+
+  // The same snippet can appear more than once, e.g. in tabs for each framework
+  const { samples: codeSamples, indexMap } = dedupeCodeSamples(samples);
+  semanticContent.sections = remapSectionCodeSamples(sections, indexMap);
+
+  const propTables = parsePropTables(tables);
+  const firstHeading = semanticContent.headings.find(heading => heading.level === 1)?.text;
+
+  return {
+    id: `page-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    url,
+    textContent: cleanText([
+      ...tree.children
+        .filter(node => node.type !== 'paragraph' || !tableIndexes.has(node))
+        .map(node => nodeText(node)),
+      ...tables.flatMap(table => table.rows.flatMap(row => row.map(cell => cell.text)))
+    ].join(' ')),
+    semanticContent,
+    metadata: frontmatterMetadata(data, firstHeading),
+    codeSamples,
+    timestamp: new Date().toISOString(),
+    depth: 0,
+    ...(propTables.length > 0 ? { propTables } : {})
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * Page Cache
+ *
+ * Remembers the last extraction of every crawled URL together with its
+ * ETag, Last-Modified and a hash of the served HTML, so a re-crawl can skip
+ * pages that have not changed. One JSON file per origin under
+ * `<data dir>/page-cache`.
+ */
+
+import { createHash } from 'crypto';
+import { ExtractedPageContent, PageCacheInfo } from '../types/types';
+import { readJsonFile, writeJsonFile } from './storage';
+
+const CACHE_DIR = 'page-cache';
+
+export interface PageCacheEntry {
+  url: string;
+  cache: PageCacheInfo;
+  page: ExtractedPageContent;
+  links: string[];
+}
+
+export type PageCache = Record<string, PageCacheEntry>;
+
+export type FreshnessResult = 'unchanged' | 'changed' | 'unknown';
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+function cacheFile(url: string): string {
+  const origin = new URL(url).origin;
+  return `${origin.replace(/[^a-z0-9]+/gi, '_')}.json`;
+}
+
+export async function loadPageCache(url: string): Promise<PageCache> {
+  return (await readJsonFile<PageCache>(CACHE_DIR, cacheFile(url))) || {};
+}
+
+export async function savePageCache(url: string, cache: PageCache): Promise<void> {
+  await writeJsonFile(cache, CACHE_DIR, cacheFile(url));
+}
+
+/**
+ * Ask the server whether a cached page changed: a conditional request is
+ * answered with 304 when validators match, otherwise the body is hashed and
+ * compared with the stored hash. Network failures report 'unknown' so the
+ * page is simply rendered again.
+ */
+export async function checkFreshness(
+  entry: PageCacheEntry,
+  userAgent: string,
+  timeoutMs: number,
+  extraHeaders: Record<string, string> = {}
+): Promise<FreshnessResult> {
+  const headers: Record<string, string> = { ...extraHeaders, 'User-Agent': userAgent };
+  if (entry.cache.etag) headers['If-None-Match'] = entry.cache.etag;
+  if (entry.cache.lastModified) headers['If-Modified-Since'] = entry.cache.lastModified;
+
+  try {
+    const response = await fetch(entry.url, {
+      headers,
+      signal: AbortSignal.timeout(timeoutMs)
+    });
+
+    if (response.status === 304) return 'unchanged';
+    if (!response.ok) return 'unknown';
+
+    return hashContent(await response.text()) === entry.cache.contentHash ? 'unchanged' : 'changed';
+  } catch (error) {
+    console.warn(`Freshness check failed for ${entry.url}:`, error);
+    return 'unknown';
+  }
+}
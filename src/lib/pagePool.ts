@@ -0,0 +1,92 @@
+/**
+ * Page Pool
+ *
+ * A bounded set of Puppeteer pages shared by concurrent crawl workers, and a
+ * per-host limiter that keeps requests to one host spaced out no matter how
+ * many pages are rendering at once.
+ */
+
+import type { Browser, Page } from 'puppeteer';
+
+export class PagePool {
+  private browser: Browser;
+  private size: number;
+  private setupPage: (page: Page) => Promise<void>;
+  private idle: Page[] = [];
+  private created = 0;
+  private waiters: Array<(page: Page) => void> = [];
+
+  constructor(browser: Browser, size: number, setupPage: (page: Page) => Promise<void> = async () => {}) {
+    this.browser = browser;
+    this.size = Math.max(1, size);
+    this.setupPage = setupPage;
+  }
+
+  /**
+   * Get a page, opening a new one while below the pool size and otherwise
+   * waiting for one to be released
+   */
+  async acquire(): Promise<Page> {
+    const idlePage = this.idle.pop();
+    if (idlePage) return idlePage;
+
+    if (this.created < this.size) {
+      this.created++;
+      try {
+        const page = await this.browser.newPage();
+        await this.setupPage(page);
+        return page;
+      } catch (error) {
+        this.created--;
+        throw error;
+      }
+    }
+
+    return new Promise(resolve => this.waiters.push(resolve));
+  }
+
+  release(page: Page): void {
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter(page);
+    } else {
+      this.idle.push(page);
+    }
+  }
+
+  /**
+   * Run a task with a pooled page, releasing it afterwards
+   */
+  async use<T>(task: (page: Page) => Promise<T>): Promise<T> {
+    const page = await this.acquire();
+    try {
+      return await task(page);
+    } finally {
+      this.release(page);
+    }
+  }
+}
+
+export class HostRateLimiter {
+  private intervalMs: number;
+  private nextSlot = new Map<string, number>();
+
+  constructor(intervalMs: number) {
+    this.intervalMs = intervalMs;
+  }
+
+  /**
+   * Resolve once the host of the URL may receive another request. Slots are
+   * reserved synchronously, so concurrent callers queue up in call order.
+   */
+  async waitForTurn(url: string): Promise<void> {
+    const host = new URL(url).host;
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot.get(host) ?? 0);
+    this.nextSlot.set(host, slot + this.intervalMs);
+
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now));
+    }
+  }
+}
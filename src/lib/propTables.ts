@@ -0,0 +1,290 @@
+/**
+ * Prop Tables
+ *
+ * Turns the tables found on a documentation page into typed prop candidates.
+ * Tables are read as raw cells (in the browser, or with cheerio for static
+ * HTML); this module expands row/column spans, recognises the name, type,
+ * default, required and description columns from their headers, and folds
+ * continuation rows and nested props into the props they belong to.
+ */
+
+import { PropCandidate, PropTable, PropTableColumn, PropTableLocation } from '../types/types';
+
+export interface RawTableCell {
+  text: string;
+  header: boolean;
+  rowSpan: number;
+  colSpan: number;
+}
+
+export interface RawTable {
+  location: PropTableLocation;
+  rows: RawTableCell[][];
+  // Cell of another table (by tableIndex) this table is nested in
+  nestedIn?: { tableIndex: number; row: number };
+}
+
+interface GridCell {
+  text: string;
+  header: boolean;
+  origin: string; // Row and column of the source cell, shared by the slots it spans
+}
+
+// Header wording per column, most specific first
+const COLUMN_ALIASES: Record<PropTableColumn, RegExp> = {
+  name: /^(prop(erty)?|props|name|attribute|attr|argument|arg|parameter|param|option|field|key|input)( ?name)?s?$/,
+  type: /^(types?|type ?signature|signature|values?|accepted values|options)$/,
+  default: /^(default|defaults|default ?value|initial value)$/,
+  required: /^(required|required\?|optional|optional\?)$/,
+  description: /^(description|desc|details|notes?|usage|comments?|summary|purpose)$/
+};
+
+// Headers that alone suggest a component API table rather than any name/description table
+const API_NAME_HEADER = /^(prop(erty)?|props|attribute|attr|argument|arg|parameter|param)( ?name)?s?$/;
+
+const EMPTY_VALUE = /^(-|–|—|n\/a|none)?$/i;
+const TRUTHY_REQUIRED = /^(yes|y|true|required|✓|✔|✔️|✅|x|\*)$/i;
+// Dashes need a space after them, so CSS custom properties (`--button-bg`) keep their name
+const NESTED_MARKER = /^((↳|└─?|├─?|⤷|–|→)\s*|-{1,2}\s+)/;
+
+function normalizeHeader(text: string): string {
+  return text.toLowerCase().replace(/[^a-z? ]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Map header cells to prop table columns. Returns null unless the headers
+ * look like a prop table: a name column plus a type, default or required
+ * column, or an API-specific name column with a description.
+ */
+export function mapPropTableHeaders(headers: string[]): Partial<Record<PropTableColumn, number>> | null {
+  const columns: Partial<Record<PropTableColumn, number>> = {};
+
+  headers.forEach((header, index) => {
+    const normalized = normalizeHeader(header);
+    const column = (Object.keys(COLUMN_ALIASES) as PropTableColumn[])
+      .find(candidate => columns[candidate] === undefined && COLUMN_ALIASES[candidate].test(normalized));
+    if (column) columns[column] = index;
+  });
+
+  if (columns.name === undefined) return null;
+
+  const hasApiColumn = columns.type !== undefined || columns.default !== undefined || columns.required !== undefined;
+  const hasApiName = API_NAME_HEADER.test(normalizeHeader(headers[columns.name]));
+  return hasApiColumn || (hasApiName && columns.description !== undefined) ? columns : null;
+}
+
+/**
+ * Lay the table's cells out on a grid, repeating spanned cells in every
+ * slot they cover
+ */
+export function expandTableGrid(rows: RawTableCell[][]): GridCell[][] {
+  const grid: GridCell[][] = [];
+
+  rows.forEach((row, rowIndex) => {
+    grid[rowIndex] = grid[rowIndex] || [];
+    let column = 0;
+
+    row.forEach((cell, cellIndex) => {
+      while (grid[rowIndex][column]) column++;
+
+      const rowSpan = Math.max(1, Math.min(cell.rowSpan, rows.length - rowIndex));
+      const colSpan = Math.max(1, Math.min(cell.colSpan, 50));
+      for (let r = 0; r < rowSpan; r++) {
+        grid[rowIndex + r] = grid[rowIndex + r] || [];
+        for (let c = 0; c < colSpan; c++) {
+          grid[rowIndex + r][column + c] = { text: cell.text, header: cell.header, origin: `${rowIndex}:${cellIndex}` };
+        }
+      }
+      column += colSpan;
+    });
+  });
+
+  // Rows spanned into but never started leave holes; fill them with empty cells
+  return grid.map((row, rowIndex) => Array.from(row, (cell, column) =>
+    cell || { text: '', header: false, origin: `${rowIndex}:hole-${column}` }
+  ));
+}
+
+function cleanValue(text: string): string | undefined {
+  const cleaned = text.replace(/^`+|`+$/g, '').replace(/\s+/g, ' ').trim();
+  return EMPTY_VALUE.test(cleaned) ? undefined : cleaned;
+}
+
+function parseRequired(text: string, header: string): boolean {
+  const value = text.trim();
+  // An "Optional" column inverts the meaning
+  if (/optional/.test(normalizeHeader(header))) {
+    return /^(no|n|false)$/i.test(value);
+  }
+  return TRUTHY_REQUIRED.test(value);
+}
+
+/**
+ * Parse the name cell, picking up the markers docs use for required,
+ * optional and nested props
+ */
+function parseNameCell(text: string): { name: string; required: boolean; nested: boolean } {
+  let name = text.replace(/\s+/g, ' ').trim();
+  const nested = NESTED_MARKER.test(name);
+  name = name.replace(NESTED_MARKER, '');
+
+  let required = false;
+  if (/\brequired\b/i.test(name)) {
+    required = true;
+    name = name.replace(/\brequired\b/i, '').trim();
+  }
+  if (/\*$/.test(name)) {
+    required = true;
+    name = name.replace(/\*+$/, '');
+  }
+  name = name.replace(/\?$/, '').replace(/^[`'"]+|[`'"]+$/g, '').trim();
+
+  // Some tables show the signature in the name cell, e.g. "size: string"
+  name = name.split(/[\s:(]/)[0];
+
+  return { name, required, nested };
+}
+
+function appendText(existing: string, addition?: string, separator = ' '): string {
+  if (!addition || existing.includes(addition)) return existing;
+  return existing ? `${existing}${separator}${addition}` : addition;
+}
+
+interface ParsedTable {
+  table: PropTable;
+  rowProps: Array<string | undefined>; // Prop each grid row belongs to
+}
+
+function parseTable(table: RawTable, parentName?: string): ParsedTable | null {
+  const grid = expandTableGrid(table.rows);
+  if (grid.length < 2) return null;
+
+  // The header is the first all-header row, else the first row
+  const headerIndex = Math.max(0, grid.findIndex(row => row.length > 0 && row.every(cell => cell.header)));
+  const headers = grid[headerIndex].map(cell => cell.text);
+  const mapping = mapPropTableHeaders(headers);
+  if (!mapping) return null;
+
+  const cellText = (row: GridCell[], column: PropTableColumn) =>
+    mapping[column] !== undefined ? row[mapping[column]!]?.text ?? '' : '';
+
+  const props: PropCandidate[] = [];
+  const rowProps: Array<string | undefined> = [];
+  let current: PropCandidate | null = null;
+  let currentOrigin: string | null = null;
+  let lastTopLevel: PropCandidate | null = null;
+
+  grid.forEach((row, rowIndex) => {
+    if (rowIndex <= headerIndex) return;
+    rowProps[rowIndex] = current?.name;
+
+    const texts = row.map(cell => cell.text);
+    if (texts.every(text => text.length === 0)) return;
+
+    // Repeated header rows, e.g. in long tables split by section
+    if (row.every(cell => cell.header) && texts.join('|') === headers.join('|')) return;
+
+    const nameCell = row[mapping.name!];
+    const fullWidth = row.length > 1 && row.every(cell => cell.origin === row[0].origin);
+
+    // A continuation row: the name cell spans from the previous row, is
+    // empty, or the row is a single full-width description cell
+    if (current && (fullWidth || !nameCell?.text || nameCell.origin === currentOrigin)) {
+      if (!fullWidth) {
+        const type = cleanValue(cellText(row, 'type'));
+        current.type = current.type === 'unknown' ? type || 'unknown' : appendText(current.type, type, ' | ');
+      }
+      current.description = appendText(current.description, cleanValue(fullWidth ? texts[0] : cellText(row, 'description')));
+      return;
+    }
+    if (fullWidth || !nameCell?.text) return; // e.g. a group label before the first prop
+
+    const parsedName = parseNameCell(nameCell.text);
+    if (!parsedName.name) return;
+
+    let name = parsedName.name;
+    let parent = parentName;
+    if (parsedName.nested && lastTopLevel) {
+      parent = lastTopLevel.name;
+      name = `${parent}.${name}`;
+    } else if (parentName) {
+      name = `${parentName}.${name}`;
+    } else {
+      const dotted = name.lastIndexOf('.');
+      if (dotted > 0 && props.some(prop => prop.name === name.slice(0, dotted))) {
+        parent = name.slice(0, dotted);
+      }
+    }
+
+    const requiredText = cellText(row, 'required');
+    const description = cleanValue(cellText(row, 'description')) || '';
+    const candidate: PropCandidate = {
+      name,
+      type: cleanValue(cellText(row, 'type')) || 'unknown',
+      required: parsedName.required
+        || (mapping.required !== undefined && parseRequired(requiredText, headers[mapping.required]))
+        || /^required\b/i.test(description),
+      description,
+      defaultValue: cleanValue(cellText(row, 'default')),
+      ...(parent ? { parent } : {}),
+      location: table.location
+    };
+
+    props.push(candidate);
+    rowProps[rowIndex] = name;
+    current = candidate;
+    currentOrigin = nameCell.origin;
+    if (!parsedName.nested && !parentName) lastTopLevel = candidate;
+  });
+
+  if (props.length === 0) return null;
+
+  const columns = Object.fromEntries(
+    (Object.entries(mapping) as Array<[PropTableColumn, number]>).map(([column, index]) => [column, headers[index]])
+  ) as PropTable['columns'];
+
+  return { table: { location: table.location, columns, props }, rowProps };
+}
+
+/**
+ * Parse every prop table among the page's raw tables. Tables nested in a
+ * prop's cell describe that prop's fields and are merged into the outermost
+ * table as `<prop>.<field>` props, however deep they are nested.
+ */
+export function parsePropTables(tables: RawTable[]): PropTable[] {
+  const byIndex = new Map(tables.map(table => [table.location.tableIndex, table]));
+  const depth = (table: RawTable, seen = new Set<RawTable>()): number => {
+    const outer = table.nestedIn ? byIndex.get(table.nestedIn.tableIndex) : undefined;
+    if (!outer || seen.has(outer)) return 0;
+    seen.add(table);
+    return 1 + depth(outer, seen);
+  };
+
+  // Outer tables first, so nested ones can find the prop they belong to
+  const ordered = [...tables].sort((a, b) => depth(a) - depth(b));
+
+  const parsed = new Map<number, ParsedTable>();
+  // Table the props of each parsed table end up in: its own, or the outermost one
+  const targets = new Map<number, PropTable>();
+  const roots: PropTable[] = [];
+
+  ordered.forEach(table => {
+    const outer = table.nestedIn ? parsed.get(table.nestedIn.tableIndex) : undefined;
+    const parentName = table.nestedIn ? outer?.rowProps[table.nestedIn.row] : undefined;
+
+    const result = parseTable(table, parentName);
+    if (!result) return;
+    parsed.set(table.location.tableIndex, result);
+
+    const target = table.nestedIn && parentName ? targets.get(table.nestedIn.tableIndex) : undefined;
+    if (target) {
+      target.props.push(...result.table.props);
+      targets.set(table.location.tableIndex, target);
+    } else {
+      targets.set(table.location.tableIndex, result.table);
+      roots.push(result.table);
+    }
+  });
+
+  return roots.sort((a, b) => a.location.tableIndex - b.location.tableIndex);
+}
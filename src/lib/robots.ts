@@ -0,0 +1,153 @@
+/**
+ * robots.txt support
+ *
+ * Parses robots.txt following RFC 9309: the group whose user-agent token
+ * matches ours is used (falling back to `*`), the longest matching
+ * Allow/Disallow rule wins and Allow wins ties. `*` and `$` are supported
+ * in rule paths. Crawl-delay and Sitemap lines are collected as well.
+ */
+
+export interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  crawlDelaySeconds?: number;
+  sitemaps: string[];
+}
+
+interface RobotsGroup {
+  userAgents: string[];
+  allow: string[];
+  disallow: string[];
+  crawlDelaySeconds?: number;
+}
+
+/**
+ * Product token of a user agent string, e.g. `DesignSystemAnalyzer` for
+ * `DesignSystemAnalyzer/1.0 (+https://example.com)`
+ */
+function getProductToken(userAgent: string): string {
+  return userAgent.split(/[\s/]/)[0].toLowerCase();
+}
+
+export function parseRobotsTxt(text: string, userAgent: string): RobotsRules {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let lastLineWasUserAgent = false;
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) return;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    switch (field) {
+      case 'user-agent':
+        // Consecutive user-agent lines share one group
+        if (!current || !lastLineWasUserAgent) {
+          current = { userAgents: [], allow: [], disallow: [] };
+          groups.push(current);
+        }
+        current.userAgents.push(value.toLowerCase());
+        lastLineWasUserAgent = true;
+        return;
+      case 'allow':
+        if (current && value) current.allow.push(value);
+        break;
+      case 'disallow':
+        if (current && value) current.disallow.push(value);
+        break;
+      case 'crawl-delay': {
+        const delay = parseFloat(value);
+        if (current && !isNaN(delay) && delay >= 0) current.crawlDelaySeconds = delay;
+        break;
+      }
+      case 'sitemap':
+        if (value) sitemaps.push(value);
+        break;
+    }
+
+    lastLineWasUserAgent = false;
+  });
+
+  // RFC 9309: a group applies when its user-agent equals our product token, case-insensitively
+  const token = getProductToken(userAgent);
+  const matching = groups.filter(group =>
+    group.userAgents.some(agent => agent !== '*' && getProductToken(agent) === token)
+  );
+  const selected = matching.length > 0
+    ? matching
+    : groups.filter(group => group.userAgents.includes('*'));
+
+  return {
+    allow: selected.flatMap(group => group.allow),
+    disallow: selected.flatMap(group => group.disallow),
+    crawlDelaySeconds: selected.find(group => group.crawlDelaySeconds !== undefined)?.crawlDelaySeconds,
+    sitemaps
+  };
+}
+
+function ruleToRegExp(rule: string): RegExp {
+  const anchored = rule.endsWith('$');
+  const body = (anchored ? rule.slice(0, -1) : rule)
+    .split('*')
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Whether the rules allow fetching the given URL
+ */
+export function isAllowedByRobots(rules: RobotsRules, url: string): boolean {
+  const parsed = new URL(url);
+  const target = `${parsed.pathname}${parsed.search}`;
+
+  const longestMatch = (patterns: string[]) => patterns
+    .filter(pattern => ruleToRegExp(pattern).test(target))
+    .reduce((longest, pattern) => Math.max(longest, pattern.length), -1);
+
+  const allowLength = longestMatch(rules.allow);
+  const disallowLength = longestMatch(rules.disallow);
+
+  return disallowLength === -1 || allowLength >= disallowLength;
+}
+
+/**
+ * Fetch and parse robots.txt for the origin of the given URL. As RFC 9309
+ * requires, a missing robots.txt (4xx) allows everything while an
+ * unreachable one (5xx or network failure) disallows everything.
+ */
+export async function fetchRobotsTxt(
+  url: string,
+  userAgent: string,
+  timeoutMs: number,
+  headers: Record<string, string> = {}
+): Promise<RobotsRules> {
+  const robotsUrl = new URL('/robots.txt', url).toString();
+  const allowAll: RobotsRules = { allow: [], disallow: [], sitemaps: [] };
+  const disallowAll: RobotsRules = { allow: [], disallow: ['/'], sitemaps: [] };
+
+  try {
+    const response = await fetch(robotsUrl, {
+      headers: { ...headers, 'User-Agent': userAgent },
+      signal: AbortSignal.timeout(timeoutMs)
+    });
+
+    if (response.status >= 500) {
+      console.warn(`robots.txt at ${robotsUrl} returned ${response.status}, treating site as disallowed`);
+      return disallowAll;
+    }
+
+    if (!response.ok) {
+      return allowAll;
+    }
+
+    return parseRobotsTxt(await response.text(), userAgent);
+  } catch (error) {
+    console.warn(`Failed to fetch ${robotsUrl}, treating site as disallowed:`, error);
+    return disallowAll;
+  }
+}
@@ -0,0 +1,472 @@
+/**
+ * Rule-based Analyzer
+ *
+ * Deterministic component extraction that needs no LLM. It combines what a
+ * documentation page states outright: prop tables, `<Name>Props` interface
+ * and type declarations in code samples, JSX usage of the component (tag
+ * names, attributes and literal values) and page titles and headings. The
+ * result is a complete component record on its own, and the baseline that
+ * model output is merged onto and compared with.
+ */
+
+import { Component, ComponentProp, ContentChunk, ExtractedPageContent, FieldProvenance, PropCandidate } from '../types/types';
+import { chunkPage } from './chunking';
+import type { AnalyzedComponent } from './componentAnalysis';
+
+export interface RuleAnalysisInput {
+  id: string;
+  sourceUrl: string;
+  title?: string; // Page title
+  headings: string[]; // Heading path of the content, outermost first
+  description?: string; // Page meta description
+  paragraphs: string[];
+  codeSamples: Array<{ code: string; language?: string }>;
+  tableProps: ComponentProp[]; // Props read from documentation prop tables
+}
+
+interface JsxAttribute {
+  name: string;
+  kind: 'string' | 'expression' | 'boolean';
+  value: string;
+}
+
+interface JsxTag {
+  name: string;
+  attributes: JsxAttribute[];
+}
+
+const TABLE_PROP: FieldProvenance = { source: 'heuristic', confidence: 0.9 };
+const DECLARED_PROP: FieldProvenance = { source: 'heuristic', confidence: 0.8 };
+const USED_PROP: FieldProvenance = { source: 'heuristic', confidence: 0.5 };
+const DESCRIPTION: FieldProvenance = { source: 'heuristic', confidence: 0.5 };
+const FAILED: FieldProvenance = { source: 'failed', confidence: 0 };
+
+// Weights of the evidence for a component name; agreeing evidence adds up
+const NAME_WEIGHTS = { title: 0.35, heading: 0.35, declaration: 0.5, propsType: 0.6, jsx: 0.3 };
+
+const MAX_LITERAL_VALUES = 8;
+const MAX_SNIPPETS = 5;
+
+// JSX attributes React handles itself
+const IGNORED_ATTRIBUTES = new Set(['key', 'ref', 'children']);
+
+// Titles that name the page rather than a component
+const GENERIC_TITLE_WORDS = /\b(components?|docs?|documentation|overview|examples?|usage|api|guide)\b/gi;
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// "Button | Acme Design System" -> "Button"
+function nameFromTitle(title: string): string {
+  return title.split(/\s+[|–—:-]\s+/)[0].replace(GENERIC_TITLE_WORDS, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Skip a balanced `{...}`, `(...)` or `[...]` starting at `start`, minding
+ * string and template literals. Returns the index after the closing bracket.
+ */
+function skipBalanced(code: string, start: number): number {
+  const closing: Record<string, string> = { '{': '}', '(': ')', '[': ']' };
+  const stack: string[] = [];
+  for (let index = start; index < code.length; index++) {
+    const char = code[index];
+    if (char === '"' || char === "'" || char === '`') {
+      const end = code.indexOf(char, index + 1);
+      if (end < 0) return code.length;
+      index = end;
+    } else if (closing[char]) {
+      stack.push(closing[char]);
+    } else if (char === stack[stack.length - 1]) {
+      stack.pop();
+      if (stack.length === 0) return index + 1;
+    }
+  }
+  return code.length;
+}
+
+/**
+ * Opening tags of PascalCase JSX elements (`<Button>`, `<Card.Header>`)
+ * with their attributes
+ */
+export function scanJsxTags(code: string): JsxTag[] {
+  const tags: JsxTag[] = [];
+  const opening = /<([A-Z][A-Za-z0-9]*(?:\.[A-Z][A-Za-z0-9]*)*)(?=[\s/>])/g;
+
+  for (let match = opening.exec(code); match; match = opening.exec(code)) {
+    const attributes: JsxAttribute[] = [];
+    let index = match.index + match[0].length;
+
+    while (index < code.length) {
+      while (/\s/.test(code[index] ?? '')) index++;
+      if (code[index] === '>' || code.startsWith('/>', index) || index >= code.length) break;
+
+      if (code[index] === '{') {
+        // Spread attributes carry nothing we can name
+        index = skipBalanced(code, index);
+        continue;
+      }
+
+      const name = /^[A-Za-z_$][\w$:.-]*/.exec(code.slice(index))?.[0];
+      if (!name) break;
+      index += name.length;
+
+      if (code[index] !== '=') {
+        attributes.push({ name, kind: 'boolean', value: 'true' });
+        continue;
+      }
+      index++;
+
+      const quote = code[index];
+      if (quote === '"' || quote === "'") {
+        const end = code.indexOf(quote, index + 1);
+        if (end < 0) break;
+        attributes.push({ name, kind: 'string', value: code.slice(index + 1, end) });
+        index = end + 1;
+      } else if (quote === '{') {
+        const end = skipBalanced(code, index);
+        attributes.push({ name, kind: 'expression', value: code.slice(index + 1, end - 1).trim() });
+        index = end;
+      } else {
+        break;
+      }
+    }
+
+    tags.push({ name: match[1], attributes });
+    opening.lastIndex = Math.max(opening.lastIndex, index);
+  }
+
+  return tags;
+}
+
+/**
+ * Type of a JSX attribute value: string literals are kept as literal
+ * types, so repeated usage builds up a union
+ */
+function attributeType(attribute: JsxAttribute): string {
+  if (attribute.kind === 'boolean') return 'boolean';
+  if (attribute.kind === 'string') return `'${attribute.value}'`;
+
+  const value = attribute.value;
+  if (/^(true|false)$/.test(value)) return 'boolean';
+  if (/^-?\d+(\.\d+)?$/.test(value)) return 'number';
+  if (/^(['"`])[^'"`]*\1$/.test(value)) return `'${value.slice(1, -1)}'`;
+  if (/^on[A-Z]/.test(attribute.name) || /=>|^function\b/.test(value)) return 'function';
+  if (value.startsWith('[')) return 'array';
+  if (value.startsWith('{')) return 'object';
+  if (value.startsWith('<')) return 'ReactNode';
+  return 'unknown';
+}
+
+function mergeTypes(types: string[]): string {
+  const distinct = [...new Set(types)];
+  const literals = distinct.filter(type => /^'.*'$/.test(type));
+  const others = distinct.filter(type => !literals.includes(type));
+  // Many different literals are an open set, not an enum
+  const literalTypes = literals.length > MAX_LITERAL_VALUES ? ['string'] : literals;
+  const merged = [...literalTypes, ...others.filter(type => type !== 'unknown' || distinct.length === 1)];
+  return merged.join(' | ') || 'unknown';
+}
+
+/**
+ * Props inferred from how the component is used in code samples
+ */
+function propsFromJsx(tags: JsxTag[], componentName: string): ComponentProp[] {
+  const usages = new Map<string, string[]>();
+  tags
+    .filter(tag => tag.name === componentName)
+    .flatMap(tag => tag.attributes)
+    .filter(attribute => !IGNORED_ATTRIBUTES.has(attribute.name))
+    .forEach(attribute => usages.set(attribute.name, [...(usages.get(attribute.name) ?? []), attributeType(attribute)]));
+
+  return [...usages].map(([name, types]) => ({
+    name,
+    type: mergeTypes(types),
+    required: false, // Usage never shows which props may be left out
+    description: '',
+    provenance: USED_PROP
+  }));
+}
+
+/**
+ * Members of a `{ ... }` type literal body, with JSDoc or line comments
+ * above a member as its description
+ */
+function parseTypeMembers(body: string): ComponentProp[] {
+  const props: ComponentProp[] = [];
+  let comment = '';
+  let index = 0;
+
+  while (index < body.length) {
+    const rest = body.slice(index);
+    const whitespace = /^[\s;,]+/.exec(rest);
+    if (whitespace) {
+      index += whitespace[0].length;
+      continue;
+    }
+
+    if (rest.startsWith('/*')) {
+      const end = body.indexOf('*/', index + 2);
+      comment = body.slice(index + 2, end < 0 ? body.length : end)
+        .replace(/^\*|\n\s*\*/g, '\n')
+        .split('\n')
+        .map(line => line.trim())
+        .filter(line => line && !line.startsWith('@'))
+        .join(' ');
+      index = end < 0 ? body.length : end + 2;
+      continue;
+    }
+    if (rest.startsWith('//')) {
+      const end = body.indexOf('\n', index);
+      comment = body.slice(index + 2, end < 0 ? body.length : end).trim();
+      index = end < 0 ? body.length : end;
+      continue;
+    }
+
+    const member = /^(?:readonly\s+)?(['"]?)([A-Za-z_$][\w$-]*)\1(\?)?\s*([:(<])/.exec(rest);
+    if (!member) {
+      // Index signatures and the like; skip to the next member
+      const next = rest.search(/[;\n]/);
+      index += next < 0 ? rest.length : next + 1;
+      comment = '';
+      continue;
+    }
+
+    // The type runs to the next `;`, `,` or line break outside brackets
+    let end = index + member[0].length - 1;
+    while (end < body.length && !/[;,\n]/.test(body[end])) {
+      end = /[{([]/.test(body[end]) ? skipBalanced(body, end) : end + 1;
+    }
+    // Union members continued on the next line
+    while (/^\n\s*\|/.test(body.slice(end))) {
+      end++;
+      while (end < body.length && !/[;,\n]/.test(body[end])) {
+        end = /[{([]/.test(body[end]) ? skipBalanced(body, end) : end + 1;
+      }
+    }
+
+    const signature = body.slice(index + member[0].length - 1, end).trim();
+    // Method signatures (`onClick(event): void`) become function types
+    const type = member[4] === ':'
+      ? signature.slice(1).trim()
+      : signature.replace(/^(<[^>]*>)?\(([^)]*)\)\s*:\s*([\s\S]+)$/, '$1($2) => $3');
+
+    props.push({
+      name: member[2],
+      type: type.replace(/\s+/g, ' ') || 'unknown',
+      required: !member[3],
+      description: comment,
+      provenance: DECLARED_PROP
+    });
+    comment = '';
+    index = end + 1;
+  }
+
+  return props;
+}
+
+/**
+ * `interface XProps { ... }` and `type XProps = { ... }` declarations in a
+ * code sample, keyed by the component name they describe
+ */
+export function findPropsDeclarations(code: string): Map<string, ComponentProp[]> {
+  const declarations = new Map<string, ComponentProp[]>();
+  const declaration = /\b(?:interface\s+([A-Z]\w*)Props\b[^{]*|type\s+([A-Z]\w*)Props\b[^=]*=[^{;]*)\{/g;
+
+  for (let match = declaration.exec(code); match; match = declaration.exec(code)) {
+    const open = match.index + match[0].length - 1;
+    const close = skipBalanced(code, open);
+    const name = match[1] ?? match[2];
+    declarations.set(name, [...(declarations.get(name) ?? []), ...parseTypeMembers(code.slice(open + 1, close - 1))]);
+    declaration.lastIndex = close;
+  }
+
+  return declarations;
+}
+
+/**
+ * PascalCase components a code sample declares (functions, arrow functions,
+ * forwardRef/memo wrappers and classes)
+ */
+function findComponentDeclarations(code: string): string[] {
+  const pattern = /\b(?:function\s+([A-Z]\w*)\s*[<(]|(?:const|let)\s+([A-Z]\w*)\s*(?::[^=]+)?=\s*(?:\([^)]*\)\s*=>|(?:React\.)?(?:forwardRef|memo)\b|function\b)|class\s+([A-Z]\w*)\s+extends\s+(?:React\.)?(?:Pure)?Component\b)/g;
+  return [...code.matchAll(pattern)].map(match => match[1] ?? match[2] ?? match[3]);
+}
+
+function mergeProps(...sources: ComponentProp[][]): ComponentProp[] {
+  const merged = new Map<string, ComponentProp>();
+
+  // Earlier sources are more reliable; later ones only fill in blanks
+  sources.flat().forEach(prop => {
+    const existing = merged.get(prop.name);
+    if (!existing) {
+      merged.set(prop.name, { ...prop });
+      return;
+    }
+    if (!existing.type || existing.type === 'unknown') existing.type = prop.type;
+    if (!existing.description) existing.description = prop.description;
+    if (existing.defaultValue === undefined && prop.defaultValue !== undefined) existing.defaultValue = prop.defaultValue;
+  });
+
+  return [...merged.values()];
+}
+
+/**
+ * Build a component from the rules alone, or null when the content does
+ * not document one
+ */
+export function analyzeWithRules(input: RuleAnalysisInput): AnalyzedComponent | null {
+  const candidates = new Map<string, { name: string; score: number; fromCode: boolean }>();
+  const addCandidate = (name: string, weight: number, fromCode: boolean) => {
+    const key = normalizeName(name);
+    if (!key) return;
+    const existing = candidates.get(key);
+    candidates.set(key, {
+      // An identifier from code is the name as developers write it
+      name: existing && (existing.fromCode || !fromCode) ? existing.name : name,
+      score: (existing?.score ?? 0) + weight,
+      fromCode: fromCode || Boolean(existing?.fromCode)
+    });
+  };
+
+  if (input.title) addCandidate(nameFromTitle(input.title), NAME_WEIGHTS.title, false);
+  if (input.headings[0]) addCandidate(nameFromTitle(input.headings[0]), NAME_WEIGHTS.heading, false);
+
+  const code = input.codeSamples.map(sample => sample.code).join('\n\n');
+  const declarations = findPropsDeclarations(code);
+  declarations.forEach((_, name) => addCandidate(name, NAME_WEIGHTS.propsType, true));
+  findComponentDeclarations(code).forEach(name => addCandidate(name, NAME_WEIGHTS.declaration, true));
+
+  // Only the most used tag counts, so layout wrappers in examples do not compete
+  const tags = scanJsxTags(code);
+  const tagCounts = new Map<string, number>();
+  tags.forEach(tag => tagCounts.set(tag.name.split('.')[0], (tagCounts.get(tag.name.split('.')[0]) ?? 0) + 1));
+  const [topTag, topCount] = [...tagCounts].sort((a, b) => b[1] - a[1])[0] ?? [];
+  if (topTag) addCandidate(topTag, Math.min(NAME_WEIGHTS.jsx + (topCount - 1) * 0.05, 0.5), true);
+
+  // A title alone names a page, not a component: code or a prop table must back it
+  const best = [...candidates.values()].sort((a, b) => b.score - a.score)[0];
+  if (!best || (!best.fromCode && input.tableProps.length === 0)) return null;
+  const name = best.name;
+
+  const description = input.paragraphs.find(paragraph => paragraph.length > 20) ?? input.description?.trim() ?? '';
+  const declaredProps = declarations.get(name) ?? [];
+  const props = mergeProps(
+    input.tableProps.map(prop => ({ ...prop, provenance: prop.provenance ?? TABLE_PROP })),
+    declaredProps,
+    propsFromJsx(tags, name)
+  );
+  const propsProvenance = input.tableProps.length > 0 ? TABLE_PROP
+    : declaredProps.length > 0 ? DECLARED_PROP
+      : props.length > 0 ? USED_PROP : FAILED;
+
+  const examples = input.codeSamples.filter(sample => sample.code.includes(`<${name}`) || sample.code.includes(`${name}Props`));
+
+  return {
+    id: `component-rules-${input.id}-${normalizeName(name)}`,
+    name,
+    description,
+    props,
+    codeSnippets: (examples.length > 0 ? examples : input.codeSamples).slice(0, MAX_SNIPPETS).map(sample => ({
+      language: sample.language || 'tsx',
+      code: sample.code,
+      description: `Example for ${name}`
+    })),
+    relationships: [],
+    metadata: {
+      analyzedAt: new Date().toISOString(),
+      source: 'heuristic',
+      analyzer: 'rules',
+      sourceUrl: input.sourceUrl
+    },
+    provenance: {
+      name: { source: 'heuristic', confidence: Math.min(0.95, Math.round(best.score * 100) / 100) },
+      description: description ? DESCRIPTION : FAILED,
+      props: propsProvenance
+    }
+  };
+}
+
+/**
+ * Prop table rows as component props; nested props already carry their
+ * full path (`options.size`) as name
+ */
+export function propsFromTables(candidates: PropCandidate[]): ComponentProp[] {
+  return candidates.map(prop => ({
+    name: prop.name,
+    type: prop.type,
+    required: prop.required,
+    description: prop.description,
+    ...(prop.defaultValue !== undefined ? { defaultValue: prop.defaultValue } : {}),
+    ...(prop.control ? { control: prop.control } : {})
+  }));
+}
+
+/**
+ * Read an analysis chunk (Markdown from the chunker, or plain text) as rule input
+ */
+export function ruleInputFromChunk(chunk: ContentChunk): RuleAnalysisInput {
+  const metadata = chunk.metadata ?? {};
+  const codeSamples: RuleAnalysisInput['codeSamples'] = [];
+  const prose = chunk.content.replace(/```([\w-]*)[^\n]*\n([\s\S]*?)```/g, (_, language: string, code: string) => {
+    codeSamples.push({ code: code.trimEnd(), language: language || undefined });
+    return '\n\n';
+  });
+
+  const headings: string[] = Array.isArray(metadata.headingPath)
+    ? metadata.headingPath.filter((heading): heading is string => typeof heading === 'string')
+    : [...prose.matchAll(/^#{1,6}\s+(.+)$/gm)].map(match => match[1].trim());
+
+  // Plain paragraphs: not headings, tables, lists or the chunker's context lines
+  const paragraphs = prose
+    .split(/\n{2,}/)
+    .map(block => block.trim())
+    .filter(block => block && !/^(#|\||[-*+]\s|\d+\.\s|Page: |Section: )/.test(block))
+    .map(block => block.replace(/\s+/g, ' '));
+
+  // Unlabelled code (e.g. a raw component file) is analysed as a whole
+  if (codeSamples.length === 0 && chunk.type !== 'markdown' && /<[A-Z]|Props\b/.test(chunk.content)) {
+    codeSamples.push({ code: chunk.content, language: chunk.type });
+  }
+
+  return {
+    id: chunk.id,
+    sourceUrl: typeof metadata.sourceUrl === 'string' ? metadata.sourceUrl : '',
+    title: typeof metadata.title === 'string' ? metadata.title : undefined,
+    headings,
+    description: typeof metadata.description === 'string' ? metadata.description : undefined,
+    paragraphs,
+    codeSamples,
+    tableProps: Array.isArray(metadata.propCandidates) ? propsFromTables(metadata.propCandidates as PropCandidate[]) : []
+  };
+}
+
+/**
+ * Components of an extracted page: one per section chunk that names a
+ * component, with chunks naming the same component merged
+ */
+export function analyzePageWithRules(page: ExtractedPageContent): Component[] {
+  const components = new Map<string, Component>();
+
+  chunkPage(page).forEach(chunk => {
+    const analyzed = analyzeWithRules(ruleInputFromChunk(chunk));
+    if (!analyzed) return;
+
+    const key = normalizeName(analyzed.name);
+    const existing = components.get(key);
+    if (existing) {
+      existing.props = mergeProps(existing.props, analyzed.props);
+      existing.codeSnippets.push(...analyzed.codeSnippets.map(({ code, description }) => ({ code, description })));
+      existing.description ||= analyzed.description;
+      return;
+    }
+    components.set(key, {
+      ...analyzed,
+      id: `component-rules-${page.id}-${key}`,
+      sourceId: page.url,
+      codeSnippets: analyzed.codeSnippets.map(({ code, description }) => ({ code, description }))
+    });
+  });
+
+  return [...components.values()];
+}
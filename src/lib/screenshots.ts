@@ -0,0 +1,141 @@
+/**
+ * Screenshots
+ *
+ * Captures a rendered page and its example/preview regions while the crawler
+ * has it open. Images are stored as PNG files under `<data dir>/screenshots`
+ * and served by /api/screenshots/<name>.
+ */
+
+import type { ElementHandle, Page } from 'puppeteer';
+import { PageScreenshot } from '../types/types';
+import { readDataFile, writeDataFile } from './storage';
+
+const SCREENSHOT_DIR = 'screenshots';
+const SCREENSHOT_NAME_PATTERN = /^[a-z0-9-]+\.png$/;
+const MAX_EXAMPLE_SCREENSHOTS = 12;
+// Full-page captures are cut off below this height to keep files reasonable
+const MAX_PAGE_HEIGHT = 8000;
+
+// Containers documentation sites commonly use for live examples
+export const EXAMPLE_SELECTORS = [
+  '[data-example]',
+  '[class*="example" i]',
+  '[class*="preview" i]',
+  '[class*="demo" i]',
+  '[class*="playground" i]',
+  '[class*="showcase" i]',
+  '.docs-story',
+  '.sbdocs-preview'
+];
+
+// Marks the regions chosen in the page so they can be located again
+const REGION_ATTRIBUTE = 'data-dsa-screenshot';
+
+export function isValidScreenshotName(name: unknown): name is string {
+  return typeof name === 'string' && SCREENSHOT_NAME_PATTERN.test(name);
+}
+
+export function getScreenshotUrl(name: string): string {
+  return `/api/screenshots/${name}`;
+}
+
+export async function readScreenshot(name: string): Promise<Buffer | null> {
+  if (!isValidScreenshotName(name)) return null;
+  return readDataFile(SCREENSHOT_DIR, name);
+}
+
+async function storeScreenshot(
+  image: Uint8Array,
+  id: string,
+  kind: PageScreenshot['kind'],
+  size: { width: number; height: number },
+  label?: string
+): Promise<PageScreenshot> {
+  const name = `${id}.png`;
+  await writeDataFile(image, SCREENSHOT_DIR, name);
+
+  return {
+    id,
+    kind,
+    url: getScreenshotUrl(name),
+    label,
+    width: Math.round(size.width),
+    height: Math.round(size.height)
+  };
+}
+
+/**
+ * Screenshot a single element, e.g. the root of a Storybook story
+ */
+export async function captureElementScreenshot(
+  element: ElementHandle,
+  id: string,
+  label?: string
+): Promise<PageScreenshot | null> {
+  const box = await element.boundingBox();
+  if (!box || box.width < 1 || box.height < 1) return null;
+
+  const image = await element.screenshot({ type: 'png' });
+  return storeScreenshot(image, id, 'example', box, label);
+}
+
+/**
+ * Screenshot the whole page and each example region on it. `pageId` prefixes
+ * the file names so screenshots can be traced back to their page.
+ */
+export async function capturePageScreenshots(page: Page, pageId: string): Promise<PageScreenshot[]> {
+  const screenshots: PageScreenshot[] = [];
+
+  const pageSize = await page.evaluate(() => ({
+    width: document.documentElement.scrollWidth,
+    height: document.documentElement.scrollHeight
+  }));
+  const clipHeight = Math.min(pageSize.height, MAX_PAGE_HEIGHT);
+  const pageImage = await page.screenshot({
+    type: 'png',
+    clip: { x: 0, y: 0, width: pageSize.width, height: clipHeight },
+    captureBeyondViewport: true
+  });
+  screenshots.push(await storeScreenshot(pageImage, `${pageId}-page`, 'page', { width: pageSize.width, height: clipHeight }));
+
+  const regions = await page.evaluate((selectors: string[], attribute: string, maxRegions: number) => {
+    const candidates = Array.from(document.querySelectorAll<HTMLElement>(selectors.join(',')))
+      .filter(element => {
+        const rect = element.getBoundingClientRect();
+        const style = window.getComputedStyle(element);
+        return rect.width >= 40 && rect.height >= 24 && style.visibility !== 'hidden' && style.display !== 'none';
+      });
+
+    // Nested matches (a preview inside an example) are captured once, by the outermost
+    const outermost = candidates.filter(element =>
+      !candidates.some(other => other !== element && other.contains(element))
+    );
+
+    const headings = Array.from(document.querySelectorAll('h1, h2, h3, h4, h5, h6'));
+
+    return outermost.slice(0, maxRegions).map((element, index) => {
+      element.setAttribute(attribute, String(index));
+
+      const previousHeading = headings
+        .filter(heading => heading.compareDocumentPosition(element) & Node.DOCUMENT_POSITION_FOLLOWING)
+        .pop();
+
+      return { index, label: previousHeading?.textContent?.trim() || undefined };
+    });
+  }, EXAMPLE_SELECTORS, REGION_ATTRIBUTE, MAX_EXAMPLE_SCREENSHOTS);
+
+  for (const region of regions) {
+    try {
+      const element = await page.$(`[${REGION_ATTRIBUTE}="${region.index}"]`);
+      if (!element) continue;
+
+      const screenshot = await captureElementScreenshot(element, `${pageId}-example-${region.index}`, region.label);
+      if (screenshot) screenshots.push(screenshot);
+      await element.dispose();
+    } catch (error) {
+      console.warn(`Failed to screenshot example ${region.index} on ${page.url()}:`, error);
+    }
+  }
+
+  return screenshots;
+}
@@ -0,0 +1,93 @@
+/**
+ * sitemap.xml support
+ *
+ * Reads sitemaps and sitemap indexes (recursively, gzipped or plain) and
+ * returns the page URLs they list.
+ */
+
+import { gunzipSync } from 'zlib';
+import * as cheerio from 'cheerio';
+
+export interface SitemapOptions {
+  userAgent: string;
+  timeoutMs: number;
+  maxUrls: number;
+  maxSitemaps?: number;
+  // Extra headers (e.g. credentials), only sent to sitemaps on this origin
+  headers?: Record<string, string>;
+  headersOrigin?: string;
+}
+
+export interface ParsedSitemap {
+  urls: string[];
+  sitemaps: string[];
+}
+
+/**
+ * Parse a sitemap document. `<urlset>` yields page URLs, `<sitemapindex>`
+ * yields nested sitemap URLs.
+ */
+export function parseSitemap(xml: string): ParsedSitemap {
+  const $ = cheerio.load(xml, { xmlMode: true });
+  const readLocs = (selector: string) => $(selector)
+    .map((_, loc) => $(loc).text().trim())
+    .get()
+    .filter(loc => loc.length > 0);
+
+  return {
+    urls: readLocs('urlset > url > loc'),
+    sitemaps: readLocs('sitemapindex > sitemap > loc')
+  };
+}
+
+async function fetchSitemapDocument(url: string, options: SitemapOptions): Promise<string | null> {
+  try {
+    const sameOrigin = options.headersOrigin !== undefined && new URL(url).origin === options.headersOrigin;
+    const response = await fetch(url, {
+      headers: { ...(sameOrigin ? options.headers : {}), 'User-Agent': options.userAgent },
+      signal: AbortSignal.timeout(options.timeoutMs)
+    });
+
+    if (!response.ok) return null;
+
+    const buffer = Buffer.from(await response.arrayBuffer());
+    // Gzip magic number: served as a .gz file rather than with Content-Encoding
+    if (buffer[0] === 0x1f && buffer[1] === 0x8b) {
+      return gunzipSync(buffer).toString('utf8');
+    }
+    return buffer.toString('utf8');
+  } catch (error) {
+    console.warn(`Failed to fetch sitemap ${url}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Collect page URLs from the given sitemaps, following sitemap indexes
+ * breadth-first until `maxUrls` or `maxSitemaps` is reached
+ */
+export async function fetchSitemapUrls(sitemapUrls: string[], options: SitemapOptions): Promise<string[]> {
+  const maxSitemaps = options.maxSitemaps ?? 25;
+  const queue = [...sitemapUrls];
+  const seenSitemaps = new Set<string>();
+  const urls = new Set<string>();
+
+  while (queue.length > 0 && seenSitemaps.size < maxSitemaps && urls.size < options.maxUrls) {
+    const sitemapUrl = queue.shift()!;
+    if (seenSitemaps.has(sitemapUrl)) continue;
+    seenSitemaps.add(sitemapUrl);
+
+    const xml = await fetchSitemapDocument(sitemapUrl, options);
+    if (!xml) continue;
+
+    const parsed = parseSitemap(xml);
+    queue.push(...parsed.sitemaps);
+
+    for (const url of parsed.urls) {
+      if (urls.size >= options.maxUrls) break;
+      urls.add(url);
+    }
+  }
+
+  return Array.from(urls);
+}
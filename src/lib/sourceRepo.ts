@@ -0,0 +1,1023 @@
+/**
+ * Source Repository Adapter
+ *
+ * Reads components straight from a local checkout of a design system, for
+ * when the code is a better source than the documentation site. Component
+ * files (TSX, JSX, Vue single-file components and `.d.ts` declarations) are
+ * parsed with the TypeScript compiler API; exported components become
+ * Component records with their props, JSDoc descriptions, defaults and
+ * literal union types.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import * as ts from 'typescript';
+import { CodeSample, Component, ComponentProp, ExtractedPageContent } from '../types/types';
+import { getCodeSampleId } from './codeSamples';
+import { isArchiveFile } from './fileArchive';
+
+export type SourceFramework = 'react' | 'vue';
+
+export interface SourceComponent {
+  name: string;
+  exportName: string; // 'default' for default exports
+  framework: SourceFramework;
+  description: string;
+  props: ComponentProp[];
+  examples: string[]; // @example blocks of the component's JSDoc
+  extends: string[]; // Prop types that could not be resolved inside the repo, e.g. HTML attributes
+  deprecated?: string;
+}
+
+// Directories never holding a design system's own component sources
+const SKIPPED_DIRECTORIES = new Set(['node_modules', 'coverage', 'storybook-static', '__tests__', '__mocks__']);
+const SKIPPED_FILE = /\.(test|spec|stories|story)\.\w+$/;
+const COMPONENT_FILE = /(\.d\.ts|\.tsx|\.jsx|\.vue)$/;
+const MAX_FILE_BYTES = 1024 * 1024;
+// Imported prop types are followed this many files deep
+const MAX_TYPE_RESOLUTION_DEPTH = 5;
+
+// Wrappers whose generic argument or inner function holds the props
+const COMPONENT_WRAPPERS = /^(forwardRef|memo|observer|styled)$/;
+// Component types whose first generic argument is the props type
+const COMPONENT_TYPES = /^(FC|FunctionComponent|VFC|VoidFunctionComponent|ComponentType|ComponentClass|ExoticComponent|NamedExoticComponent|ForwardRefExoticComponent|MemoExoticComponent|ForwardRefRenderFunction|Component|PureComponent|DefineComponent)$/;
+// Utility types that keep all props of their first argument
+const PASS_THROUGH_TYPES = /^(Partial|Readonly|Required|PropsWithChildren|PropsWithoutRef|PropsWithRef|NonNullable)$/;
+
+const VUE_RUNTIME_TYPES: Record<string, string> = {
+  String: 'string',
+  Number: 'number',
+  Boolean: 'boolean',
+  Array: 'unknown[]',
+  Object: 'object',
+  Function: 'Function',
+  Date: 'Date',
+  Symbol: 'symbol'
+};
+
+/**
+ * `file:` URLs point a crawl at a local checkout instead of a website
+ */
+export function isSourceRepoUrl(url: string): boolean {
+  return /^file:/i.test(url.trim());
+}
+
+/**
+ * Whether `target` is `root` or lies inside it
+ */
+function isWithin(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === '' || (relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative));
+}
+
+/**
+ * Whether a local path may be read by a crawl: only paths under one of the
+ * roots in `SOURCE_REPO_ROOTS` (a path-delimited list) may. With no roots
+ * configured, no local path may be read.
+ */
+export function isAllowedLocalPath(localPath: string): boolean {
+  const resolved = path.resolve(localPath);
+  return (process.env.SOURCE_REPO_ROOTS || '')
+    .split(path.delimiter)
+    .filter(Boolean)
+    .some(root => isWithin(path.resolve(root), resolved));
+}
+
+/**
+ * Path of a `file:` source URL: a checkout directory, or an archive of
+ * Markdown docs, which must be an allowed local path
+ */
+export async function resolveSourceRepoRoot(url: string): Promise<string> {
+  const rootDir = path.resolve(fileURLToPath(url));
+  if (!isAllowedLocalPath(rootDir)) {
+    throw new Error(`${rootDir} is outside the allowed source repository roots (SOURCE_REPO_ROOTS)`);
+  }
+
+  const stats = await fs.stat(rootDir).catch(() => null);
+  if (!stats?.isDirectory() && !(stats?.isFile() && isArchiveFile(rootDir))) {
+    throw new Error(`Source repository ${rootDir} is neither a directory nor a zip or tar archive`);
+  }
+  return rootDir;
+}
+
+/**
+ * Files under the checkout whose name matches `include`, relative to it and
+ * in path order. Dependencies, build output of tools and dot-directories are
+ * skipped.
+ */
+export async function listRepoFiles(rootDir: string, include: (fileName: string) => boolean): Promise<string[]> {
+  const files: string[] = [];
+
+  const walk = async (directory: string) => {
+    const entries = await fs.readdir(directory, { withFileTypes: true });
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (entry.name.startsWith('.')) continue;
+      const fullPath = path.join(directory, entry.name);
+
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRECTORIES.has(entry.name)) await walk(fullPath);
+      } else if (entry.isFile() && include(entry.name)) {
+        files.push(path.relative(rootDir, fullPath).split(path.sep).join('/'));
+      }
+    }
+  };
+
+  await walk(rootDir);
+  return files;
+}
+
+/**
+ * Every component file under the checkout, relative to it. Implementation
+ * files come before declarations so a component documented in both is read
+ * from its source.
+ */
+export async function listComponentFiles(rootDir: string): Promise<string[]> {
+  const files = await listRepoFiles(rootDir, name => COMPONENT_FILE.test(name) && !SKIPPED_FILE.test(name));
+  const isDeclaration = (file: string) => Number(file.endsWith('.d.ts'));
+  return files.sort((a, b) => isDeclaration(a) - isDeclaration(b));
+}
+
+interface ImportBinding {
+  specifier: string;
+  importedName: string; // 'default' for default imports
+}
+
+interface ModuleInfo {
+  filePath: string;
+  sourceFile: ts.SourceFile;
+  types: Map<string, ts.InterfaceDeclaration | ts.TypeAliasDeclaration>;
+  imports: Map<string, ImportBinding>;
+  // Local names re-exported under another name, e.g. `export { Props as ButtonProps }`
+  exportAliases: Map<string, string>;
+}
+
+interface ResolvedType {
+  moduleInfo: ModuleInfo;
+  declaration: ts.InterfaceDeclaration | ts.TypeAliasDeclaration;
+}
+
+interface CollectedProps {
+  props: Map<string, ComponentProp>;
+  extends: string[];
+}
+
+function scriptKindOf(filePath: string): ts.ScriptKind {
+  if (/\.tsx$/.test(filePath)) return ts.ScriptKind.TSX;
+  if (/\.jsx?$/.test(filePath)) return ts.ScriptKind.JSX;
+  return ts.ScriptKind.TS;
+}
+
+function indexModule(filePath: string, sourceFile: ts.SourceFile): ModuleInfo {
+  const moduleInfo: ModuleInfo = { filePath, sourceFile, types: new Map(), imports: new Map(), exportAliases: new Map() };
+
+  sourceFile.statements.forEach(statement => {
+    if (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement)) {
+      // Interfaces may be declared in several parts; the first is enough for props
+      if (!moduleInfo.types.has(statement.name.text)) moduleInfo.types.set(statement.name.text, statement);
+    } else if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+      const specifier = statement.moduleSpecifier.text;
+      const clause = statement.importClause;
+      if (clause?.name) moduleInfo.imports.set(clause.name.text, { specifier, importedName: 'default' });
+      if (clause?.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+        clause.namedBindings.elements.forEach(element => {
+          moduleInfo.imports.set(element.name.text, {
+            specifier,
+            importedName: (element.propertyName ?? element.name).text
+          });
+        });
+      }
+    } else if (ts.isExportDeclaration(statement) && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+      statement.exportClause.elements.forEach(element => {
+        if (statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)) {
+          // Re-exports from another file, e.g. an index barrel
+          moduleInfo.imports.set(element.name.text, {
+            specifier: statement.moduleSpecifier.text,
+            importedName: (element.propertyName ?? element.name).text
+          });
+        } else if (element.propertyName) {
+          moduleInfo.exportAliases.set(element.name.text, element.propertyName.text);
+        }
+      });
+    }
+  });
+
+  return moduleInfo;
+}
+
+/**
+ * Loads and indexes component files and the files their prop types are
+ * imported from. Only relative imports inside the checkout are followed.
+ * One loader is shared by a crawl so each file is parsed once.
+ */
+export class ModuleLoader {
+  private modules = new Map<string, Promise<ModuleInfo | null>>();
+
+  constructor(readonly rootDir: string) {}
+
+  load(filePath: string, contents?: string): Promise<ModuleInfo | null> {
+    if (!this.modules.has(filePath)) {
+      this.modules.set(filePath, this.read(filePath, contents));
+    }
+    return this.modules.get(filePath)!;
+  }
+
+  async resolveImport(from: ModuleInfo, specifier: string): Promise<ModuleInfo | null> {
+    if (!specifier.startsWith('.')) return null;
+
+    const base = path.resolve(path.dirname(from.filePath), specifier.replace(/\.(js|jsx)$/, ''));
+    if (!isWithin(this.rootDir, base)) return null;
+
+    const candidates = [
+      base,
+      ...['.ts', '.tsx', '.d.ts', '.js', '.jsx'].map(extension => `${base}${extension}`),
+      ...['index.ts', 'index.tsx', 'index.d.ts'].map(file => path.join(base, file))
+    ];
+    for (const candidate of candidates) {
+      const stats = await fs.stat(candidate).catch(() => null);
+      if (stats?.isFile() && stats.size <= MAX_FILE_BYTES) return this.load(candidate);
+    }
+    return null;
+  }
+
+  private async read(filePath: string, contents?: string): Promise<ModuleInfo | null> {
+    try {
+      const text = contents ?? await fs.readFile(filePath, 'utf8');
+      const sourceFile = ts.createSourceFile(filePath, text, ts.ScriptTarget.Latest, true, scriptKindOf(filePath));
+      return indexModule(filePath, sourceFile);
+    } catch (error) {
+      console.warn(`Failed to read ${filePath}:`, error);
+      return null;
+    }
+  }
+}
+
+/**
+ * Find the declaration of a type name, following imports and re-exports
+ */
+async function resolveTypeName(
+  loader: ModuleLoader,
+  moduleInfo: ModuleInfo,
+  name: string,
+  depth = 0
+): Promise<ResolvedType | null> {
+  if (depth > MAX_TYPE_RESOLUTION_DEPTH) return null;
+
+  const localName = moduleInfo.exportAliases.get(name) ?? name;
+  const declaration = moduleInfo.types.get(localName);
+  if (declaration) return { moduleInfo, declaration };
+
+  const binding = moduleInfo.imports.get(localName);
+  if (!binding) return null;
+
+  const target = await loader.resolveImport(moduleInfo, binding.specifier);
+  return target ? resolveTypeName(loader, target, binding.importedName, depth + 1) : null;
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function getJsDocDescription(node: ts.Node): string {
+  return ts.getJSDocCommentsAndTags(node)
+    .filter(ts.isJSDoc)
+    .map(doc => normalizeText(ts.getTextOfJSDocComment(doc.comment) ?? ''))
+    .filter(Boolean)
+    .join(' ');
+}
+
+function getJsDocTag(node: ts.Node, ...names: string[]): string | undefined {
+  const tag = ts.getJSDocTags(node).find(candidate => names.includes(candidate.tagName.text));
+  if (!tag) return undefined;
+  return (ts.getTextOfJSDocComment(tag.comment) ?? '').trim();
+}
+
+function getJsDocExamples(node: ts.Node): string[] {
+  return ts.getJSDocTags(node)
+    .filter(tag => tag.tagName.text === 'example')
+    .map(tag => (ts.getTextOfJSDocComment(tag.comment) ?? '').replace(/^```\w*\n?|\n?```$/g, '').trim())
+    .filter(Boolean);
+}
+
+function getPropertyName(name: ts.PropertyName | ts.BindingName): string | null {
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name) || ts.isPrivateIdentifier(name)) {
+    return name.text;
+  }
+  return null;
+}
+
+function typeReferenceName(typeName: ts.EntityName): string {
+  return ts.isIdentifier(typeName) ? typeName.text : typeName.right.text;
+}
+
+function isLiteralUnion(node: ts.TypeNode): boolean {
+  if (ts.isLiteralTypeNode(node)) return true;
+  if (ts.isParenthesizedTypeNode(node)) return isLiteralUnion(node.type);
+  return ts.isUnionTypeNode(node) && node.types.every(isLiteralUnion);
+}
+
+/**
+ * Type text of a prop. References to aliases of literal unions are expanded,
+ * so `size: Size` reads as `'sm' | 'md' | 'lg'`.
+ */
+async function formatType(loader: ModuleLoader, moduleInfo: ModuleInfo, node: ts.TypeNode | undefined): Promise<string> {
+  if (!node) return 'unknown';
+
+  if (ts.isUnionTypeNode(node)) {
+    const parts = await Promise.all(node.types.map(part => formatType(loader, moduleInfo, part)));
+    return [...new Set(parts)].join(' | ');
+  }
+
+  if (ts.isTypeReferenceNode(node) && !node.typeArguments) {
+    const resolved = await resolveTypeName(loader, moduleInfo, typeReferenceName(node.typeName));
+    if (resolved && ts.isTypeAliasDeclaration(resolved.declaration) && isLiteralUnion(resolved.declaration.type)) {
+      return formatType(loader, resolved.moduleInfo, resolved.declaration.type);
+    }
+  }
+
+  return normalizeText(node.getText(moduleInfo.sourceFile));
+}
+
+async function memberToProp(
+  loader: ModuleLoader,
+  moduleInfo: ModuleInfo,
+  member: ts.TypeElement
+): Promise<ComponentProp | null> {
+  if (!member.name) return null;
+  const name = getPropertyName(member.name);
+  if (!name) return null;
+
+  let type: string;
+  if (ts.isPropertySignature(member)) {
+    type = await formatType(loader, moduleInfo, member.type);
+  } else if (ts.isMethodSignature(member)) {
+    const parameters = member.parameters.map(parameter => normalizeText(parameter.getText(moduleInfo.sourceFile))).join(', ');
+    type = `(${parameters}) => ${member.type ? normalizeText(member.type.getText(moduleInfo.sourceFile)) : 'void'}`;
+  } else {
+    return null;
+  }
+
+  const deprecated = getJsDocTag(member, 'deprecated');
+  const description = getJsDocDescription(member);
+  return {
+    name,
+    type,
+    required: !member.questionToken,
+    description: deprecated !== undefined ? normalizeText(`Deprecated${deprecated ? `: ${deprecated}` : ''}. ${description}`) : description,
+    defaultValue: getJsDocTag(member, 'default', 'defaultValue') || undefined
+  };
+}
+
+function mergeCollected(target: CollectedProps, source: CollectedProps, overwrite = true) {
+  source.props.forEach((prop, name) => {
+    if (overwrite || !target.props.has(name)) target.props.set(name, prop);
+  });
+  source.extends.forEach(name => {
+    if (!target.extends.includes(name)) target.extends.push(name);
+  });
+}
+
+/**
+ * Collect the props of a props type: object literals, interfaces with their
+ * `extends`, aliases, intersections, unions and the common utility types.
+ * Types that cannot be resolved inside the repo are listed in `extends`.
+ */
+async function collectProps(
+  loader: ModuleLoader,
+  moduleInfo: ModuleInfo,
+  node: ts.TypeNode | undefined,
+  depth = 0
+): Promise<CollectedProps> {
+  const collected: CollectedProps = { props: new Map(), extends: [] };
+  if (!node || depth > MAX_TYPE_RESOLUTION_DEPTH) return collected;
+
+  if (ts.isParenthesizedTypeNode(node)) {
+    return collectProps(loader, moduleInfo, node.type, depth);
+  }
+
+  if (ts.isTypeLiteralNode(node)) {
+    for (const member of node.members) {
+      const prop = await memberToProp(loader, moduleInfo, member);
+      if (prop) collected.props.set(prop.name, prop);
+    }
+    return collected;
+  }
+
+  if (ts.isIntersectionTypeNode(node)) {
+    for (const part of node.types) {
+      mergeCollected(collected, await collectProps(loader, moduleInfo, part, depth + 1));
+    }
+    return collected;
+  }
+
+  if (ts.isUnionTypeNode(node)) {
+    // Discriminated props: a prop is only required when every variant requires it
+    const variants = await Promise.all(node.types.map(part => collectProps(loader, moduleInfo, part, depth + 1)));
+    variants.forEach(variant => mergeCollected(collected, variant, false));
+    collected.props.forEach((prop, name) => {
+      const required = variants.every(variant => variant.props.get(name)?.required);
+      collected.props.set(name, { ...prop, required });
+    });
+    return collected;
+  }
+
+  if (ts.isExpressionWithTypeArguments(node) || ts.isTypeReferenceNode(node)) {
+    const typeName = ts.isTypeReferenceNode(node) ? node.typeName : node.expression;
+    const name = ts.isTypeReferenceNode(node)
+      ? typeReferenceName(node.typeName)
+      : ts.isIdentifier(node.expression) ? node.expression.text : ts.isPropertyAccessExpression(node.expression) ? node.expression.name.text : '';
+    const typeArguments = node.typeArguments ?? [];
+
+    if (PASS_THROUGH_TYPES.test(name) && typeArguments[0]) {
+      const inner = await collectProps(loader, moduleInfo, typeArguments[0], depth + 1);
+      if (name === 'Partial') inner.props.forEach(prop => { prop.required = false; });
+      if (name === 'Required') inner.props.forEach(prop => { prop.required = true; });
+      return inner;
+    }
+
+    if ((name === 'Omit' || name === 'Pick') && typeArguments[0] && typeArguments[1]) {
+      const inner = await collectProps(loader, moduleInfo, typeArguments[0], depth + 1);
+      const keys = new Set(
+        [...(ts.isUnionTypeNode(typeArguments[1]) ? typeArguments[1].types : [typeArguments[1]])]
+          .filter(ts.isLiteralTypeNode)
+          .map(key => ts.isStringLiteral(key.literal) ? key.literal.text : key.literal.getText(moduleInfo.sourceFile))
+      );
+      inner.props.forEach((_, key) => {
+        if (keys.has(key) === (name === 'Omit')) inner.props.delete(key);
+      });
+      return inner;
+    }
+
+    const resolved = ts.isIdentifier(typeName) ? await resolveTypeName(loader, moduleInfo, name) : null;
+    if (!resolved) {
+      collected.extends.push(normalizeText(node.getText(moduleInfo.sourceFile)));
+      return collected;
+    }
+
+    const { declaration, moduleInfo: declaringModule } = resolved;
+    if (ts.isTypeAliasDeclaration(declaration)) {
+      return collectProps(loader, declaringModule, declaration.type, depth + 1);
+    }
+
+    // Inherited props first, so the interface's own declarations win
+    for (const clause of declaration.heritageClauses ?? []) {
+      for (const heritage of clause.types) {
+        mergeCollected(collected, await collectProps(loader, declaringModule, heritage, depth + 1));
+      }
+    }
+    for (const member of declaration.members) {
+      const prop = await memberToProp(loader, declaringModule, member);
+      if (prop) collected.props.set(prop.name, prop);
+    }
+    return collected;
+  }
+
+  collected.extends.push(normalizeText(node.getText(moduleInfo.sourceFile)));
+  return collected;
+}
+
+function isComponentName(name: string): boolean {
+  return /^[A-Z][A-Za-z0-9]*$/.test(name);
+}
+
+function componentNameFromFile(filePath: string): string {
+  const base = path.basename(filePath).replace(/(\.d\.ts|\.\w+)$/, '');
+  const name = (base === 'index' ? path.basename(path.dirname(filePath)) : base)
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(part => part[0].toUpperCase() + part.slice(1))
+    .join('');
+  return name || 'Component';
+}
+
+function hasModifier(node: ts.Node, keyword: ts.SyntaxKind = ts.SyntaxKind.ExportKeyword): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some(modifier => modifier.kind === keyword);
+}
+
+function containsJsx(node: ts.Node): boolean {
+  let found = false;
+  const visit = (child: ts.Node) => {
+    if (found) return;
+    if (ts.isJsxElement(child) || ts.isJsxSelfClosingElement(child) || ts.isJsxFragment(child)) {
+      found = true;
+      return;
+    }
+    // React.createElement / h() without JSX
+    if (ts.isCallExpression(child) && /(^|\.)(createElement|h)$/.test(child.expression.getText())) {
+      found = true;
+      return;
+    }
+    ts.forEachChild(child, visit);
+  };
+  visit(node);
+  return found;
+}
+
+/**
+ * Literal text of a default value, or undefined for computed defaults that
+ * would be misleading out of context
+ */
+function defaultValueText(node: ts.Expression, sourceFile: ts.SourceFile): string {
+  const inner = ts.isArrowFunction(node) && !ts.isBlock(node.body) ? node.body : node;
+  return normalizeText(inner.getText(sourceFile));
+}
+
+function readObjectDefaults(node: ts.Expression | undefined, sourceFile: ts.SourceFile): Map<string, string> {
+  const defaults = new Map<string, string>();
+  if (!node) return defaults;
+  const object = ts.isAsExpression(node) || ts.isParenthesizedExpression(node) ? node.expression : node;
+  if (!ts.isObjectLiteralExpression(object)) return defaults;
+
+  object.properties.forEach(property => {
+    if (ts.isPropertyAssignment(property)) {
+      const name = getPropertyName(property.name);
+      if (name) defaults.set(name, defaultValueText(property.initializer, sourceFile));
+    } else if (ts.isShorthandPropertyAssignment(property)) {
+      defaults.set(property.name.text, property.name.text);
+    }
+  });
+  return defaults;
+}
+
+interface ComponentDeclaration {
+  localName: string;
+  node: ts.Node; // Where the JSDoc lives
+  propsType?: ts.TypeNode;
+  defaults: Map<string, string>;
+}
+
+/**
+ * The function that renders a component, looking through forwardRef, memo
+ * and similar wrappers
+ */
+function unwrapComponentExpression(expression: ts.Expression): {
+  fn?: ts.ArrowFunction | ts.FunctionExpression;
+  propsType?: ts.TypeNode;
+} {
+  if (ts.isParenthesizedExpression(expression) || ts.isAsExpression(expression)) {
+    return unwrapComponentExpression(expression.expression);
+  }
+  if (ts.isArrowFunction(expression) || ts.isFunctionExpression(expression)) {
+    return { fn: expression };
+  }
+  if (ts.isCallExpression(expression)) {
+    const callee = ts.isPropertyAccessExpression(expression.expression)
+      ? expression.expression.name.text
+      : ts.isIdentifier(expression.expression) ? expression.expression.text : '';
+    if (!COMPONENT_WRAPPERS.test(callee) || !expression.arguments[0]) return {};
+
+    const inner = unwrapComponentExpression(expression.arguments[0]);
+    // forwardRef<Ref, Props> and memo<Props>
+    const typeArguments = expression.typeArguments ?? [];
+    const propsType = callee === 'forwardRef' ? typeArguments[1] : typeArguments[0];
+    return { fn: inner.fn, propsType: propsType ?? inner.propsType };
+  }
+  return {};
+}
+
+function propsFromFunction(fn: ts.SignatureDeclaration, sourceFile: ts.SourceFile): { propsType?: ts.TypeNode; defaults: Map<string, string> } {
+  const defaults = new Map<string, string>();
+  const parameter = fn.parameters[0];
+  if (!parameter) return { defaults };
+
+  if (ts.isObjectBindingPattern(parameter.name)) {
+    parameter.name.elements.forEach(element => {
+      const name = element.propertyName ? getPropertyName(element.propertyName) : getPropertyName(element.name);
+      if (name && element.initializer && !element.dotDotDotToken) {
+        defaults.set(name, defaultValueText(element.initializer, sourceFile));
+      }
+    });
+  }
+  return { propsType: parameter.type, defaults };
+}
+
+/**
+ * Props type taken from an annotation like `React.FC<ButtonProps>`
+ */
+function propsFromComponentType(type: ts.TypeNode | undefined): ts.TypeNode | undefined {
+  if (!type || !ts.isTypeReferenceNode(type)) return undefined;
+  return COMPONENT_TYPES.test(typeReferenceName(type.typeName)) ? type.typeArguments?.[0] : undefined;
+}
+
+function findReactComponents(moduleInfo: ModuleInfo, isDeclarationFile: boolean): { declarations: ComponentDeclaration[]; exports: Map<string, string> } {
+  const { sourceFile } = moduleInfo;
+  const declarations: ComponentDeclaration[] = [];
+  const exports = new Map<string, string>(); // Export name -> local name
+  const staticDefaults = new Map<string, Map<string, string>>();
+
+  const returnsElement = (fn: ts.SignatureDeclaration) => {
+    if (isDeclarationFile) {
+      return !fn.type || /Element|ReactNode|ReactPortal|VNode/.test(fn.type.getText(sourceFile));
+    }
+    return 'body' in fn && fn.body ? containsJsx(fn.body) : false;
+  };
+
+  sourceFile.statements.forEach(statement => {
+    const exported = hasModifier(statement);
+    const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+
+    if (ts.isFunctionDeclaration(statement)) {
+      const localName = statement.name?.text ?? (isDefault ? componentNameFromFile(moduleInfo.filePath) : '');
+      if (!isComponentName(localName) || !returnsElement(statement)) return;
+
+      declarations.push({ localName, node: statement, ...propsFromFunction(statement, sourceFile) });
+      if (exported) exports.set(isDefault ? 'default' : localName, localName);
+    } else if (ts.isVariableStatement(statement)) {
+      statement.declarationList.declarations.forEach(declaration => {
+        if (!ts.isIdentifier(declaration.name) || !isComponentName(declaration.name.text)) return;
+        const localName = declaration.name.text;
+
+        const annotated = propsFromComponentType(declaration.type);
+        const { fn, propsType: wrapperProps } = declaration.initializer
+          ? unwrapComponentExpression(declaration.initializer)
+          : {};
+
+        if (!annotated && !wrapperProps && !(fn && returnsElement(fn))) {
+          // Declarations only have a type; anything that is not a known component type is skipped
+          if (!isDeclarationFile || !declaration.type || !ts.isFunctionTypeNode(declaration.type)) return;
+        }
+
+        const fromFunction = fn ? propsFromFunction(fn, sourceFile) : { defaults: new Map<string, string>() };
+        const functionType = declaration.type && ts.isFunctionTypeNode(declaration.type) ? declaration.type.parameters[0]?.type : undefined;
+        declarations.push({
+          localName,
+          node: declaration,
+          propsType: annotated ?? wrapperProps ?? fromFunction.propsType ?? functionType,
+          defaults: fromFunction.defaults
+        });
+        if (exported) exports.set(localName, localName);
+      });
+    } else if (ts.isClassDeclaration(statement)) {
+      const localName = statement.name?.text ?? (isDefault ? componentNameFromFile(moduleInfo.filePath) : '');
+      const base = statement.heritageClauses
+        ?.find(clause => clause.token === ts.SyntaxKind.ExtendsKeyword)
+        ?.types[0];
+      const baseName = base && (ts.isPropertyAccessExpression(base.expression) ? base.expression.name.text : base.expression.getText(sourceFile));
+      if (!isComponentName(localName) || !baseName || !/^(Component|PureComponent)$/.test(baseName)) return;
+
+      const defaultsMember = statement.members.find(member =>
+        ts.isPropertyDeclaration(member)
+        && hasModifier(member, ts.SyntaxKind.StaticKeyword)
+        && getPropertyName(member.name) === 'defaultProps'
+      ) as ts.PropertyDeclaration | undefined;
+
+      declarations.push({
+        localName,
+        node: statement,
+        propsType: base.typeArguments?.[0],
+        defaults: readObjectDefaults(defaultsMember?.initializer, sourceFile)
+      });
+      if (exported) exports.set(isDefault ? 'default' : localName, localName);
+    } else if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      if (ts.isIdentifier(statement.expression)) {
+        exports.set('default', statement.expression.text);
+        return;
+      }
+
+      // export default forwardRef(...) or an anonymous arrow function
+      const { fn, propsType } = unwrapComponentExpression(statement.expression);
+      if (fn && returnsElement(fn)) {
+        const localName = componentNameFromFile(moduleInfo.filePath);
+        const fromFunction = propsFromFunction(fn, sourceFile);
+        declarations.push({ localName, node: statement, propsType: propsType ?? fromFunction.propsType, defaults: fromFunction.defaults });
+        exports.set('default', localName);
+      }
+    } else if (ts.isExportDeclaration(statement) && !statement.moduleSpecifier && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+      statement.exportClause.elements.forEach(element => {
+        exports.set(element.name.text, (element.propertyName ?? element.name).text);
+      });
+    } else if (
+      ts.isExpressionStatement(statement)
+      && ts.isBinaryExpression(statement.expression)
+      && statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken
+      && ts.isPropertyAccessExpression(statement.expression.left)
+      && statement.expression.left.name.text === 'defaultProps'
+      && ts.isIdentifier(statement.expression.left.expression)
+    ) {
+      // Button.defaultProps = { ... }
+      staticDefaults.set(
+        statement.expression.left.expression.text,
+        readObjectDefaults(statement.expression.right, sourceFile)
+      );
+    }
+  });
+
+  declarations.forEach(declaration => {
+    staticDefaults.get(declaration.localName)?.forEach((value, name) => {
+      if (!declaration.defaults.has(name)) declaration.defaults.set(name, value);
+    });
+  });
+
+  return { declarations, exports };
+}
+
+async function buildSourceComponent(
+  loader: ModuleLoader,
+  moduleInfo: ModuleInfo,
+  declaration: ComponentDeclaration,
+  exportName: string,
+  framework: SourceFramework
+): Promise<SourceComponent> {
+  const collected = await collectProps(loader, moduleInfo, declaration.propsType);
+
+  const props = Array.from(collected.props.values()).map(prop => {
+    const defaultValue = declaration.defaults.get(prop.name) ?? prop.defaultValue;
+    // A prop with a default can be left out, whatever its type says
+    return { ...prop, required: prop.required && defaultValue === undefined, defaultValue };
+  });
+
+  // Defaults for props the type did not declare, e.g. untyped JSX components
+  declaration.defaults.forEach((defaultValue, name) => {
+    if (!collected.props.has(name)) {
+      props.push({ name, type: 'unknown', required: false, description: '', defaultValue });
+    }
+  });
+
+  return {
+    name: exportName === 'default' || exportName === declaration.localName ? declaration.localName : exportName,
+    exportName,
+    framework,
+    description: getJsDocDescription(declaration.node),
+    props,
+    examples: getJsDocExamples(declaration.node),
+    extends: collected.extends,
+    deprecated: getJsDocTag(declaration.node, 'deprecated')
+  };
+}
+
+async function parseReactFile(loader: ModuleLoader, moduleInfo: ModuleInfo): Promise<SourceComponent[]> {
+  const { declarations, exports } = findReactComponents(moduleInfo, moduleInfo.sourceFile.isDeclarationFile);
+  const byLocalName = new Map(declarations.map(declaration => [declaration.localName, declaration]));
+
+  const components: SourceComponent[] = [];
+  const seen = new Set<string>();
+  for (const [exportName, localName] of exports) {
+    const declaration = byLocalName.get(localName);
+    if (!declaration || seen.has(localName)) continue;
+    seen.add(localName);
+    components.push(await buildSourceComponent(loader, moduleInfo, declaration, exportName, 'react'));
+  }
+  return components;
+}
+
+/**
+ * Props declared with Vue's runtime syntax: `{ size: String }`,
+ * `{ size: { type: String as PropType<'sm' | 'md'>, default: 'md' } }` or
+ * an array of names
+ */
+async function collectVueRuntimeProps(
+  loader: ModuleLoader,
+  moduleInfo: ModuleInfo,
+  node: ts.Expression
+): Promise<ComponentProp[]> {
+  const { sourceFile } = moduleInfo;
+
+  if (ts.isArrayLiteralExpression(node)) {
+    return node.elements
+      .filter(ts.isStringLiteral)
+      .map(element => ({ name: element.text, type: 'unknown', required: false, description: '' }));
+  }
+  if (!ts.isObjectLiteralExpression(node)) return [];
+
+  const runtimeType = async (expression: ts.Expression): Promise<string> => {
+    if (ts.isAsExpression(expression)) {
+      const asType = expression.type;
+      if (ts.isTypeReferenceNode(asType) && typeReferenceName(asType.typeName) === 'PropType' && asType.typeArguments?.[0]) {
+        return formatType(loader, moduleInfo, asType.typeArguments[0]);
+      }
+      return runtimeType(expression.expression);
+    }
+    if (ts.isArrayLiteralExpression(expression)) {
+      const parts = await Promise.all(expression.elements.map(runtimeType));
+      return parts.join(' | ');
+    }
+    const text = expression.getText(sourceFile);
+    return VUE_RUNTIME_TYPES[text] ?? text;
+  };
+
+  const props: ComponentProp[] = [];
+  for (const property of node.properties) {
+    if (!ts.isPropertyAssignment(property)) continue;
+    const name = getPropertyName(property.name);
+    if (!name) continue;
+
+    const prop: ComponentProp = {
+      name,
+      type: 'unknown',
+      required: false,
+      description: getJsDocDescription(property)
+    };
+
+    if (ts.isObjectLiteralExpression(property.initializer)) {
+      for (const option of property.initializer.properties) {
+        if (!ts.isPropertyAssignment(option)) continue;
+        const optionName = getPropertyName(option.name);
+        if (optionName === 'type') prop.type = await runtimeType(option.initializer);
+        if (optionName === 'required') prop.required = option.initializer.kind === ts.SyntaxKind.TrueKeyword;
+        if (optionName === 'default') prop.defaultValue = defaultValueText(option.initializer, sourceFile);
+      }
+    } else {
+      prop.type = await runtimeType(property.initializer);
+    }
+
+    prop.defaultValue = prop.defaultValue ?? (getJsDocTag(property, 'default', 'defaultValue') || undefined);
+    props.push(prop);
+  }
+  return props;
+}
+
+function calleeName(node: ts.CallExpression): string {
+  return ts.isIdentifier(node.expression) ? node.expression.text : '';
+}
+
+/**
+ * Read a Vue single-file component: `defineProps` (typed or runtime, with
+ * `withDefaults`) in `<script setup>`, or the `props` option of the default
+ * export in a plain `<script>`
+ */
+async function parseVueFile(loader: ModuleLoader, filePath: string, contents: string): Promise<SourceComponent[]> {
+  const scripts = Array.from(contents.matchAll(/<script\b([^>]*)>([\s\S]*?)<\/script>/gi));
+  if (scripts.length === 0) return [];
+
+  // Both blocks of a component are parsed together; setup bindings never clash with the options object
+  const isTypeScript = scripts.some(([, attributes]) => /\blang=["']tsx?["']/.test(attributes));
+  const scriptPath = `${filePath}.${isTypeScript ? 'ts' : 'js'}`;
+  const moduleInfo = await loader.load(scriptPath, scripts.map(([, , body]) => body).join('\n'));
+  if (!moduleInfo) return [];
+
+  const { sourceFile } = moduleInfo;
+  let name = componentNameFromFile(filePath);
+  let description = '';
+  let docNode: ts.Node | undefined;
+  let props: ComponentProp[] = [];
+  let extendsTypes: string[] = [];
+  const defaults = new Map<string, string>();
+
+  const readOptions = async (options: ts.ObjectLiteralExpression) => {
+    for (const property of options.properties) {
+      if (!ts.isPropertyAssignment(property)) continue;
+      const optionName = getPropertyName(property.name);
+      if (optionName === 'name' && ts.isStringLiteral(property.initializer)) name = property.initializer.text;
+      if (optionName === 'props') props = await collectVueRuntimeProps(loader, moduleInfo, property.initializer);
+    }
+  };
+
+  const visit = async (node: ts.Node): Promise<void> => {
+    if (ts.isCallExpression(node)) {
+      const callee = calleeName(node);
+      if (callee === 'withDefaults' && node.arguments[1]) {
+        readObjectDefaults(node.arguments[1], sourceFile).forEach((value, key) => defaults.set(key, value));
+      }
+      if (callee === 'defineProps') {
+        docNode = docNode ?? node.parent;
+        if (node.typeArguments?.[0]) {
+          const collected = await collectProps(loader, moduleInfo, node.typeArguments[0]);
+          props = Array.from(collected.props.values());
+          extendsTypes = collected.extends;
+        } else if (node.arguments[0]) {
+          props = await collectVueRuntimeProps(loader, moduleInfo, node.arguments[0]);
+        }
+        return;
+      }
+      if (callee === 'defineOptions' && node.arguments[0] && ts.isObjectLiteralExpression(node.arguments[0])) {
+        await readOptions(node.arguments[0]);
+      }
+    }
+    for (const child of node.getChildren(sourceFile)) await visit(child);
+  };
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isExportAssignment(statement)) {
+      docNode = statement;
+      const expression = ts.isCallExpression(statement.expression) && calleeName(statement.expression) === 'defineComponent'
+        ? statement.expression.arguments[0]
+        : statement.expression;
+      if (expression && ts.isObjectLiteralExpression(expression)) await readOptions(expression);
+    } else {
+      await visit(statement);
+    }
+  }
+
+  if (docNode) {
+    description = getJsDocDescription(docNode);
+  }
+  // A leading block comment often documents script-setup components
+  if (!description) {
+    const leading = ts.getLeadingCommentRanges(sourceFile.text, 0)?.[0];
+    const comment = leading && sourceFile.text.slice(leading.pos, leading.end);
+    if (comment?.startsWith('/**')) {
+      description = normalizeText(comment.replace(/^\/\*\*|\*\/$/g, '').replace(/^\s*\* ?/gm, '').split(/\n\s*@/)[0]);
+    }
+  }
+
+  return [{
+    name,
+    exportName: 'default',
+    framework: 'vue',
+    description,
+    props: props.map(prop => {
+      const defaultValue = defaults.get(prop.name) ?? prop.defaultValue;
+      return { ...prop, required: prop.required && defaultValue === undefined, defaultValue };
+    }),
+    examples: docNode ? getJsDocExamples(docNode) : [],
+    extends: extendsTypes,
+    deprecated: docNode ? getJsDocTag(docNode, 'deprecated') : undefined
+  }];
+}
+
+/**
+ * `file:` URL of a file of the checkout
+ */
+export function getSourceFileUrl(rootDir: string, relativePath: string): string {
+  return pathToFileURL(path.join(rootDir, relativePath)).toString();
+}
+
+/**
+ * Parse the exported components of one component file of the checkout,
+ * given relative to it
+ */
+export async function parseComponentFile(loader: ModuleLoader, relativePath: string): Promise<SourceComponent[]> {
+  const filePath = path.join(loader.rootDir, relativePath);
+  const stats = await fs.stat(filePath);
+  if (stats.size > MAX_FILE_BYTES) return [];
+
+  if (filePath.endsWith('.vue')) {
+    return parseVueFile(loader, filePath, await fs.readFile(filePath, 'utf8'));
+  }
+
+  const moduleInfo = await loader.load(filePath);
+  return moduleInfo ? parseReactFile(loader, moduleInfo) : [];
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/**
+ * Build the extracted page for one component file: a Component record per
+ * exported component and a code sample per JSDoc example
+ */
+export function buildSourceRepoPage(rootDir: string, relativePath: string, components: SourceComponent[]): ExtractedPageContent {
+  const url = getSourceFileUrl(rootDir, relativePath);
+  const language = relativePath.endsWith('.vue') ? 'vue' : relativePath.match(/\.(\w+)$/)?.[1];
+
+  const codeSamples: CodeSample[] = components.flatMap(component => component.examples.map(example => ({
+    id: getCodeSampleId(example),
+    code: example,
+    language,
+    context: `${component.name} example`,
+    sourceElement: 'jsdoc'
+  })));
+
+  const records: Component[] = components.map(component => ({
+    id: `component-source-${slugify(relativePath)}-${slugify(component.name)}`,
+    sourceId: pathToFileURL(rootDir).toString(),
+    name: component.name,
+    description: component.description,
+    props: component.props,
+    codeSnippets: component.examples.map(example => ({ description: `${component.name} example`, code: example })),
+    relationships: [],
+    metadata: {
+      sourceUrl: url,
+      filePath: relativePath,
+      exportName: component.exportName,
+      framework: component.framework,
+      extractedWith: 'source',
+      ...(component.extends.length > 0 ? { extends: component.extends.join(', ') } : {}),
+      ...(component.deprecated !== undefined ? { deprecated: component.deprecated || true } : {})
+    }
+  }));
+
+  const description = components.map(component => component.description).filter(Boolean).join(' ');
+
+  return {
+    id: `page-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    url,
+    textContent: components
+      .flatMap(component => [
+        component.name,
+        component.description,
+        ...component.props.map(prop => `${prop.name}: ${prop.type}${prop.description ? ` - ${prop.description}` : ''}`)
+      ])
+      .filter(Boolean)
+      .join('\n'),
+    semanticContent: {
+      headings: components.map(component => ({ level: 1, text: component.name })),
+      paragraphs: components.map(component => component.description).filter(Boolean),
+      lists: components
+        .filter(component => component.props.length > 0)
+        .map(component => ({ type: 'ul' as const, items: component.props.map(prop => `${prop.name}: ${prop.type}`) })),
+      altTexts: [],
+      ariaLabels: [],
+      landmarks: []
+    },
+    metadata: {
+      title: relativePath,
+      ...(description ? { description } : {})
+    },
+    codeSamples,
+    timestamp: new Date().toISOString(),
+    depth: 0,
+    components: records
+  };
+}
@@ -0,0 +1,231 @@
+/**
+ * SPA Crawling
+ *
+ * Support for documentation sites that route on the client. Routes are found
+ * from hash links, link-like click handlers and History API calls, visited by
+ * navigating inside the already loaded app where it re-renders, and treated
+ * as loaded once the DOM stops changing rather than when the network is idle.
+ */
+
+import type { Page } from 'puppeteer';
+
+// How long the DOM must stay unchanged before a route counts as rendered
+const SETTLE_QUIET_MS = 500;
+// Upper bound on script-driven links clicked per page during discovery
+const MAX_ROUTE_CLICKS = 30;
+// Time given to a click handler to change the route
+const CLICK_ROUTE_DELAY_MS = 150;
+
+// Elements that navigate through script instead of a usable href
+const CLICKABLE_ROUTE_SELECTOR = [
+  '[role="link"]',
+  '[data-href]',
+  '[data-to]',
+  '[data-route]',
+  '[routerlink]',
+  'a:not([href])',
+  'a[href="#"]',
+  'a[href^="javascript:"]'
+].join(', ');
+
+// Attributes client-side routers commonly keep the target route in
+const ROUTE_ATTRIBUTES = ['data-href', 'data-to', 'data-route', 'routerlink'];
+
+type RouteRecorderWindow = Window & { __dsaRoutes?: string[] };
+
+/**
+ * Hash fragments that hold a client-side route (`#/docs`, `#!/docs`) rather
+ * than an in-page anchor
+ */
+export function isHashRoute(hash: string): boolean {
+  return /^#!?\//.test(hash);
+}
+
+/**
+ * Resolve a discovered href to a crawlable route on the site's origin,
+ * keeping hash routes and dropping in-page anchors
+ */
+export function toRouteUrl(href: string, baseUrl: string): string | null {
+  try {
+    const resolved = new URL(href, baseUrl);
+    if (resolved.origin !== new URL(baseUrl).origin) return null;
+    if (!isHashRoute(resolved.hash)) resolved.hash = '';
+    return resolved.toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record every route the app moves to (pushState, replaceState, hash and
+ * popstate changes) so discovery can pick up routes that never appear in
+ * an href. Must run before the page's first navigation.
+ */
+export async function installRouteRecorder(page: Page): Promise<void> {
+  await page.evaluateOnNewDocument(() => {
+    const routes: string[] = [];
+    const record = () => {
+      routes.push(location.href);
+    };
+    (window as RouteRecorderWindow).__dsaRoutes = routes;
+
+    const originalPushState = history.pushState;
+    const originalReplaceState = history.replaceState;
+    history.pushState = function (data, unused, url) {
+      originalPushState.call(this, data, unused, url);
+      record();
+    };
+    history.replaceState = function (data, unused, url) {
+      originalReplaceState.call(this, data, unused, url);
+      record();
+    };
+
+    window.addEventListener('hashchange', record);
+    window.addEventListener('popstate', record);
+  });
+}
+
+/**
+ * Wait until no DOM mutation has happened for a short quiet period, or
+ * until the timeout
+ */
+export async function waitForDomSettled(page: Page, timeoutMs: number): Promise<void> {
+  await page.evaluate((quietMs, timeout) => new Promise<void>(resolve => {
+    let quietTimer: ReturnType<typeof setTimeout>;
+    const finish = () => {
+      observer.disconnect();
+      clearTimeout(quietTimer);
+      clearTimeout(deadline);
+      resolve();
+    };
+    const observer = new MutationObserver(() => {
+      clearTimeout(quietTimer);
+      quietTimer = setTimeout(finish, quietMs);
+    });
+
+    observer.observe(document.documentElement, { childList: true, subtree: true, characterData: true });
+    quietTimer = setTimeout(finish, quietMs);
+    const deadline = setTimeout(finish, timeout);
+  }), SETTLE_QUIET_MS, timeoutMs);
+}
+
+/**
+ * Move the already loaded app to `url` without reloading it: a hash change
+ * for hash routes, otherwise pushState followed by the popstate event that
+ * routers listen to. Waits for the DOM to settle and returns whether the
+ * rendered text changed; when it did not, the caller should load the URL
+ * normally instead.
+ */
+export async function navigateInApp(page: Page, url: string, timeoutMs: number): Promise<boolean> {
+  const current = page.url();
+  if (current === url || !/^https?:/.test(current) || new URL(current).origin !== new URL(url).origin) {
+    return false;
+  }
+
+  try {
+    return await page.evaluate((target, quietMs, timeout) => new Promise<boolean>(resolve => {
+      // Only pages set up by the route recorder are known to be the crawled app
+      if (!(window as RouteRecorderWindow).__dsaRoutes) {
+        resolve(false);
+        return;
+      }
+
+      const textBefore = document.body?.innerText ?? '';
+      let quietTimer: ReturnType<typeof setTimeout>;
+      const finish = () => {
+        observer.disconnect();
+        clearTimeout(quietTimer);
+        clearTimeout(deadline);
+        resolve((document.body?.innerText ?? '') !== textBefore);
+      };
+      const observer = new MutationObserver(() => {
+        clearTimeout(quietTimer);
+        quietTimer = setTimeout(finish, quietMs);
+      });
+
+      observer.observe(document.documentElement, { childList: true, subtree: true, characterData: true });
+      quietTimer = setTimeout(finish, quietMs);
+      const deadline = setTimeout(finish, timeout);
+
+      const next = new URL(target);
+      if (next.pathname === location.pathname && next.search === location.search) {
+        location.hash = next.hash;
+      } else {
+        history.pushState(null, '', target);
+        window.dispatchEvent(new PopStateEvent('popstate', { state: null }));
+      }
+    }), url, SETTLE_QUIET_MS, timeoutMs);
+  } catch {
+    // The app reloaded the document itself; let the caller navigate
+    return false;
+  }
+}
+
+/**
+ * Find routes that are only reachable through script: router attributes,
+ * routes the app recorded through the History API, and the routes that
+ * clicking link-like elements without an href moves to. Clicking changes the
+ * app's state, so this must run after the page's content was extracted.
+ */
+export async function discoverSpaRoutes(page: Page, baseUrl: string): Promise<string[]> {
+  const found = await page.evaluate((attributes) => {
+    const values: string[] = [];
+    attributes.forEach(attribute => {
+      document.querySelectorAll(`[${attribute}]`).forEach(el => {
+        const value = el.getAttribute(attribute);
+        if (value) values.push(value);
+      });
+    });
+    return values;
+  }, ROUTE_ATTRIBUTES);
+
+  const candidateCount = await page.evaluate(
+    (selector) => document.querySelectorAll(selector).length,
+    CLICKABLE_ROUTE_SELECTOR
+  );
+
+  for (let index = 0; index < Math.min(candidateCount, MAX_ROUTE_CLICKS); index++) {
+    try {
+      const route = await page.evaluate((selector, candidateIndex, delayMs) => new Promise<string | null>(resolve => {
+        const element = document.querySelectorAll(selector)[candidateIndex];
+        if (!(element instanceof HTMLElement)) {
+          resolve(null);
+          return;
+        }
+
+        const before = location.href;
+        element.click();
+
+        setTimeout(() => {
+          const after = location.href;
+          if (after === before) {
+            resolve(null);
+            return;
+          }
+          // Return to the starting route so the remaining candidates stay in place
+          history.back();
+          setTimeout(() => resolve(after), delayMs);
+        }, delayMs);
+      }), CLICKABLE_ROUTE_SELECTOR, index, CLICK_ROUTE_DELAY_MS);
+
+      if (route) found.push(route);
+    } catch {
+      // The click loaded a new document; keep its URL and stop clicking
+      found.push(page.url());
+      break;
+    }
+  }
+
+  try {
+    const recorded = await page.evaluate(() => [...((window as RouteRecorderWindow).__dsaRoutes ?? [])]);
+    found.push(...recorded);
+  } catch {
+    // Recorder state is gone with the document
+  }
+
+  return [...new Set(
+    found
+      .map(href => toRouteUrl(href, baseUrl))
+      .filter((route): route is string => route !== null)
+  )];
+}
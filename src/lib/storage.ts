@@ -0,0 +1,90 @@
+/**
+ * Server-side Storage
+ *
+ * JSON files under a local data directory (`.crawl-data` in the project root
+ * unless CRAWL_DATA_DIR is set). Writes go through a temporary file and a
+ * rename so a crash never leaves a half-written file behind.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export const DATA_DIR = process.env.CRAWL_DATA_DIR || path.join(process.cwd(), '.crawl-data');
+
+/**
+ * Resolve a path inside the data directory, refusing anything that would
+ * escape it
+ */
+export function resolveDataPath(...segments: string[]): string {
+  const resolved = path.resolve(DATA_DIR, ...segments);
+  if (resolved !== DATA_DIR && !resolved.startsWith(DATA_DIR + path.sep)) {
+    throw new Error(`Path escapes data directory: ${segments.join('/')}`);
+  }
+  return resolved;
+}
+
+export async function readJsonFile<T>(...segments: string[]): Promise<T | null> {
+  try {
+    const content = await fs.readFile(resolveDataPath(...segments), 'utf8');
+    return JSON.parse(content) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function writeJsonFile(data: unknown, ...segments: string[]): Promise<void> {
+  const filePath = resolveDataPath(...segments);
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(tempPath, JSON.stringify(data), 'utf8');
+  await fs.rename(tempPath, filePath);
+}
+
+export async function readDataFile(...segments: string[]): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(resolveDataPath(...segments));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function writeDataFile(data: Uint8Array, ...segments: string[]): Promise<void> {
+  const filePath = resolveDataPath(...segments);
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(tempPath, data);
+  await fs.rename(tempPath, filePath);
+}
+
+/**
+ * Append to a data file, creating it if needed. Unlike the writes above this
+ * is not atomic; it suits logs that are only ever added to.
+ */
+export async function appendDataFile(data: Uint8Array | string, ...segments: string[]): Promise<void> {
+  const filePath = resolveDataPath(...segments);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.appendFile(filePath, data);
+}
+
+export async function deleteDataFile(...segments: string[]): Promise<void> {
+  await fs.rm(resolveDataPath(...segments), { force: true });
+}
+
+export async function listDataFiles(...segments: string[]): Promise<string[]> {
+  try {
+    return await fs.readdir(resolveDataPath(...segments));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
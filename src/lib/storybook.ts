@@ -0,0 +1,399 @@
+/**
+ * Storybook Adapter
+ *
+ * Reads a Storybook's story index (`index.json` in Storybook 7+, `stories.json`
+ * in Storybook 6) to enumerate components and stories, then loads the stories
+ * through the preview iframe's story store to read their argTypes and source.
+ * This gets far more out of a Storybook than scraping its manager UI.
+ */
+
+import type { HTTPResponse, Page } from 'puppeteer';
+import { CodeSample, Component, ComponentProp, ExtractedPageContent } from '../types/types';
+import { getCodeSampleId } from './codeSamples';
+
+export interface StorybookEntry {
+  id: string;
+  title: string;
+  name: string;
+  type: 'story' | 'docs';
+  importPath?: string;
+}
+
+export interface StorybookIndex {
+  baseUrl: string; // Directory the Storybook is served from, with a trailing slash
+  indexUrl: string;
+  entries: StorybookEntry[];
+}
+
+export interface StorybookArgType {
+  name?: string;
+  description?: string;
+  type?: string | { name?: string; value?: unknown; required?: boolean };
+  table?: {
+    type?: { summary?: string };
+    defaultValue?: { summary?: string };
+    disable?: boolean;
+  };
+  defaultValue?: unknown;
+  control?: string | false | { type?: string } | null;
+}
+
+export interface StoryDetails {
+  id: string;
+  name: string;
+  argTypes: Record<string, StorybookArgType>;
+  source?: string;
+  componentDescription?: string;
+  error?: string;
+}
+
+interface IndexFetchOptions {
+  userAgent: string;
+  timeoutMs: number;
+  headers?: Record<string, string>;
+}
+
+// Shapes of the preview globals read inside the Storybook iframe
+interface PreviewStory {
+  id: string;
+  name: string;
+  component?: unknown;
+  argTypes?: Record<string, StorybookArgType & { mapping?: unknown }>;
+  parameters?: {
+    docs?: {
+      source?: { code?: string; originalSource?: string };
+      description?: { component?: string };
+      extractComponentDescription?: (component: unknown, parameters: unknown) => string | null;
+    };
+    storySource?: { source?: string };
+    componentSubtitle?: string;
+  };
+}
+
+interface PreviewStoryStore {
+  loadStory?: (options: { storyId: string }) => Promise<PreviewStory>;
+  fromId?: (storyId: string) => PreviewStory | undefined;
+}
+
+interface StorybookWindow {
+  __STORYBOOK_PREVIEW__?: { storyStoreValue?: PreviewStoryStore; storyStore?: PreviewStoryStore };
+  __STORYBOOK_STORY_STORE__?: PreviewStoryStore;
+}
+
+const INDEX_FILES = ['index.json', 'stories.json'];
+
+/**
+ * Directories a Storybook at the given URL could be served from, most
+ * specific first. Manager URLs (`?path=/story/...`) and iframe URLs both map
+ * to the directory containing them.
+ */
+export function getStorybookBaseUrls(url: string): string[] {
+  const parsed = new URL(url);
+  const directory = parsed.pathname.endsWith('/')
+    ? parsed.pathname
+    : /\.[a-z0-9]+$/i.test(parsed.pathname)
+      ? parsed.pathname.replace(/[^/]+$/, '')
+      : `${parsed.pathname}/`;
+
+  return [...new Set([directory, '/'])].map(path => `${parsed.origin}${path}`);
+}
+
+/**
+ * Normalize the entries of an `index.json` (v4/v5) or `stories.json` (v3)
+ * document. Returns null when the document is not a story index.
+ */
+export function parseStorybookIndex(data: unknown): StorybookEntry[] | null {
+  if (!data || typeof data !== 'object') return null;
+
+  const document = data as { entries?: unknown; stories?: unknown };
+  const rawEntries = document.entries ?? document.stories;
+  if (!rawEntries || typeof rawEntries !== 'object') return null;
+
+  const entries: StorybookEntry[] = [];
+
+  for (const value of Object.values(rawEntries as Record<string, unknown>)) {
+    if (!value || typeof value !== 'object') continue;
+
+    const entry = value as Record<string, unknown>;
+    // Storybook 6 calls the title `kind` and the name `story`
+    const title = entry.title ?? entry.kind;
+    const name = entry.name ?? entry.story;
+    if (typeof entry.id !== 'string' || typeof title !== 'string' || typeof name !== 'string') continue;
+
+    entries.push({
+      id: entry.id,
+      title,
+      name,
+      type: entry.type === 'docs' ? 'docs' : 'story',
+      importPath: typeof entry.importPath === 'string' ? entry.importPath : undefined
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Look for a story index next to the given URL. Returns null when the site is
+ * not a Storybook.
+ */
+export async function fetchStorybookIndex(url: string, options: IndexFetchOptions): Promise<StorybookIndex | null> {
+  for (const baseUrl of getStorybookBaseUrls(url)) {
+    for (const file of INDEX_FILES) {
+      const indexUrl = new URL(file, baseUrl).toString();
+
+      try {
+        const response = await fetch(indexUrl, {
+          headers: { ...options.headers, 'User-Agent': options.userAgent, Accept: 'application/json' },
+          signal: AbortSignal.timeout(options.timeoutMs)
+        });
+        if (!response.ok) continue;
+
+        const entries = parseStorybookIndex(await response.json());
+        if (entries && entries.length > 0) {
+          return { baseUrl, indexUrl, entries };
+        }
+      } catch {
+        // Not JSON or not reachable; try the next candidate
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Group story entries by component title, keeping index order
+ */
+export function groupStoriesByComponent(entries: StorybookEntry[]): Map<string, StorybookEntry[]> {
+  const groups = new Map<string, StorybookEntry[]>();
+
+  entries
+    .filter(entry => entry.type === 'story')
+    .forEach(entry => {
+      const group = groups.get(entry.title) || [];
+      group.push(entry);
+      groups.set(entry.title, group);
+    });
+
+  return groups;
+}
+
+export function getStoryUrl(baseUrl: string, storyId: string): string {
+  return `${baseUrl}?path=/story/${storyId}`;
+}
+
+export function getStoryIframeUrl(baseUrl: string, storyId: string): string {
+  return `${baseUrl}iframe.html?id=${encodeURIComponent(storyId)}&viewMode=story`;
+}
+
+function formatValue(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return undefined;
+  }
+}
+
+function describeArgType(argType: StorybookArgType): string {
+  if (argType.table?.type?.summary) return argType.table.type.summary;
+  if (typeof argType.type === 'string') return argType.type;
+
+  const { name, value } = argType.type || {};
+  if (name === 'enum' && Array.isArray(value)) {
+    return value.map(option => formatValue(option)).filter(Boolean).join(' | ');
+  }
+  return name || 'unknown';
+}
+
+/**
+ * Map a Storybook argType onto a component prop
+ */
+export function argTypeToProp(name: string, argType: StorybookArgType): ComponentProp {
+  const control = typeof argType.control === 'string'
+    ? argType.control
+    : argType.control ? argType.control.type : undefined;
+
+  return {
+    name: argType.name || name,
+    type: describeArgType(argType),
+    required: typeof argType.type === 'object' && argType.type?.required === true,
+    description: argType.description || '',
+    defaultValue: argType.table?.defaultValue?.summary ?? formatValue(argType.defaultValue),
+    control
+  };
+}
+
+/**
+ * Load stories through the preview iframe's story store. The iframe of the
+ * first story is opened once; the rest of the component's stories come from
+ * the same store. `onNavigated` can inspect the iframe response, e.g. to
+ * detect a login wall.
+ */
+export async function loadStoryDetails(
+  page: Page,
+  baseUrl: string,
+  storyIds: string[],
+  timeoutMs: number,
+  onNavigated?: (response: HTTPResponse | null) => Promise<void>
+): Promise<StoryDetails[]> {
+  if (storyIds.length === 0) return [];
+
+  const response = await page.goto(getStoryIframeUrl(baseUrl, storyIds[0]), { waitUntil: 'domcontentloaded', timeout: timeoutMs });
+  await onNavigated?.(response);
+  await page.waitForFunction(() => {
+    const storybook = window as unknown as StorybookWindow;
+    const preview = storybook.__STORYBOOK_PREVIEW__;
+    return Boolean(preview?.storyStoreValue || preview?.storyStore || storybook.__STORYBOOK_STORY_STORE__);
+  }, { timeout: timeoutMs });
+
+  return page.evaluate(async (ids: string[]) => {
+    const storybook = window as unknown as StorybookWindow;
+    const preview = storybook.__STORYBOOK_PREVIEW__;
+    const store = preview?.storyStoreValue || preview?.storyStore || storybook.__STORYBOOK_STORY_STORE__;
+
+    const loadStory = async (storyId: string): Promise<PreviewStory | undefined> => {
+      if (store?.loadStory) return store.loadStory({ storyId });
+      return store?.fromId?.(storyId);
+    };
+
+    // argTypes can hold functions and React elements; keep only plain data
+    const plain = (value: unknown): unknown => {
+      try {
+        return JSON.parse(JSON.stringify(value, (_key, item) => typeof item === 'function' ? undefined : item));
+      } catch {
+        return undefined;
+      }
+    };
+
+    const results: StoryDetails[] = [];
+
+    for (const id of ids) {
+      try {
+        const story = await loadStory(id);
+        if (!story) {
+          results.push({ id, name: id, argTypes: {}, error: 'Story not found in the story store' });
+          continue;
+        }
+
+        const argTypes: Record<string, StorybookArgType> = {};
+        Object.entries(story.argTypes || {}).forEach(([name, argType]) => {
+          argTypes[name] = {
+            name: argType.name,
+            description: argType.description,
+            type: plain(argType.type) as StorybookArgType['type'],
+            table: plain(argType.table) as StorybookArgType['table'],
+            defaultValue: plain(argType.defaultValue),
+            control: plain(argType.control) as StorybookArgType['control']
+          };
+        });
+
+        const docs = story.parameters?.docs;
+        let componentDescription = docs?.description?.component || story.parameters?.componentSubtitle;
+        if (!componentDescription && docs?.extractComponentDescription && story.component) {
+          try {
+            componentDescription = docs.extractComponentDescription(story.component, story.parameters) || undefined;
+          } catch {
+            // Docgen information is optional
+          }
+        }
+
+        results.push({
+          id,
+          name: story.name,
+          argTypes,
+          source: docs?.source?.code || docs?.source?.originalSource || story.parameters?.storySource?.source,
+          componentDescription
+        });
+      } catch (error) {
+        results.push({ id, name: id, argTypes: {}, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return results;
+  }, storyIds);
+}
+
+function languageFromImportPath(importPath?: string): string | undefined {
+  const extension = importPath?.match(/\.(\w+)$/)?.[1];
+  return extension === 'mdx' ? 'markdown' : extension;
+}
+
+/**
+ * Build the extracted page for one Storybook component: one code sample per
+ * story source and a Component record holding the props from argTypes
+ */
+export function buildStorybookPage(
+  index: StorybookIndex,
+  title: string,
+  entries: StorybookEntry[],
+  stories: StoryDetails[]
+): ExtractedPageContent {
+  const url = getStoryUrl(index.baseUrl, entries[0].id);
+  const name = title.split('/').pop()!.trim();
+  const description = stories.find(story => story.componentDescription)?.componentDescription || '';
+  const language = languageFromImportPath(entries[0].importPath);
+
+  // Stories usually share argTypes; the first definition of a prop wins
+  const props = new Map<string, ComponentProp>();
+  stories.forEach(story => {
+    Object.entries(story.argTypes)
+      .filter(([, argType]) => !argType.table?.disable)
+      .forEach(([argName, argType]) => {
+        if (!props.has(argName)) props.set(argName, argTypeToProp(argName, argType));
+      });
+  });
+
+  const storiesWithSource = stories.filter(story => story.source);
+  const codeSamples: CodeSample[] = storiesWithSource.map(story => ({
+    id: getCodeSampleId(story.source!),
+    code: story.source!,
+    language,
+    context: `${title} / ${story.name}`,
+    sourceElement: 'storybook'
+  }));
+
+  const component: Component = {
+    id: `component-storybook-${title.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+    sourceId: url,
+    name,
+    description,
+    props: Array.from(props.values()),
+    codeSnippets: storiesWithSource.map(story => ({ description: story.name, code: story.source! })),
+    relationships: [],
+    metadata: {
+      sourceUrl: url,
+      storybookTitle: title,
+      storyCount: entries.length,
+      extractedWith: 'storybook',
+      ...(entries[0].importPath ? { importPath: entries[0].importPath } : {})
+    }
+  };
+
+  const errors = stories.filter(story => story.error).map(story => `${story.id}: ${story.error}`);
+
+  return {
+    id: `page-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    url,
+    textContent: [name, description, ...stories.map(story => story.name)].filter(Boolean).join('\n'),
+    semanticContent: {
+      headings: [
+        { level: 1, text: name },
+        ...stories.map(story => ({ level: 2, text: story.name, id: story.id }))
+      ],
+      paragraphs: description ? [description] : [],
+      lists: [],
+      altTexts: [],
+      ariaLabels: [],
+      landmarks: []
+    },
+    metadata: { title, description: description || undefined },
+    codeSamples,
+    timestamp: new Date().toISOString(),
+    components: [component],
+    ...(errors.length > 0 ? { errors } : {})
+  };
+}
@@ -0,0 +1,221 @@
+/**
+ * URL Rules
+ *
+ * Include/exclude rule sets that decide which discovered links are crawled.
+ * Rules are matched against the path and query of a URL (e.g.
+ * `/docs/button` or `/?path=/story/button--primary`), never the origin.
+ *
+ * - glob: `*` matches within a path segment, `**` matches across segments,
+ *   every other character (including `?`) is literal
+ * - regex: a JavaScript regular expression source of at most 256 characters,
+ *   without repeated groups that repeat themselves (`(a+)+`)
+ */
+
+import { UrlRule, UrlRuleKind, UrlRuleSet } from '../types/types';
+
+export interface UrlRuleDecision {
+  allowed: boolean;
+  reason?: string;
+}
+
+export const EMPTY_URL_RULES: UrlRuleSet = { include: [], exclude: [] };
+
+const RULE_KINDS: UrlRuleKind[] = ['glob', 'regex'];
+const REGEX_PREFIX = 're:';
+const MAX_REGEX_LENGTH = 256;
+
+/**
+ * Convert a glob pattern to an anchored regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        source += '.*';
+        i++;
+      } else {
+        source += '[^/]*';
+      }
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Whether a regular expression repeats a group that itself contains a
+ * repetition (`(a+)+`, `(?:\/\w*)*`, `(x+y){2,}`). Such patterns can
+ * backtrack exponentially on URLs that almost match.
+ */
+function hasNestedQuantifier(source: string): boolean {
+  const groups: boolean[] = []; // Whether each open group repeats something
+  let closedRepeatingGroup = false;
+  let inClass = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (char === '\\') {
+      i++;
+      closedRepeatingGroup = false;
+      continue;
+    }
+    if (inClass) {
+      if (char === ']') inClass = false;
+      continue;
+    }
+
+    const bounds = char === '{' ? /^\{(\d+)(,(\d*))?\}/.exec(source.slice(i)) : null;
+    const repeats = char === '*' || char === '+'
+      || (bounds !== null && (bounds[2] === undefined ? Number(bounds[1]) > 1 : bounds[3] === '' || Number(bounds[3]) > 1));
+
+    if (repeats) {
+      if (closedRepeatingGroup) return true;
+      if (groups.length > 0) groups[groups.length - 1] = true;
+    }
+
+    closedRepeatingGroup = false;
+    if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      closedRepeatingGroup = groups.pop() ?? false;
+      if (closedRepeatingGroup && groups.length > 0) groups[groups.length - 1] = true;
+    } else if (bounds) {
+      i += bounds[0].length - 1;
+    }
+  }
+
+  return false;
+}
+
+function compileRule(rule: UrlRule): RegExp {
+  if (rule.kind !== 'regex') return globToRegExp(rule.pattern);
+
+  if (rule.pattern.length > MAX_REGEX_LENGTH) {
+    throw new Error(`patterns are limited to ${MAX_REGEX_LENGTH} characters`);
+  }
+  if (hasNestedQuantifier(rule.pattern)) {
+    throw new Error('a repeated group may not contain a repetition itself, e.g. (a+)+');
+  }
+  return new RegExp(rule.pattern);
+}
+
+function describeRule(rule: UrlRule): string {
+  return rule.kind === 'regex' ? `${REGEX_PREFIX}${rule.pattern}` : rule.pattern;
+}
+
+/**
+ * The part of a URL that rules are matched against
+ */
+export function getRuleTarget(url: string): string {
+  const parsed = new URL(url);
+  return `${parsed.pathname}${parsed.search}`;
+}
+
+/**
+ * Create a matcher for a rule set. Excludes always win; when include rules
+ * exist a URL must match at least one of them.
+ */
+export function createUrlRuleMatcher(rules: UrlRuleSet = EMPTY_URL_RULES): (url: string) => UrlRuleDecision {
+  const include = rules.include.map(rule => ({ rule, regex: compileRule(rule) }));
+  const exclude = rules.exclude.map(rule => ({ rule, regex: compileRule(rule) }));
+
+  return (url: string) => {
+    const target = getRuleTarget(url);
+
+    const excludedBy = exclude.find(({ regex }) => regex.test(target));
+    if (excludedBy) {
+      return { allowed: false, reason: `Excluded by ${describeRule(excludedBy.rule)}` };
+    }
+
+    if (include.length > 0 && !include.some(({ regex }) => regex.test(target))) {
+      return { allowed: false, reason: 'Matches no include rule' };
+    }
+
+    return { allowed: true };
+  };
+}
+
+/**
+ * Validate an untrusted rule set (e.g. from a request body)
+ */
+export function validateUrlRules(input: unknown): { rules: UrlRuleSet; errors: string[] } {
+  const errors: string[] = [];
+
+  if (input === undefined || input === null) {
+    return { rules: EMPTY_URL_RULES, errors };
+  }
+
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { rules: EMPTY_URL_RULES, errors: ['urlRules must be an object with include and exclude arrays'] };
+  }
+
+  const raw = input as Record<string, unknown>;
+
+  const readRules = (value: unknown, field: 'include' | 'exclude'): UrlRule[] => {
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) {
+      errors.push(`urlRules.${field} must be an array`);
+      return [];
+    }
+
+    return value.flatMap((item, index) => {
+      const rule = item as Partial<UrlRule> | null;
+      if (!rule || typeof rule.pattern !== 'string' || rule.pattern.trim().length === 0) {
+        errors.push(`urlRules.${field}[${index}].pattern must be a non-empty string`);
+        return [];
+      }
+      if (!rule.kind || !RULE_KINDS.includes(rule.kind)) {
+        errors.push(`urlRules.${field}[${index}].kind must be one of: ${RULE_KINDS.join(', ')}`);
+        return [];
+      }
+      try {
+        compileRule(rule as UrlRule);
+      } catch (error) {
+        errors.push(`urlRules.${field}[${index}] is not a valid ${rule.kind}: ${error instanceof Error ? error.message : String(error)}`);
+        return [];
+      }
+      return [{ pattern: rule.pattern, kind: rule.kind }];
+    });
+  };
+
+  return {
+    rules: {
+      include: readRules(raw.include, 'include'),
+      exclude: readRules(raw.exclude, 'exclude')
+    },
+    errors
+  };
+}
+
+/**
+ * Parse rules written one per line. Lines prefixed with `re:` are regular
+ * expressions, everything else is a glob. Blank lines are ignored.
+ */
+export function parseUrlRuleLines(text: string): UrlRule[] {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map(line => {
+      if (line.startsWith(REGEX_PREFIX)) {
+        return { pattern: line.slice(REGEX_PREFIX.length).trim(), kind: 'regex' as const };
+      }
+      return { pattern: line, kind: 'glob' as const };
+    });
+}
+
+/**
+ * Inverse of parseUrlRuleLines
+ */
+export function formatUrlRuleLines(rules: UrlRule[]): string {
+  return rules.map(describeRule).join('\n');
+}
@@ -0,0 +1,363 @@
+/**
+ * Web Archives
+ *
+ * Offline crawling from frozen snapshots. A live crawl can record every
+ * response its pages receive into a WARC file under the data directory; a
+ * later crawl can replay a recorded crawl, any WARC file, or a directory of
+ * saved HTML files (e.g. from `wget --mirror`). Replay serves the archive
+ * through Puppeteer request interception, so extraction runs exactly as it
+ * would live and nothing reaches the network.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { brotliDecompressSync, gunzipSync, inflateSync } from 'zlib';
+import type { HTTPResponse, Page } from 'puppeteer';
+import { isValidCrawlId } from './crawlCheckpoint';
+import { isAllowedLocalPath } from './sourceRepo';
+import { appendDataFile, resolveDataPath } from './storage';
+
+const ARCHIVE_DIR = 'archives';
+const MAX_WARC_BYTES = 500 * 1024 * 1024;
+const MAX_BODY_BYTES = 50 * 1024 * 1024; // Per decoded response body
+
+// Headers describing the wire encoding, which no longer apply to decoded bodies
+const WIRE_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding', 'connection', 'keep-alive']);
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.htm': 'text/html; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.js': 'application/javascript; charset=utf-8',
+  '.mjs': 'application/javascript; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.xml': 'application/xml; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf'
+};
+
+export interface ArchivedResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: Buffer;
+}
+
+/**
+ * Responses of a frozen snapshot, looked up by URL
+ */
+export interface PageArchive {
+  source: string;
+  lookup: (url: string) => Promise<ArchivedResponse | null>;
+}
+
+function archiveFile(crawlId: string): string {
+  if (!isValidCrawlId(crawlId)) {
+    throw new Error(`Invalid crawl id: ${crawlId}`);
+  }
+  return `${crawlId}.warc`;
+}
+
+/**
+ * Path of the WARC recorded by a crawl
+ */
+export function getRecordedArchivePath(crawlId: string): string {
+  return resolveDataPath(ARCHIVE_DIR, archiveFile(crawlId));
+}
+
+function archiveKey(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = '';
+  return parsed.toString();
+}
+
+function warcRecord(headers: Record<string, string>, block: Buffer): Buffer {
+  const head = [
+    'WARC/1.1',
+    ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+    `Content-Length: ${block.length}`,
+    '',
+    ''
+  ].join('\r\n');
+  return Buffer.concat([Buffer.from(head, 'utf8'), block, Buffer.from('\r\n\r\n', 'utf8')]);
+}
+
+/**
+ * Appends the responses of a live crawl to its WARC file. Each URL is
+ * recorded once; bodies are stored decoded.
+ */
+export class WarcWriter {
+  private recorded = new Set<string>();
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private crawlId: string, private software: string) {
+    this.append(warcRecord({
+      'WARC-Type': 'warcinfo',
+      'WARC-Record-ID': `<urn:uuid:${randomUUID()}>`,
+      'WARC-Date': new Date().toISOString(),
+      'Content-Type': 'application/warc-fields'
+    }, Buffer.from(`software: ${software}\r\nformat: WARC File Format 1.1\r\n`, 'utf8')));
+  }
+
+  /**
+   * Start recording every response the page receives
+   */
+  attach(page: Page): void {
+    page.on('response', response => {
+      this.record(response).catch(error => {
+        console.warn(`Failed to record ${response.url()}:`, error);
+      });
+    });
+  }
+
+  async record(response: HTTPResponse): Promise<void> {
+    const url = response.url();
+    if (!/^https?:/.test(url)) return;
+
+    const key = archiveKey(url);
+    if (this.recorded.has(key)) return;
+    this.recorded.add(key);
+
+    // Redirects and some preflight responses have no body to read
+    const status = response.status();
+    const body = status >= 300 && status < 400
+      ? Buffer.alloc(0)
+      : await response.buffer().catch(() => Buffer.alloc(0));
+
+    const headerLines = Object.entries(response.headers())
+      .filter(([name]) => !WIRE_HEADERS.has(name.toLowerCase()))
+      // Puppeteer joins repeated headers (e.g. set-cookie) with newlines
+      .flatMap(([name, value]) => value.split('\n').map(line => `${name}: ${line}`));
+    const httpHead = [
+      `HTTP/1.1 ${status} ${response.statusText() || 'OK'}`,
+      ...headerLines,
+      `content-length: ${body.length}`,
+      '',
+      ''
+    ].join('\r\n');
+
+    this.append(warcRecord({
+      'WARC-Type': 'response',
+      'WARC-Record-ID': `<urn:uuid:${randomUUID()}>`,
+      'WARC-Date': new Date().toISOString(),
+      'WARC-Target-URI': url,
+      'Content-Type': 'application/http; msgtype=response'
+    }, Buffer.concat([Buffer.from(httpHead, 'utf8'), body])));
+  }
+
+  /**
+   * Wait for every queued record to be written
+   */
+  flush(): Promise<void> {
+    return this.pending;
+  }
+
+  private append(record: Buffer): void {
+    this.pending = this.pending
+      .then(() => appendDataFile(record, ARCHIVE_DIR, archiveFile(this.crawlId)))
+      .catch(error => console.error(`Failed to write archive of crawl ${this.crawlId}:`, error));
+  }
+}
+
+function decodeChunked(body: Buffer): Buffer {
+  const chunks: Buffer[] = [];
+  let offset = 0;
+  while (offset < body.length) {
+    const lineEnd = body.indexOf('\r\n', offset);
+    if (lineEnd < 0) break;
+    const size = parseInt(body.toString('latin1', offset, lineEnd).split(';')[0], 16);
+    if (!size) break;
+    chunks.push(body.subarray(lineEnd + 2, lineEnd + 2 + size));
+    offset = lineEnd + 2 + size + 2;
+  }
+  return Buffer.concat(chunks);
+}
+
+function decodeBody(body: Buffer, headers: Record<string, string>): Buffer {
+  let decoded = /chunked/i.test(headers['transfer-encoding'] ?? '') ? decodeChunked(body) : body;
+  const encoding = (headers['content-encoding'] ?? '').toLowerCase();
+  try {
+    if (encoding === 'gzip') decoded = gunzipSync(decoded, { maxOutputLength: MAX_BODY_BYTES });
+    else if (encoding === 'deflate') decoded = inflateSync(decoded, { maxOutputLength: MAX_BODY_BYTES });
+    else if (encoding === 'br') decoded = brotliDecompressSync(decoded, { maxOutputLength: MAX_BODY_BYTES });
+  } catch (error) {
+    console.warn(`Failed to decode ${encoding} archive body:`, error);
+  }
+  return decoded;
+}
+
+function parseHeaderBlock(block: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  block.split('\r\n').forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator <= 0) return;
+    const name = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+    headers[name] = headers[name] ? `${headers[name]}\n${value}` : value;
+  });
+  return headers;
+}
+
+/**
+ * Read the response and resource records of a WARC file (optionally
+ * gzipped), keeping the first capture of each URL
+ */
+export function parseWarc(data: Buffer): Map<string, ArchivedResponse> {
+  const responses = new Map<string, ArchivedResponse>();
+  let offset = 0;
+
+  while (offset < data.length) {
+    const start = data.indexOf('WARC/', offset);
+    if (start < 0) break;
+    const headerEnd = data.indexOf('\r\n\r\n', start);
+    if (headerEnd < 0) break;
+
+    const warcHeaders = parseHeaderBlock(data.toString('utf8', start, headerEnd));
+    const length = parseInt(warcHeaders['content-length'] ?? '0', 10);
+    const block = data.subarray(headerEnd + 4, headerEnd + 4 + length);
+    offset = headerEnd + 4 + length;
+
+    const type = warcHeaders['warc-type'];
+    const target = warcHeaders['warc-target-uri']?.replace(/^<|>$/g, '');
+    if (!target || (type !== 'response' && type !== 'resource')) continue;
+
+    let key: string;
+    try {
+      key = archiveKey(target);
+    } catch {
+      continue;
+    }
+    if (responses.has(key)) continue;
+
+    if (type === 'resource') {
+      const contentType = warcHeaders['content-type'];
+      responses.set(key, { status: 200, headers: contentType ? { 'content-type': contentType } : {}, body: Buffer.from(block) });
+      continue;
+    }
+
+    const httpEnd = block.indexOf('\r\n\r\n');
+    if (httpEnd < 0) continue;
+    const [statusLine, ...headerLines] = block.toString('latin1', 0, httpEnd).split('\r\n');
+    const status = parseInt(statusLine.split(' ')[1] ?? '', 10);
+    if (!status) continue;
+
+    const headers = parseHeaderBlock(headerLines.join('\r\n'));
+    const body = decodeBody(Buffer.from(block.subarray(httpEnd + 4)), headers);
+    WIRE_HEADERS.forEach(name => delete headers[name]);
+    responses.set(key, { status, headers, body });
+  }
+
+  return responses;
+}
+
+async function loadWarcArchive(filePath: string): Promise<PageArchive> {
+  const stats = await fs.stat(filePath);
+  if (stats.size > MAX_WARC_BYTES) {
+    throw new Error(`Archive ${filePath} is larger than ${MAX_WARC_BYTES} bytes`);
+  }
+
+  let data = await fs.readFile(filePath);
+  if (data[0] === 0x1f && data[1] === 0x8b) {
+    // Each record of a .warc.gz is its own gzip member
+    data = gunzipSync(data, { maxOutputLength: MAX_WARC_BYTES });
+  }
+
+  const responses = parseWarc(data);
+  console.log(`Loaded ${responses.size} archived responses from ${filePath}`);
+  return {
+    source: filePath,
+    lookup: async url => responses.get(archiveKey(url)) ?? null
+  };
+}
+
+/**
+ * Serve a directory of saved pages. A URL is looked for under a directory
+ * named after its host, then at the root, as the file itself, with `.html`
+ * appended, or as the directory's `index.html`.
+ */
+async function loadDirectoryArchive(directory: string): Promise<PageArchive> {
+  const candidates = (url: string): string[] => {
+    const { hostname, pathname } = new URL(url);
+    const relative = decodeURIComponent(pathname).replace(/^\/+/, '');
+    return [path.join(hostname, relative), relative].flatMap(base =>
+      !base || base.endsWith('/') || base === hostname
+        ? [path.join(base, 'index.html')]
+        : [base, `${base}.html`, `${base}.htm`, path.join(base, 'index.html')]
+    );
+  };
+
+  return {
+    source: directory,
+    lookup: async url => {
+      for (const candidate of candidates(url)) {
+        const filePath = path.resolve(directory, candidate);
+        if (!filePath.startsWith(`${directory}${path.sep}`)) continue;
+
+        const stats = await fs.stat(filePath).catch(() => null);
+        if (!stats?.isFile()) continue;
+
+        const contentType = CONTENT_TYPES[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream';
+        return { status: 200, headers: { 'content-type': contentType }, body: await fs.readFile(filePath) };
+      }
+      return null;
+    }
+  };
+}
+
+/**
+ * Open the archive a crawl replays: the id of a recorded crawl, a WARC file
+ * (`.warc` or `.warc.gz`) or a directory of saved HTML files
+ */
+export async function loadPageArchive(source: string): Promise<PageArchive> {
+  const filePath = isValidCrawlId(source) ? getRecordedArchivePath(source) : path.resolve(source);
+  if (!isValidCrawlId(source) && !isAllowedLocalPath(filePath)) {
+    throw new Error(`${filePath} is outside the allowed source repository roots (SOURCE_REPO_ROOTS)`);
+  }
+
+  const stats = await fs.stat(filePath).catch(() => null);
+  if (stats?.isDirectory()) return loadDirectoryArchive(filePath);
+  if (stats?.isFile()) return loadWarcArchive(filePath);
+
+  throw new Error(isValidCrawlId(source)
+    ? `No recorded archive for crawl ${source}`
+    : `Archive ${filePath} does not exist`);
+}
+
+/**
+ * Serve every request of the page from the archive. Requests the archive
+ * has no response for fail with a 404 instead of going to the network.
+ * Must be installed before any other request handler of the page.
+ */
+export async function installArchiveReplay(page: Page, archive: PageArchive): Promise<void> {
+  await page.setRequestInterception(true);
+  page.on('request', async request => {
+    if (request.isInterceptResolutionHandled()) return;
+
+    const url = request.url();
+    if (!/^https?:/.test(url)) {
+      await request.continue();
+      return;
+    }
+
+    try {
+      const archived = await archive.lookup(url);
+      if (archived) {
+        await request.respond({ status: archived.status, headers: archived.headers, body: archived.body });
+      } else {
+        await request.respond({ status: 404, contentType: 'text/plain', body: `Not in archive ${archive.source}` });
+      }
+    } catch (error) {
+      console.warn(`Failed to replay ${url}:`, error);
+      await request.abort('failed').catch(() => undefined);
+    }
+  });
+}
@@ -1,5 +1,5 @@
 import { createSlice, createSelector, PayloadAction } from '@reduxjs/toolkit';
-import { Component, DesignSystemSource, CrawlProgress } from '../types/types';
+import { Component, DesignSystemSource, CrawlProgress, UrlRuleSet } from '../types/types';
 import type { RootState } from './store';
 
 interface DesignSystemState {
@@ -28,13 +28,30 @@ export const designSystemSlice = createSlice({
   name: 'designSystem',
   initialState,
   reducers: {
-    addSource: (state, action: PayloadAction<{ url: string; name?: string }>) => {
-      const id = `source-${Date.now()}`;
+    addSource: (state, action: PayloadAction<{
+      url: string;
+      name?: string;
+      urlRules?: UrlRuleSet;
+      status?: DesignSystemSource['status'];
+      error?: string;
+    }>) => {
+      const { url, name, urlRules, status = 'idle', error } = action.payload;
+      // Crawling a URL again (e.g. after its credentials were fixed) updates its source
+      const existing = state.sources.find(s => s.url === url);
+      if (existing) {
+        existing.name = name || existing.name;
+        existing.urlRules = urlRules ?? existing.urlRules;
+        existing.status = status;
+        existing.error = error;
+        return;
+      }
       state.sources.push({
-        id,
-        url: action.payload.url,
-        name: action.payload.name || new URL(action.payload.url).hostname,
-        status: 'idle'
+        id: `source-${Date.now()}`,
+        url,
+        name: name || new URL(url).hostname,
+        status,
+        error,
+        urlRules
       });
     },
     removeSource: (state, action: PayloadAction<string>) => {
@@ -54,6 +71,12 @@ export const designSystemSlice = createSlice({
         }
       }
     },
+    updateSourceUrlRules: (state, action: PayloadAction<{ id: string; urlRules: UrlRuleSet }>) => {
+      const source = state.sources.find(s => s.id === action.payload.id);
+      if (source) {
+        source.urlRules = action.payload.urlRules;
+      }
+    },
     updateCrawlProgress: (state, action: PayloadAction<{ sourceId: string; progress: CrawlProgress }>) => {
       state.crawlProgress[action.payload.sourceId] = action.payload.progress;
     },
@@ -126,7 +149,7 @@ export const selectSourceComponents = createSelector(
 );
 
 export const { 
-  addSource, removeSource, updateSourceStatus, updateCrawlProgress,
+  addSource, removeSource, updateSourceStatus, updateSourceUrlRules, updateCrawlProgress,
   addComponent, updateComponent, removeComponent,
   setSelectedSource, setSelectedComponent,
   toggleDarkMode, setError,
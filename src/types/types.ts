@@ -1,8 +1,19 @@
+// Where an analysed value came from: the model, a rule or extraction, or nowhere
+export type AnalysisSource = 'llm' | 'heuristic' | 'failed';
+
+export type FieldProvenance = {
+  source: AnalysisSource;
+  confidence: number; // 0 (no evidence) to 1
+};
+
 export type ComponentProp = {
   name: string;
   type: string;
   required: boolean;
   description: string;
+  defaultValue?: string;
+  control?: string; // Storybook control type, e.g. 'select' or 'boolean'
+  provenance?: FieldProvenance;
 };
 
 export type CodeSnippet = {
@@ -24,23 +35,111 @@ export type Component = {
   codeSnippets: CodeSnippet[];
   relationships: ComponentRelationship[];
   metadata: Record<string, string | number | boolean>;
+  provenance?: Partial<Record<'name' | 'description' | 'props', FieldProvenance>>; // Set by /api/analyze
 };
 
+export type UrlRuleKind = 'glob' | 'regex';
+
+export interface UrlRule {
+  pattern: string;
+  kind: UrlRuleKind;
+}
+
+export interface UrlRuleSet {
+  include: UrlRule[];
+  exclude: UrlRule[];
+}
+
 export type DesignSystemSource = {
   id: string;
   url: string;
   name: string;
-  status: 'idle' | 'crawling' | 'analyzing' | 'complete' | 'error';
+  status: 'idle' | 'crawling' | 'analyzing' | 'complete' | 'error' | 'auth-failed';
   error?: string;
   lastCrawled?: string; // ISO date string
+  urlRules?: UrlRuleSet;
+};
+
+export interface CrawlCookie {
+  name: string;
+  value: string;
+  domain?: string; // Defaults to the host of the credentials' URL prefix
+  path?: string;
+  secure?: boolean;
+  httpOnly?: boolean;
+}
+
+export interface LoginStep {
+  action: 'goto' | 'type' | 'click' | 'waitForSelector' | 'waitForNavigation';
+  selector?: string;
+  value?: string; // Text for 'type'
+  url?: string; // Target for 'goto'
+}
+
+// Secrets used to crawl private sites. Only ever stored and used server-side.
+export interface CrawlCredentials {
+  cookies?: CrawlCookie[];
+  headers?: Record<string, string>;
+  basicAuth?: {
+    username: string;
+    password: string;
+  };
+  login?: {
+    url: string;
+    steps: LoginStep[];
+    successSelector?: string; // Present once logged in
+  };
+  loginWallSelector?: string; // Present on the site's login page
+}
+
+export type CrawlWaitStrategy = 'load' | 'domcontentloaded' | 'networkidle0' | 'networkidle2';
+
+// 'auto' uses the Storybook adapter when the site serves a Storybook index
+export type CrawlExtractionMode = 'auto' | 'dom' | 'storybook';
+
+export interface CrawlOptions {
+  rateLimitMs: number;
+  maxRetries: number;
+  maxPages: number;
+  maxDepth: number;
+  concurrency: number;
+  viewport: {
+    width: number;
+    height: number;
+  };
+  timeoutMs: number;
+  waitUntil: CrawlWaitStrategy;
+  urlRules: UrlRuleSet;
+  userAgent: string;
+  respectRobotsTxt: boolean;
+  useSitemap: boolean;
+  incremental: boolean;
+  extractionMode: CrawlExtractionMode;
+  captureScreenshots: boolean;
+  collectDesignTokens: boolean;
+  spaMode: boolean; // Follow hash/History API routes and click-driven navigation
+  allowedFrameOrigins: string[]; // Cross-origin iframes to extract, e.g. an embed provider
+  recordArchive: boolean; // Save every response to a WARC file under the data directory
+  replayArchive: string | null; // Crawl id, WARC file or saved HTML directory to crawl offline
+}
+
+export type CrawlDepthStats = {
+  depth: number;
+  discovered: number;
+  processed: number;
 };
 
 export type CrawlProgress = {
   sourceId: string;
+  crawlId?: string;
   pagesProcessed: number;
   totalPages: number;
   currentPage: string;
   componentsFound?: number;
+  currentDepth?: number;
+  depthStats?: CrawlDepthStats[];
+  robotsDisallowed?: number;
+  pagesSkipped?: number;
 };
 
 export interface WebSocketMessage {
@@ -74,6 +173,7 @@ export interface PageMetadata {
   jsonLd?: Record<string, unknown>[];
   canonicalUrl?: string;
   language?: string;
+  frontmatter?: Record<string, unknown>; // Frontmatter of Markdown/MDX documents
 }
 
 export interface CodeSample {
@@ -85,6 +185,39 @@ export interface CodeSample {
   context?: string;
   sourceElement?: string;
   lineNumbers?: boolean;
+  frameUrl?: string; // Set when the sample was rendered inside an iframe
+  cssPath?: string; // Element the sample was read from
+  alsoFoundOn?: string[]; // Later pages of the crawl showing the same code
+}
+
+/**
+ * A run of plain-string semantic items that came from an iframe
+ */
+export interface FrameSpan {
+  frameUrl: string;
+  field: 'paragraphs' | 'altTexts' | 'ariaLabels';
+  start: number;
+  count: number;
+}
+
+export type SectionBlock =
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'list'; listType: 'ul' | 'ol'; items: string[] }
+  | { kind: 'code'; codeSampleIndex: number } // Index into the page's codeSamples
+  | { kind: 'table'; tableIndex: number }; // Matches PropTableLocation.tableIndex
+
+/**
+ * A heading and the blocks under it up to the next heading of the same or a
+ * higher level, in DOM order. Content before the first heading sits in an
+ * untitled level 0 section.
+ */
+export interface ContentSection {
+  heading: string;
+  level: number;
+  id?: string;
+  blocks: SectionBlock[];
+  children: ContentSection[];
+  frameUrl?: string; // Set on sections rendered inside an iframe
 }
 
 export interface SemanticContent {
@@ -92,11 +225,13 @@ export interface SemanticContent {
     level: number;
     text: string;
     id?: string;
+    frameUrl?: string;
   }>;
   paragraphs: string[];
   lists: Array<{
     type: 'ul' | 'ol';
     items: string[];
+    frameUrl?: string;
   }>;
   altTexts: string[];
   ariaLabels: string[];
@@ -104,7 +239,106 @@ export interface SemanticContent {
     role: string;
     label?: string;
     content?: string;
+    frameUrl?: string;
   }>;
+  frameSpans?: FrameSpan[]; // Iframe origin of merged paragraphs, alt texts and ARIA labels
+  sections?: ContentSection[];
+}
+
+export interface PageCacheInfo {
+  etag?: string;
+  lastModified?: string;
+  contentHash?: string;
+}
+
+export interface PageScreenshot {
+  id: string;
+  kind: 'page' | 'example';
+  url: string; // Served by /api/screenshots
+  label?: string; // Nearest heading above an example region
+  width: number;
+  height: number;
+}
+
+export type DesignTokenCategory = 'color' | 'fontFamily' | 'fontSize' | 'spacing' | 'radius' | 'shadow';
+
+// Raw style usage collected from one rendered page, before clustering
+export interface PageStyleSample {
+  customProperties: Array<{
+    name: string;
+    value: string;
+    scope: string; // Selector that declares it, e.g. ':root' or '[data-theme="dark"]'
+  }>;
+  usage: Record<DesignTokenCategory, Record<string, number>>; // Computed value -> element count
+}
+
+export interface DesignToken {
+  name: string;
+  category: DesignTokenCategory;
+  value: string;
+  usageCount: number;
+  pageCount: number;
+  aliases?: string[]; // Near-identical values merged into this token
+  variables?: string[]; // Custom properties that hold this value
+}
+
+export interface DesignTokenVariable {
+  name: string;
+  value: string;
+  scopes: string[];
+  category?: DesignTokenCategory;
+}
+
+export interface DesignTokenSet {
+  sourceUrl: string;
+  generatedAt: string;
+  pageCount: number;
+  tokens: Record<DesignTokenCategory, DesignToken[]>;
+  variables: DesignTokenVariable[];
+}
+
+export interface CustomElementProperty {
+  name: string;
+  attribute?: string; // Attribute reflecting the property, when it has one
+  type?: string;
+}
+
+/**
+ * A custom element tag seen on a page, with what its registration and
+ * instances reveal about its API
+ */
+export interface CustomElementInfo {
+  tagName: string;
+  defined: boolean; // Registered through customElements.define
+  observedAttributes: string[];
+  properties: CustomElementProperty[]; // Declared reactive properties (Lit)
+  attributes: string[]; // Attributes set on instances in the page
+  slots: string[]; // Slot names in the open shadow root, 'default' for the unnamed slot
+  hasShadowRoot: boolean;
+  instanceCount: number;
+}
+
+export type PropTableColumn = 'name' | 'type' | 'default' | 'required' | 'description';
+
+export interface PropTableLocation {
+  tableIndex: number; // Position among the document's tables
+  selector: string; // CSS path of the table element
+  heading?: string; // Nearest heading above the table
+  frameUrl?: string; // Set when the table was rendered inside an iframe
+}
+
+/**
+ * A prop read from a documentation prop table
+ */
+export type PropCandidate = ComponentProp & {
+  parent?: string; // Enclosing prop of a nested prop, e.g. 'options' for 'options.size'
+  location: PropTableLocation;
+};
+
+export interface PropTable {
+  location: PropTableLocation;
+  columns: Partial<Record<PropTableColumn, string>>; // Header text of each recognised column
+  props: PropCandidate[];
 }
 
 export interface ExtractedPageContent {
@@ -115,8 +349,18 @@ export interface ExtractedPageContent {
   metadata: PageMetadata;
   codeSamples: CodeSample[];
   timestamp: string;
+  depth?: number;
   renderTime?: number;
-  errors?: string[];
+  cache?: PageCacheInfo;
+  unchangedSince?: string; // Set when a re-crawl reused this page unchanged
+  renderedHash?: string; // Hash of the rendered text in SPA mode, used to drop duplicate routes
+  customElements?: CustomElementInfo[]; // Web components used on the page
+  propTables?: PropTable[];
+  components?: Component[]; // Components read directly from the source, e.g. Storybook
+  screenshots?: PageScreenshot[];
+  styles?: PageStyleSample;
+  errors?: string[]; // Also non-fatal problems, e.g. a failed screenshot
+  failed?: boolean; // Set when the page could not be extracted at all
 }
 
 declare global {